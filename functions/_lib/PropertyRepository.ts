@@ -0,0 +1,55 @@
+import type { Property, PropertyRepository } from '@/types';
+import { ORGANIZATION_ID_PATTERN } from '@/utils/authToken';
+
+// KV-backed storage for Property records. Values are the JSON the client
+// sent, so dates stay ISO strings until the frontend revives them.
+// Every key is scoped by organization, so one customer's portfolio can never
+// be read or listed through another's repository.
+export class KVPropertyRepository implements PropertyRepository {
+  private readonly keyPrefix: string;
+
+  constructor(private readonly kv: KVNamespace, organizationId: string) {
+    // Restricting the charset keeps one org's prefix from matching another's keys
+    if (!ORGANIZATION_ID_PATTERN.test(organizationId)) {
+      throw new Error(`Invalid organization id: ${organizationId}`);
+    }
+    this.keyPrefix = `org:${organizationId}:property:`;
+  }
+
+  private key(id: string): string {
+    return `${this.keyPrefix}${id}`;
+  }
+
+  async get(id: string): Promise<Property | null> {
+    return this.kv.get<Property>(this.key(id), 'json');
+  }
+
+  async list(): Promise<Property[]> {
+    const keys: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.kv.list({ prefix: this.keyPrefix, cursor });
+      keys.push(...page.keys.map(key => key.name));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    const properties = await Promise.all(keys.map(key => this.kv.get<Property>(key, 'json')));
+    return properties.filter((property): property is Property => property !== null);
+  }
+
+  // Bumps the revision clients send back in If-Match to detect lost updates
+  async save(property: Property): Promise<Property> {
+    const current = await this.get(property.id);
+    const saved = { ...property, revision: (current?.revision ?? 0) + 1 };
+    await this.kv.put(this.key(property.id), JSON.stringify(saved));
+    return saved;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const existing = await this.kv.get(this.key(id));
+    if (existing === null) return false;
+    await this.kv.delete(this.key(id));
+    return true;
+  }
+}
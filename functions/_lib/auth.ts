@@ -0,0 +1,106 @@
+import type { AuthTokenClaims, Organization, UserIdentity } from '@/types';
+import {
+  claimsToIdentity,
+  decodeBase64Url,
+  decodeTokenClaims,
+  decodeTokenHeader,
+  isTokenExpired
+} from '@/utils/authToken';
+import { hasPermission, type Permission } from '@/utils/permissions';
+import { HttpError } from './http';
+
+export interface AuthEnv {
+  // HMAC secret the identity provider signs HS256 tokens with
+  JWT_SECRET?: string;
+  // 'true' skips token checks and acts as a local owner - `wrangler pages dev` only
+  AUTH_DISABLED?: string;
+}
+
+// Attached to context.data by the middleware for every /api route
+export type AuthData = {
+  user: UserIdentity;
+  organization: Organization;
+};
+
+const LOCAL_DEV_AUTH: AuthData = {
+  user: {
+    id: 'local-dev',
+    name: 'Local Developer',
+    email: '',
+    role: 'owner',
+    organizationId: 'local'
+  },
+  organization: { id: 'local', name: 'Local Development' }
+};
+
+function unauthorized(message: string): HttpError {
+  return new HttpError(401, 'unauthorized', message);
+}
+
+export async function verifyToken(token: string, secret: string): Promise<AuthTokenClaims> {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) {
+    throw unauthorized('Malformed token');
+  }
+
+  let claims: AuthTokenClaims;
+  try {
+    if (decodeTokenHeader(token).alg !== 'HS256') {
+      throw new Error('Unsupported token algorithm');
+    }
+
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      decodeBase64Url(signature),
+      encoder.encode(`${header}.${payload}`)
+    );
+    if (!valid) {
+      throw new Error('Invalid token signature');
+    }
+
+    claims = decodeTokenClaims(token);
+  } catch (error) {
+    throw unauthorized(error instanceof Error ? error.message : 'Invalid token');
+  }
+
+  if (isTokenExpired(claims)) {
+    throw unauthorized('Token expired or not yet valid');
+  }
+  return claims;
+}
+
+export async function authenticateRequest(request: Request, env: AuthEnv): Promise<AuthData> {
+  if (env.AUTH_DISABLED === 'true') {
+    return LOCAL_DEV_AUTH;
+  }
+  if (!env.JWT_SECRET) {
+    throw new HttpError(500, 'not_configured', 'Authentication is not configured');
+  }
+
+  const header = request.headers.get('Authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    throw unauthorized('Missing bearer token');
+  }
+
+  const claims = await verifyToken(match[1].trim(), env.JWT_SECRET);
+  return {
+    user: claimsToIdentity(claims),
+    organization: { id: claims.org, name: claims.orgName || claims.org }
+  };
+}
+
+export function requirePermission(auth: AuthData, permission: Permission): void {
+  if (!hasPermission(auth.user.role, permission)) {
+    throw new HttpError(403, 'forbidden', `Role '${auth.user.role}' is not allowed to ${permission}`);
+  }
+}
@@ -0,0 +1,76 @@
+import type { DataCategory } from '@/services/providers/types';
+import {
+  DATA_CACHE_MAX_STALE_MS,
+  cacheFreshness,
+  dataCacheKey,
+  type CacheStatus
+} from '@/utils/dataCachePolicy';
+
+export interface DataCacheEnv {
+  // Optional: without the binding every lookup goes straight upstream
+  DATA_CACHE?: KVNamespace;
+}
+
+interface StoredEntry {
+  data: unknown;
+  fetchedAt: string;
+}
+
+export interface CachedLookup<T> {
+  data: T;
+  status: CacheStatus;
+  fetchedAt: Date;
+}
+
+function storageKey(category: DataCategory, address: string): string {
+  return `data:${dataCacheKey(category, address)}`;
+}
+
+async function store(kv: KVNamespace, key: string, data: unknown, fetchedAt: Date) {
+  const entry: StoredEntry = { data, fetchedAt: fetchedAt.toISOString() };
+  await kv.put(key, JSON.stringify(entry), {
+    expirationTtl: Math.ceil(DATA_CACHE_MAX_STALE_MS / 1000)
+  });
+}
+
+// Serve a public-data lookup from KV. Fresh entries are returned as-is; stale
+// ones are returned immediately and refreshed after the response via waitUntil.
+// Upstream failures are never cached.
+export async function cachedLookup<T>(
+  env: DataCacheEnv,
+  waitUntil: (promise: Promise<unknown>) => void,
+  category: DataCategory,
+  address: string,
+  fetcher: () => Promise<T>,
+  forceRefresh = false
+): Promise<CachedLookup<T>> {
+  const kv = env.DATA_CACHE;
+  if (!kv) {
+    return { data: await fetcher(), status: 'bypass', fetchedAt: new Date() };
+  }
+
+  const key = storageKey(category, address);
+  if (!forceRefresh) {
+    const entry = await kv.get<StoredEntry>(key, 'json');
+    if (entry) {
+      const fetchedAt = new Date(entry.fetchedAt);
+      const freshness = cacheFreshness(category, fetchedAt);
+      if (freshness === 'fresh') {
+        return { data: entry.data as T, status: 'hit', fetchedAt };
+      }
+      if (freshness === 'stale') {
+        waitUntil(
+          fetcher()
+            .then(data => store(kv, key, data, new Date()))
+            .catch(error => console.error(`Background refresh of ${key} failed:`, error))
+        );
+        return { data: entry.data as T, status: 'stale', fetchedAt };
+      }
+    }
+  }
+
+  const data = await fetcher();
+  const fetchedAt = new Date();
+  await store(kv, key, data, fetchedAt);
+  return { data, status: forceRefresh ? 'bypass' : 'miss', fetchedAt };
+}
@@ -0,0 +1,60 @@
+// JSON response helpers shared by the API routes
+
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly details?: unknown,
+    public readonly headers?: Record<string, string>
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export function jsonResponse(body: unknown, status = 200, headers?: HeadersInit): Response {
+  const response = new Response(JSON.stringify(body), { status, headers });
+  response.headers.set('Content-Type', 'application/json; charset=utf-8');
+  return response;
+}
+
+export function errorResponse(
+  status: number,
+  code: string,
+  message: string,
+  details?: unknown,
+  headers?: HeadersInit
+): Response {
+  return jsonResponse({
+    success: false,
+    error: { code, message, ...(details !== undefined ? { details } : {}) }
+  }, status, headers);
+}
+
+export async function readJsonBody<T>(request: Request): Promise<T> {
+  try {
+    return await request.json() as T;
+  } catch {
+    throw new HttpError(400, 'invalid_json', 'Request body must be valid JSON');
+  }
+}
+
+// Wraps a handler so thrown HttpErrors (and anything unexpected) become JSON errors
+export function withErrorHandling<
+  E = unknown,
+  P extends string = string,
+  D extends Record<string, unknown> = Record<string, unknown>
+>(handler: PagesFunction<E, P, D>): PagesFunction<E, P, D> {
+  return async (context) => {
+    try {
+      return await handler(context);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return errorResponse(error.status, error.code, error.message, error.details, error.headers);
+      }
+      console.error('Unhandled API error:', error);
+      return errorResponse(500, 'internal_error', 'Internal server error');
+    }
+  };
+}
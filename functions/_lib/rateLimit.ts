@@ -0,0 +1,181 @@
+import type { AuthData } from './auth';
+import { HttpError } from './http';
+
+// Fixed-window rate limiting on KV. KV is eventually consistent, so limits
+// are approximate under bursts across colos - good enough to stop a runaway
+// client from draining the paid data-provider quotas.
+
+export type RateLimitRuleId = 'lookup' | 'write' | 'read';
+
+export interface RateLimit {
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitEnv {
+  RATE_LIMITS?: KVNamespace;
+  // JSON overrides, e.g.
+  // {"rules":{"lookup":{"limit":20}},"routes":{"/api/geocode/*":{"lookup":{"limit":100}}},
+  //  "users":{"u_123":{"lookup":{"limit":200,"windowSeconds":600}}}}
+  RATE_LIMIT_CONFIG?: string;
+}
+
+type RuleOverrides = Partial<Record<RateLimitRuleId, Partial<RateLimit>>>;
+
+interface RateLimitConfig {
+  rules?: RuleOverrides;
+  // Keyed by route pattern; the first pattern matching the path wins
+  routes?: Record<string, RuleOverrides>;
+  users?: Record<string, RuleOverrides>;
+}
+
+export interface ResolvedRateLimit extends RateLimit {
+  // Route pattern with its own counter, when one is configured for the path
+  route?: string;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  rule: RateLimitRuleId;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+  retryAfterSeconds: number;
+}
+
+// Address lookups fan out to paid providers, so they get the tightest budget
+const DEFAULT_RATE_LIMITS: Record<RateLimitRuleId, RateLimit> = {
+  lookup: { limit: 40, windowSeconds: 600 },
+  write: { limit: 60, windowSeconds: 60 },
+  read: { limit: 300, windowSeconds: 60 }
+};
+
+// KV rejects expirationTtl below 60 seconds
+const MIN_KV_TTL_SECONDS = 60;
+
+// Route-level budget applied by the middleware. Handlers that only sometimes
+// resolve an address (POST /api/property, /api/command) charge 'lookup'
+// themselves once they know.
+export function classifyRequest(method: string, pathname: string): RateLimitRuleId {
+  if (pathname.startsWith('/api/data/') || pathname.startsWith('/api/geocode/')) {
+    return 'lookup';
+  }
+  return method === 'GET' || method === 'HEAD' ? 'read' : 'write';
+}
+
+// Patterns use the Pages route syntax: `[name]` matches one path segment and
+// a trailing `*` matches the rest, e.g. /api/data/[category] or /api/geocode/*
+export function matchRoute(pattern: string, pathname: string): boolean {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = pathname.split('/').filter(Boolean);
+  for (let index = 0; index < patternParts.length; index++) {
+    const part = patternParts[index];
+    if (part === '*' && index === patternParts.length - 1) {
+      return pathParts.length > index;
+    }
+    const segment = pathParts[index];
+    if (segment === undefined) return false;
+    if (!(part.startsWith('[') && part.endsWith(']')) && part !== segment) return false;
+  }
+  return patternParts.length === pathParts.length;
+}
+
+function parseConfig(raw: string | undefined): RateLimitConfig {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as RateLimitConfig;
+  } catch (error) {
+    console.error('Ignoring invalid RATE_LIMIT_CONFIG:', error);
+    return {};
+  }
+}
+
+// Defaults, then the rule override, then the first matching route, then the
+// user's own override - each only for the fields it sets.
+export function resolveRateLimit(
+  env: RateLimitEnv,
+  rule: RateLimitRuleId,
+  userId?: string,
+  pathname?: string
+): ResolvedRateLimit {
+  const config = parseConfig(env.RATE_LIMIT_CONFIG);
+  const route = pathname === undefined
+    ? undefined
+    : Object.keys(config.routes ?? {}).find(pattern => config.routes?.[pattern]?.[rule] && matchRoute(pattern, pathname));
+  const resolved = {
+    ...DEFAULT_RATE_LIMITS[rule],
+    ...config.rules?.[rule],
+    ...(route ? config.routes?.[route]?.[rule] : undefined),
+    ...(userId ? config.users?.[userId]?.[rule] : undefined)
+  };
+  return {
+    limit: Math.max(0, Math.floor(resolved.limit)),
+    windowSeconds: Math.max(1, Math.floor(resolved.windowSeconds)),
+    ...(route ? { route } : {})
+  };
+}
+
+export function clientKey(request: Request, auth?: Partial<AuthData>): string {
+  if (auth?.user) {
+    return `user:${auth.user.organizationId}:${auth.user.id}`;
+  }
+  return `ip:${request.headers.get('CF-Connecting-IP') || 'unknown'}`;
+}
+
+export async function checkRateLimit(
+  kv: KVNamespace,
+  rule: RateLimitRuleId,
+  client: string,
+  { limit, windowSeconds, route }: ResolvedRateLimit,
+  now = Date.now()
+): Promise<RateLimitResult> {
+  const windowMs = windowSeconds * 1000;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const resetAt = windowStart + windowMs;
+  const retryAfterSeconds = Math.max(1, Math.ceil((resetAt - now) / 1000));
+  // Routes with their own budget count separately from the rest of the rule
+  const bucket = route ? `${rule}:${route}` : rule;
+  const key = `ratelimit:${bucket}:${client}:${windowStart}`;
+
+  const used = Number(await kv.get(key)) || 0;
+  if (used >= limit) {
+    return { allowed: false, rule, limit, remaining: 0, resetAt, retryAfterSeconds };
+  }
+
+  await kv.put(key, String(used + 1), {
+    expirationTtl: Math.max(MIN_KV_TTL_SECONDS, retryAfterSeconds)
+  });
+  return { allowed: true, rule, limit, remaining: limit - used - 1, resetAt, retryAfterSeconds };
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt / 1000))
+  };
+}
+
+// Charge one request against `rule` for the caller, throwing a 429 once the
+// window is spent. Returns null when no RATE_LIMITS namespace is bound.
+export async function enforceRateLimit(
+  request: Request,
+  env: RateLimitEnv,
+  auth: Partial<AuthData>,
+  rule: RateLimitRuleId
+): Promise<RateLimitResult | null> {
+  if (!env.RATE_LIMITS) return null;
+
+  const limit = resolveRateLimit(env, rule, auth.user?.id, new URL(request.url).pathname);
+  const result = await checkRateLimit(env.RATE_LIMITS, rule, clientKey(request, auth), limit);
+  if (!result.allowed) {
+    throw new HttpError(
+      429,
+      'rate_limited',
+      `Too many ${rule} requests, retry in ${result.retryAfterSeconds}s`,
+      { rule, limit: result.limit, windowSeconds: limit.windowSeconds },
+      { ...rateLimitHeaders(result), 'Retry-After': String(result.retryAfterSeconds) }
+    );
+  }
+  return result;
+}
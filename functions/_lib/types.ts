@@ -0,0 +1,9 @@
+import type { UpstreamEnv } from './upstreams';
+import type { AuthEnv } from './auth';
+import type { RateLimitEnv } from './rateLimit';
+import type { DataCacheEnv } from './dataCache';
+
+// Bindings and secrets available to every Pages Function
+export interface Env extends UpstreamEnv, AuthEnv, RateLimitEnv, DataCacheEnv {
+  PROPERTIES: KVNamespace;
+}
@@ -0,0 +1,353 @@
+import type { TaxData, MarketData, PermitData, SaleData } from '@/types/publicData';
+import type { GeolocationAddress, GeolocationCoordinates } from '@/types/geolocation';
+import { HttpError } from '../http';
+import {
+  parseRealtyMoleData,
+  parseAttomData,
+  parseMarketData,
+  parsePermitData,
+  parseAttomSalesHistory,
+  parseGoogleMapsResponse,
+  parseMapBoxResponse,
+  parseGoogleGeocodeLocation,
+  parseMapBoxLocation
+} from './normalize';
+
+// Secrets for the third-party data providers. Set them with
+// `wrangler pages secret put <NAME>` (or .dev.vars locally) - they are
+// never exposed to the browser bundle.
+export interface UpstreamEnv {
+  REALTYMOLE_API_KEY?: string;
+  ATTOM_API_KEY?: string;
+  REALTOR_API_KEY?: string;
+  RENTSPREE_API_KEY?: string;
+  WALKSCORE_API_KEY?: string;
+  BUILDING_PERMITS_API_KEY?: string;
+  GOOGLE_MAPS_API_KEY?: string;
+  MAPBOX_API_KEY?: string;
+
+  // Optional base URL overrides, e.g. REALTYMOLE_BASE_URL=http://localhost:9999
+  // to run against a local fake upstream
+  [baseUrlOverride: `${string}_BASE_URL`]: string | undefined;
+}
+
+const DEFAULT_BASE_URLS = {
+  REALTYMOLE: 'https://api.realtymole.com',
+  ATTOM: 'https://api.attomdata.com',
+  RENTSPREE: 'https://api.rentspree.com',
+  REALTOR: 'https://api.realtor.com',
+  WALKSCORE: 'https://api.walkscore.com',
+  BUILDING_PERMITS: 'https://api.buildingpermits.com',
+  GOOGLE_MAPS: 'https://maps.googleapis.com',
+  MAPBOX: 'https://api.mapbox.com'
+} as const;
+
+type Upstream = keyof typeof DEFAULT_BASE_URLS;
+
+function baseUrl(env: UpstreamEnv, upstream: Upstream): string {
+  return (env[`${upstream}_BASE_URL`] || DEFAULT_BASE_URLS[upstream]).replace(/\/$/, '');
+}
+
+function notConfigured(message: string): HttpError {
+  return new HttpError(503, 'not_configured', message);
+}
+
+function upstreamFailed(message: string): HttpError {
+  return new HttpError(502, 'upstream_error', message);
+}
+
+// Every geocoder answered and none knew the place. Not retryable, so the
+// client moves on to its next geocoder instead of spending lookups again.
+function noMatch(message: string): HttpError {
+  return new HttpError(404, 'not_found', message);
+}
+
+// T is the documented payload; parsers still treat every field as optional
+async function fetchUpstreamJson<T>(url: string, init: RequestInit, label: string): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`${label} API failed: ${response.status} - ${response.statusText}`);
+  }
+  return await response.json() as T;
+}
+
+interface GoogleGeocodeResponse {
+  status?: string;
+  error_message?: string;
+  results?: unknown[];
+}
+
+interface MapBoxGeocodeResponse {
+  features?: unknown[];
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+// Tax assessment: RealtyMole first, Attom only when RealtyMole fails or has
+// no record for the address
+export async function getTaxAssessment(env: UpstreamEnv, address: string): Promise<TaxData> {
+  if (!env.REALTYMOLE_API_KEY && !env.ATTOM_API_KEY) {
+    throw notConfigured('No API keys configured for tax assessment data');
+  }
+
+  const failures: string[] = [];
+  // RealtyMole's empty record, kept in case Attom can't do better
+  let empty: TaxData | undefined;
+
+  if (env.REALTYMOLE_API_KEY) {
+    try {
+      const data = await fetchUpstreamJson<{ properties?: unknown[] }>(
+        `${baseUrl(env, 'REALTYMOLE')}/api/v1/properties?address=${encodeURIComponent(address)}`,
+        {
+          headers: {
+            'X-RapidAPI-Key': env.REALTYMOLE_API_KEY,
+            'X-RapidAPI-Host': 'api.realtymole.com'
+          }
+        },
+        'RealtyMole'
+      );
+      if (data.properties?.length) return parseRealtyMoleData(data);
+      empty = parseRealtyMoleData(data);
+    } catch (error) {
+      console.error('RealtyMole API error:', error);
+      failures.push(errorMessage(error));
+    }
+  }
+
+  if (env.ATTOM_API_KEY) {
+    try {
+      const data = await fetchUpstreamJson(
+        `${baseUrl(env, 'ATTOM')}/propertyapi/v1.0.0/property/detail?address1=${encodeURIComponent(address)}`,
+        {
+          headers: {
+            'apikey': env.ATTOM_API_KEY,
+            'Accept': 'application/json'
+          }
+        },
+        'Attom'
+      );
+      return parseAttomData(data);
+    } catch (error) {
+      console.error('Attom API error:', error);
+      failures.push(errorMessage(error));
+    }
+  }
+
+  if (empty) return empty;
+  throw upstreamFailed(`Tax assessment APIs failed: ${failures.join('; ')}`);
+}
+
+// Market data: Rentspree rent estimate combined with Realtor values
+export async function getMarketData(env: UpstreamEnv, address: string): Promise<MarketData> {
+  if (!env.RENTSPREE_API_KEY && !env.REALTOR_API_KEY) {
+    throw notConfigured('No API keys configured for market data');
+  }
+
+  const [rentResult, valueResult] = await Promise.allSettled([
+    env.RENTSPREE_API_KEY
+      ? fetchUpstreamJson(
+          `${baseUrl(env, 'RENTSPREE')}/v1/properties/estimate?address=${encodeURIComponent(address)}`,
+          {
+            headers: {
+              'Authorization': `Bearer ${env.RENTSPREE_API_KEY}`,
+              'Content-Type': 'application/json'
+            }
+          },
+          'Rentspree'
+        )
+      : Promise.reject(new Error('Rentspree API key not configured')),
+    env.REALTOR_API_KEY
+      ? fetchUpstreamJson(
+          `${baseUrl(env, 'REALTOR')}/v2/properties?address=${encodeURIComponent(address)}`,
+          {
+            headers: {
+              'X-RapidAPI-Key': env.REALTOR_API_KEY,
+              'X-RapidAPI-Host': 'realtor.com'
+            }
+          },
+          'Realtor'
+        )
+      : Promise.reject(new Error('Realtor API key not configured'))
+  ]);
+
+  if (rentResult.status === 'rejected' && valueResult.status === 'rejected') {
+    throw upstreamFailed(
+      `All market data APIs failed: ${errorMessage(rentResult.reason)}; ${errorMessage(valueResult.reason)}`
+    );
+  }
+
+  return parseMarketData(
+    rentResult.status === 'fulfilled' ? rentResult.value : null,
+    valueResult.status === 'fulfilled' ? valueResult.value : null
+  );
+}
+
+export async function getWalkScore(env: UpstreamEnv, address: string): Promise<number> {
+  if (!env.WALKSCORE_API_KEY) {
+    throw notConfigured('No Walk Score API key configured');
+  }
+
+  const params = new URLSearchParams({ format: 'json', address, wsapikey: env.WALKSCORE_API_KEY });
+  try {
+    const data = await fetchUpstreamJson<{ status?: number; walkscore?: number }>(
+      `${baseUrl(env, 'WALKSCORE')}/score?${params}`,
+      {},
+      'Walk Score'
+    );
+    if (data.status !== 1) {
+      throw new Error(`Walk Score API error: ${data.status}`);
+    }
+    return data.walkscore || 0;
+  } catch (error) {
+    console.error('Walk Score API error:', error);
+    throw upstreamFailed(errorMessage(error));
+  }
+}
+
+// Generic building permit API, used for cities without an open-data portal
+export async function getBuildingPermits(env: UpstreamEnv, address: string): Promise<PermitData[]> {
+  if (!env.BUILDING_PERMITS_API_KEY) {
+    throw notConfigured('No building permits API key configured');
+  }
+
+  try {
+    const data = await fetchUpstreamJson<unknown[]>(
+      `${baseUrl(env, 'BUILDING_PERMITS')}/v1/permits?address=${encodeURIComponent(address)}`,
+      { headers: { 'Authorization': `Bearer ${env.BUILDING_PERMITS_API_KEY}` } },
+      'Building permits'
+    );
+    return parsePermitData(data);
+  } catch (error) {
+    console.error('Permits API error:', error);
+    throw upstreamFailed(errorMessage(error));
+  }
+}
+
+// Recorded sales and deed transfers from Attom's county recorder data
+export async function getSalesHistory(env: UpstreamEnv, address: string): Promise<SaleData[]> {
+  if (!env.ATTOM_API_KEY) {
+    throw notConfigured('No Attom API key configured for sales history');
+  }
+
+  // Attom wants the street line and "city, state zip" separately
+  const [street, ...rest] = address.split(',').map(part => part.trim());
+  const params = new URLSearchParams({ address1: street, address2: rest.join(', ') });
+  try {
+    const data = await fetchUpstreamJson(
+      `${baseUrl(env, 'ATTOM')}/propertyapi/v1.0.0/saleshistory/expandedhistory?${params}`,
+      {
+        headers: {
+          'apikey': env.ATTOM_API_KEY,
+          'Accept': 'application/json'
+        }
+      },
+      'Attom sales history'
+    );
+    return parseAttomSalesHistory(data);
+  } catch (error) {
+    console.error('Attom sales history error:', error);
+    throw upstreamFailed(errorMessage(error));
+  }
+}
+
+// Reverse geocoding: Google Maps first, MapBox as fallback
+export async function reverseGeocode(env: UpstreamEnv, coordinates: GeolocationCoordinates): Promise<GeolocationAddress> {
+  if (!env.GOOGLE_MAPS_API_KEY && !env.MAPBOX_API_KEY) {
+    throw notConfigured('No geocoding API keys configured');
+  }
+
+  const failures: string[] = [];
+
+  if (env.GOOGLE_MAPS_API_KEY) {
+    try {
+      const data = await fetchUpstreamJson<GoogleGeocodeResponse>(
+        `${baseUrl(env, 'GOOGLE_MAPS')}/maps/api/geocode/json?latlng=${coordinates.latitude},${coordinates.longitude}&key=${env.GOOGLE_MAPS_API_KEY}`,
+        {},
+        'Google Maps'
+      );
+      if (data.status !== 'OK' && data.status !== 'ZERO_RESULTS') {
+        throw new Error(`Google Maps API error: ${data.status} - ${data.error_message || 'Unknown error'}`);
+      }
+      // No results isn't a failure; MapBox still gets a try
+      if (data.results?.length) {
+        return parseGoogleMapsResponse(data.results[0], coordinates);
+      }
+    } catch (error) {
+      console.error('Google Maps geocoding failed:', error);
+      failures.push(errorMessage(error));
+    }
+  }
+
+  if (env.MAPBOX_API_KEY) {
+    try {
+      const data = await fetchUpstreamJson<MapBoxGeocodeResponse>(
+        `${baseUrl(env, 'MAPBOX')}/geocoding/v5/mapbox.places/${coordinates.longitude},${coordinates.latitude}.json?access_token=${env.MAPBOX_API_KEY}`,
+        {},
+        'MapBox'
+      );
+      if (data.features?.length) {
+        return parseMapBoxResponse(data.features[0], coordinates);
+      }
+    } catch (error) {
+      console.error('MapBox geocoding failed:', error);
+      failures.push(errorMessage(error));
+    }
+  }
+
+  if (failures.length === 0) {
+    throw noMatch('No address found for coordinates');
+  }
+  throw upstreamFailed(`Failed to get address from coordinates: ${failures.join('; ')}`);
+}
+
+// Forward geocoding: Google Maps first, MapBox as fallback
+export async function forwardGeocode(env: UpstreamEnv, address: string): Promise<GeolocationCoordinates> {
+  if (!env.GOOGLE_MAPS_API_KEY && !env.MAPBOX_API_KEY) {
+    throw notConfigured('No geocoding API keys configured');
+  }
+
+  const failures: string[] = [];
+
+  if (env.GOOGLE_MAPS_API_KEY) {
+    try {
+      const data = await fetchUpstreamJson<GoogleGeocodeResponse>(
+        `${baseUrl(env, 'GOOGLE_MAPS')}/maps/api/geocode/json?address=${encodeURIComponent(address)}&key=${env.GOOGLE_MAPS_API_KEY}`,
+        {},
+        'Google Maps'
+      );
+      if (data.status !== 'OK' && data.status !== 'ZERO_RESULTS') {
+        throw new Error(`Google Maps API error: ${data.status} - ${data.error_message || 'Unknown error'}`);
+      }
+      // No results isn't a failure; MapBox still gets a try
+      if (data.results?.length) {
+        return parseGoogleGeocodeLocation(data.results[0]);
+      }
+    } catch (error) {
+      console.error('Google Maps geocoding failed:', error);
+      failures.push(errorMessage(error));
+    }
+  }
+
+  if (env.MAPBOX_API_KEY) {
+    try {
+      const data = await fetchUpstreamJson<MapBoxGeocodeResponse>(
+        `${baseUrl(env, 'MAPBOX')}/geocoding/v5/mapbox.places/${encodeURIComponent(address)}.json?country=us&limit=1&access_token=${env.MAPBOX_API_KEY}`,
+        {},
+        'MapBox'
+      );
+      if (data.features?.length) {
+        return parseMapBoxLocation(data.features[0]);
+      }
+    } catch (error) {
+      console.error('MapBox geocoding failed:', error);
+      failures.push(errorMessage(error));
+    }
+  }
+
+  if (failures.length === 0) {
+    throw noMatch('No location found for address');
+  }
+  throw upstreamFailed(`Failed to geocode address: ${failures.join('; ')}`);
+}
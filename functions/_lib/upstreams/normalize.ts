@@ -0,0 +1,304 @@
+import type {
+  TaxData,
+  MarketData,
+  PermitData,
+  SaleData,
+  PricePoint,
+  PropertyComparable
+} from '@/types/publicData';
+import type { GeolocationAddress, GeolocationCoordinates } from '@/types/geolocation';
+
+// Provider response parsers. Each maps one vendor's payload onto the shapes
+// the frontend already renders, so the browser never sees raw vendor data.
+// Payloads come in as unknown and are only read through the helpers below,
+// so a field of the wrong type falls back to the default instead of leaking
+// through.
+
+type JsonRecord = Record<string, unknown>;
+
+function asRecord(value: unknown): JsonRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as JsonRecord : {};
+}
+
+function asList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// First element of a list of records, e.g. Attom's `property: [...]`
+function first(value: unknown): JsonRecord {
+  return asRecord(asList(value)[0]);
+}
+
+// Empty strings count as missing, so `||` falls through to the next field
+function readString(value: unknown): string | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function readNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function readDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+export function parseRealtyMoleData(data: unknown): TaxData {
+  const property = first(asRecord(data).properties);
+  return {
+    assessedValue: readNumber(property.assessedValue) || 0,
+    landValue: readNumber(property.landValue) || 0,
+    improvementValue: readNumber(property.improvementValue) || 0,
+    taxAmount: readNumber(property.taxAmount) || 0,
+    millRate: readNumber(property.millRate) || 0,
+    yearBuilt: readNumber(property.yearBuilt) || 0,
+    squareFootage: readNumber(property.squareFootage) || 0,
+    lotSize: readNumber(property.lotSize) || 0,
+    propertyType: readString(property.propertyType) || '',
+    bedrooms: readNumber(property.bedrooms) || 0,
+    bathrooms: readNumber(property.bathrooms) || 0,
+    stories: readNumber(property.stories) || 1,
+    heating: readString(property.heating) || '',
+    cooling: readString(property.cooling) || '',
+    exterior: readString(property.exterior) || '',
+    roof: readString(property.roof) || '',
+    lastAssessment: readDate(property.lastAssessment) ?? new Date(),
+    source: 'RealtyMole'
+  };
+}
+
+export function parseAttomData(data: unknown): TaxData {
+  const property = first(asRecord(data).property);
+  const assessment = asRecord(property.assessment);
+  const assessed = asRecord(assessment.assessed);
+  const tax = asRecord(assessment.tax);
+  const building = asRecord(property.building);
+  const construction = asRecord(building.construction);
+  const rooms = asRecord(building.rooms);
+
+  return {
+    assessedValue: readNumber(assessed.total) || 0,
+    landValue: readNumber(assessed.land) || 0,
+    improvementValue: readNumber(assessed.improvement) || 0,
+    taxAmount: readNumber(tax.taxAmt) || 0,
+    millRate: readNumber(tax.taxRate) || 0,
+    yearBuilt: readNumber(construction.yearBuilt) || 0,
+    squareFootage: readNumber(asRecord(building.size).livingSize) || 0,
+    lotSize: readNumber(asRecord(property.lot).lotSize1) || 0,
+    propertyType: readString(asRecord(property.summary).propType) || '',
+    bedrooms: readNumber(rooms.beds) || 0,
+    bathrooms: readNumber(rooms.bathsTotal) || 0,
+    stories: readNumber(construction.stories) || 1,
+    heating: readString(construction.heatingType) || '',
+    cooling: readString(construction.coolingType) || '',
+    exterior: readString(construction.wallType) || '',
+    roof: readString(construction.roofType) || '',
+    lastAssessment: readDate(assessed.assdDate) ?? new Date(),
+    source: 'Attom'
+  };
+}
+
+export function parseMarketData(rentData: unknown, valueData: unknown): MarketData {
+  const rent = asRecord(asRecord(rentData).estimate);
+  const value = first(asRecord(valueData).properties);
+
+  return {
+    estimatedValue: readNumber(value.price) || 0,
+    pricePerSqft: readNumber(value.pricePerSqft) || 0,
+    rentEstimate: readNumber(rent.monthlyRent) || 0,
+    rentPerSqft: readNumber(rent.rentPerSqft) || 0,
+    appreciation1Year: readNumber(value.appreciation1Year) || 0,
+    appreciation5Year: readNumber(value.appreciation5Year) || 0,
+    daysOnMarket: readNumber(value.daysOnMarket) || 0,
+    inventory: readNumber(value.inventory) || 0,
+    priceHistory: parsePriceHistory(value.priceHistory),
+    comparables: parseComparables(value.comparables)
+  };
+}
+
+// Points without a date or price can't be charted, so they're dropped
+function parsePriceHistory(history: unknown): PricePoint[] {
+  return asList(history).map(asRecord).flatMap(point => {
+    const date = readDate(point.date);
+    const price = readNumber(point.price);
+    return date && price !== undefined ? [{ date, price, event: readString(point.event) }] : [];
+  });
+}
+
+// Comps without a sale date can't be told apart or aged, so they're dropped
+function parseComparables(comps: unknown): PropertyComparable[] {
+  return asList(comps).map(asRecord).flatMap(comp => {
+    const saleDate = readDate(comp.saleDate);
+    if (!saleDate) return [];
+    return [{
+      address: readString(comp.address) || '',
+      distance: readNumber(comp.distance) ?? 0,
+      price: readNumber(comp.price) ?? 0,
+      pricePerSqft: readNumber(comp.pricePerSqft) ?? 0,
+      squareFootage: readNumber(comp.squareFootage) ?? 0,
+      bedrooms: readNumber(comp.bedrooms) ?? 0,
+      bathrooms: readNumber(comp.bathrooms) ?? 0,
+      yearBuilt: readNumber(comp.yearBuilt) ?? 0,
+      saleDate
+    }];
+  });
+}
+
+export function parsePermitData(data: unknown): PermitData[] {
+  return asList(data).map(asRecord).map(permit => ({
+    permitNumber: readString(permit.permitNumber) || readString(permit.id) || '',
+    type: readString(permit.type) || readString(permit.workType) || '',
+    description: readString(permit.description) || readString(permit.workDescription) || '',
+    value: readNumber(permit.value) || readNumber(permit.estimatedCost) || 0,
+    issueDate: readDate(permit.issueDate) ?? readDate(permit.dateIssued),
+    status: readString(permit.status) || 'Unknown',
+    contractor: readString(permit.contractor) || readString(permit.contractorName)
+  }));
+}
+
+// Attom's expanded sales history. Deeds without a price (quitclaims,
+// transfers to a trust) come back with a zero amount and are kept.
+export function parseAttomSalesHistory(data: unknown): SaleData[] {
+  const property = first(asRecord(data).property);
+  const size = asRecord(asRecord(property.building).size);
+  const sizeSqft = readNumber(size.livingSize) || readNumber(size.universalSize) || 0;
+  const history = asList(property.saleHistory ?? property.salehistory).map(asRecord);
+  const names = (...values: unknown[]) => values.map(readString).filter(Boolean).join(' & ');
+
+  // Sales without a readable date can't be placed in the history, so they're dropped
+  return history.flatMap(sale => {
+    const amount = asRecord(sale.amount);
+    const calculation = asRecord(sale.calculation);
+    const saleDate = readDate(sale.saleTransDate) ?? readDate(amount.saleRecDate) ?? readDate(amount.salerecdate);
+    if (!saleDate) return [];
+    const salePrice = readNumber(amount.saleAmt) ?? readNumber(amount.saleamt) ?? 0;
+    return [{
+      saleDate,
+      salePrice,
+      pricePerSqft: readNumber(calculation.pricePerSizeUnit) ?? readNumber(calculation.pricepersizeunit) ??
+        (sizeSqft && salePrice ? Math.round(salePrice / sizeSqft) : 0),
+      deedType: readString(amount.saleDocType) || readString(amount.saledoctype) ||
+        readString(amount.saleTransType) || readString(amount.saletranstype) || '',
+      buyer: readString(sale.buyerName) || names(sale.buyer1FullName, sale.buyer2FullName),
+      seller: readString(sale.sellerName) || names(sale.seller1FullName, sale.seller2FullName)
+    }];
+  });
+}
+
+export function parseGoogleMapsResponse(result: unknown, coordinates: GeolocationCoordinates): GeolocationAddress {
+  const record = asRecord(result);
+  if (!Array.isArray(record.address_components)) {
+    throw new Error('Invalid Google Maps response - no address components');
+  }
+
+  const components = record.address_components.map(asRecord);
+  
+  let street = '';
+  let city = '';
+  let state = '';
+  let zip = '';
+  
+  components.forEach(component => {
+    const types = asList(component.types);
+    const longName = readString(component.long_name) ?? '';
+    
+    if (types.includes('street_number')) {
+      street = longName + ' ';
+    } else if (types.includes('route')) {
+      street += longName;
+    } else if (types.includes('locality')) {
+      city = longName;
+    } else if (types.includes('administrative_area_level_1')) {
+      state = readString(component.short_name) ?? '';
+    } else if (types.includes('postal_code')) {
+      zip = longName;
+    }
+  });
+
+  // Validate we got the essential components
+  if (!street || !city || !state) {
+    throw new Error(`Incomplete address data: street=${street}, city=${city}, state=${state}`);
+  }
+  
+  return {
+    street: street.trim(),
+    city,
+    state,
+    zip,
+    formatted: readString(record.formatted_address) || `${street.trim()}, ${city}, ${state} ${zip}`.trim(),
+    coordinates
+  };
+}
+
+export function parseMapBoxResponse(feature: unknown, coordinates: GeolocationCoordinates): GeolocationAddress {
+  const record = asRecord(feature);
+  const context = asList(record.context).map(asRecord);
+  
+  let city = '';
+  let state = '';
+  let zip = '';
+  
+  context.forEach(item => {
+    const id = readString(item.id) ?? '';
+    const text = readString(item.text) ?? '';
+    if (id.startsWith('place')) {
+      city = text;
+    } else if (id.startsWith('region')) {
+      state = readString(item.short_code)?.replace('US-', '') || text;
+    } else if (id.startsWith('postcode')) {
+      zip = text;
+    }
+  });
+  
+  // Extract street from address
+  const text = readString(record.text) ?? '';
+  const number = readString(record.address);
+  const street = number ? `${number} ${text}` : text;
+  
+  return {
+    street,
+    city,
+    state,
+    zip,
+    formatted: readString(record.place_name) ?? '',
+    coordinates
+  };
+}
+
+// Rough accuracy radius (meters) for each Google geocode result precision
+const GOOGLE_LOCATION_ACCURACY: Record<string, number> = {
+  ROOFTOP: 10,
+  RANGE_INTERPOLATED: 50,
+  GEOMETRIC_CENTER: 250,
+  APPROXIMATE: 1000
+};
+
+export function parseGoogleGeocodeLocation(result: unknown): GeolocationCoordinates {
+  const geometry = asRecord(asRecord(result).geometry);
+  const location = asRecord(geometry.location);
+  if (typeof location.lat !== 'number' || typeof location.lng !== 'number') {
+    throw new Error('Invalid Google Maps response - no location');
+  }
+  return {
+    latitude: location.lat,
+    longitude: location.lng,
+    accuracy: GOOGLE_LOCATION_ACCURACY[readString(geometry.location_type) ?? ''] ?? 1000
+  };
+}
+
+export function parseMapBoxLocation(feature: unknown): GeolocationCoordinates {
+  const record = asRecord(feature);
+  const [longitude, latitude] = asList(record.center);
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') {
+    throw new Error('Invalid MapBox response - no center');
+  }
+  return {
+    latitude,
+    longitude,
+    // Address-level matches are interpolated along the street
+    accuracy: asList(record.place_type).includes('address') ? 50 : 1000
+  };
+}
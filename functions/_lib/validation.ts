@@ -0,0 +1,85 @@
+import type { Property } from '@/types';
+import { HttpError } from './http';
+
+// Structural checks for Property payloads. Deep fields are left to the
+// frontend types - this only guards what the API itself relies on.
+
+type ValidationErrors = string[];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDateLike(value: unknown): boolean {
+  if (typeof value !== 'string' && !(value instanceof Date)) return false;
+  return !isNaN(new Date(value).getTime());
+}
+
+// [latitude, longitude]
+export function isLatLng(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length === 2 &&
+    value.every(coordinate => typeof coordinate === 'number' && Number.isFinite(coordinate)) &&
+    Math.abs(value[0]) <= 90 && Math.abs(value[1]) <= 180;
+}
+
+function validateAddress(address: unknown, errors: ValidationErrors) {
+  if (!isObject(address)) {
+    errors.push('address must be an object');
+    return;
+  }
+  ['street', 'city', 'state', 'zip', 'formatted'].forEach(field => {
+    if (typeof address[field] !== 'string') {
+      errors.push(`address.${field} must be a string`);
+    }
+  });
+  if (typeof address.formatted === 'string' && !address.formatted.trim()) {
+    errors.push('address.formatted must not be empty');
+  }
+}
+
+export function validateProperty(value: unknown): ValidationErrors {
+  const errors: ValidationErrors = [];
+
+  if (!isObject(value)) {
+    return ['property must be an object'];
+  }
+
+  if (typeof value.id !== 'string' || !value.id.trim()) {
+    errors.push('id must be a non-empty string');
+  } else if (!/^[\w-]+$/.test(value.id)) {
+    errors.push('id may only contain letters, numbers, underscores and dashes');
+  }
+
+  validateAddress(value.address, errors);
+  if (value.geo !== undefined && !isLatLng(value.geo)) {
+    errors.push('geo must be [latitude, longitude]');
+  }
+
+  if (!isObject(value.overview)) errors.push('overview must be an object');
+  if (!isObject(value.operations)) errors.push('operations must be an object');
+  if (!isObject(value.intelligence)) errors.push('intelligence must be an object');
+
+  if (isObject(value.overview) && typeof value.overview.healthScore !== 'number') {
+    errors.push('overview.healthScore must be a number');
+  }
+  const operations = value.operations;
+  if (isObject(operations)) {
+    ['workOrders', 'tenants'].forEach(field => {
+      if (!Array.isArray(operations[field])) {
+        errors.push(`operations.${field} must be an array`);
+      }
+    });
+  }
+
+  if (!isDateLike(value.createdAt)) errors.push('createdAt must be an ISO date');
+  if (!isDateLike(value.updatedAt)) errors.push('updatedAt must be an ISO date');
+
+  return errors;
+}
+
+export function assertValidProperty(value: unknown): asserts value is Property {
+  const errors = validateProperty(value);
+  if (errors.length > 0) {
+    throw new HttpError(422, 'validation_error', 'Property failed validation', errors);
+  }
+}
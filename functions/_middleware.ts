@@ -1,5 +1,10 @@
+import type { Env } from './_lib/types';
+import { errorResponse, HttpError } from './_lib/http';
+import { authenticateRequest, type AuthData } from './_lib/auth';
+import { classifyRequest, enforceRateLimit, rateLimitHeaders } from './_lib/rateLimit';
+
 // Cloudflare Pages Functions middleware
-export async function onRequest(context: any) {
+const securityHeaders: PagesFunction<Env, string, AuthData> = async (context) => {
   // Add security headers
   const response = await context.next();
   
@@ -8,4 +13,53 @@ export async function onRequest(context: any) {
   response.headers.set('Referrer-Policy', 'strict-origin-when-cross-origin');
   
   return response;
-}
+};
+
+// Verify the bearer token on API routes and expose the caller to handlers
+// as context.data.user / context.data.organization
+const authentication: PagesFunction<Env, string, AuthData> = async (context) => {
+  if (!new URL(context.request.url).pathname.startsWith('/api/')) {
+    return context.next();
+  }
+
+  try {
+    const auth = await authenticateRequest(context.request, context.env);
+    context.data.user = auth.user;
+    context.data.organization = auth.organization;
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return errorResponse(error.status, error.code, error.message);
+    }
+    throw error;
+  }
+
+  return context.next();
+};
+
+// Per-client request budgets, keyed by the authenticated user. Successful
+// responses carry X-RateLimit-* headers; exhausted budgets get a 429.
+const rateLimiting: PagesFunction<Env, string, AuthData> = async (context) => {
+  const { request, env, data } = context;
+  const url = new URL(request.url);
+  if (!url.pathname.startsWith('/api/')) {
+    return context.next();
+  }
+
+  let result;
+  try {
+    result = await enforceRateLimit(request, env, data, classifyRequest(request.method, url.pathname));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return errorResponse(error.status, error.code, error.message, error.details, error.headers);
+    }
+    throw error;
+  }
+
+  const response = await context.next();
+  if (result) {
+    Object.entries(rateLimitHeaders(result)).forEach(([name, value]) => response.headers.set(name, value));
+  }
+  return response;
+};
+
+export const onRequest = [securityHeaders, authentication, rateLimiting];
@@ -0,0 +1,112 @@
+import type { CommandResponse, TabType } from '@/types';
+import { CommandProcessor } from '@/services/CommandProcessor';
+import type { Env } from '../_lib/types';
+import { HttpError, jsonResponse, readJsonBody, withErrorHandling } from '../_lib/http';
+import { KVPropertyRepository } from '../_lib/PropertyRepository';
+import { requirePermission, type AuthData } from '../_lib/auth';
+import { isLatLng } from '../_lib/validation';
+import { enforceRateLimit } from '../_lib/rateLimit';
+import type { Permission } from '@/utils/permissions';
+import type { ProcessedCommand } from '@/services/CommandProcessor';
+
+interface CommandRequest {
+  input: string;
+  context?: {
+    propertyId?: string;
+    activeTab?: TabType;
+    // [latitude, longitude] for distance searches
+    location?: [number, number];
+  };
+}
+
+const TABS: TabType[] = ['overview', 'operations', 'intelligence'];
+
+function parseCommandRequest(body: unknown): CommandRequest {
+  const request = body as Partial<CommandRequest> | null;
+  const errors: string[] = [];
+
+  if (typeof request?.input !== 'string' || !request.input.trim()) {
+    errors.push('input must be a non-empty string');
+  }
+
+  const context = request?.context;
+  if (context !== undefined && (typeof context !== 'object' || context === null)) {
+    errors.push('context must be an object');
+  } else if (context) {
+    if (context.propertyId !== undefined && typeof context.propertyId !== 'string') {
+      errors.push('context.propertyId must be a string');
+    }
+    if (context.activeTab !== undefined && !TABS.includes(context.activeTab)) {
+      errors.push(`context.activeTab must be one of ${TABS.join(', ')}`);
+    }
+    if (context.location !== undefined && !isLatLng(context.location)) {
+      errors.push('context.location must be [latitude, longitude]');
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new HttpError(422, 'validation_error', 'Invalid command request', errors);
+  }
+  return request as CommandRequest;
+}
+
+// Commands that persist changes need the matching write permission on top
+// of command:execute
+function permissionForCommand(command: ProcessedCommand, propertyId?: string): Permission | null {
+  if (command.type === 'address') return 'property:create';
+  if (command.type === 'search' && command.data?.nearby) return 'property:read';
+  if (command.type === 'maintenance' && propertyId && command.data?.action === 'create_work_order') {
+    return 'workOrder:write';
+  }
+  return null;
+}
+
+// POST /api/command - run the command bar pipeline (processInput + executeCommand)
+// against KV, returning the same CommandResponse the UI works with plus any
+// property changes the command persisted
+export const onRequestPost = withErrorHandling<Env, string, AuthData>(async ({ request, env, data }) => {
+  requirePermission(data, 'command:execute');
+  const { input, context = {} } = parseCommandRequest(await readJsonBody<unknown>(request));
+  const activeTab = context.activeTab ?? 'overview';
+  const repository = new KVPropertyRepository(env.PROPERTIES, data.organization.id);
+
+  if (context.propertyId && !await repository.get(context.propertyId)) {
+    throw new HttpError(404, 'not_found', `Property ${context.propertyId} not found`);
+  }
+
+  const processor = CommandProcessor.getInstance();
+  const command = await processor.processInput(input, { activeTab });
+
+  const permission = permissionForCommand(command, context.propertyId);
+  if (permission) {
+    requirePermission(data, permission);
+  }
+  if (command.type === 'address') {
+    await enforceRateLimit(request, env, data, 'lookup');
+  }
+
+  const result = await processor.executeCommand(command, {
+    propertyId: context.propertyId,
+    activeTab,
+    repository,
+    location: context.location,
+    // Only distance searches read the whole portfolio
+    properties: command.type === 'search' && command.data?.nearby && context.location
+      ? await repository.list()
+      : undefined
+  });
+
+  const response: CommandResponse = {
+    type: result.success ? 'success' : 'error',
+    message: result.message,
+    data: {
+      ...result.data,
+      command: {
+        type: command.type,
+        confidence: command.confidence
+      }
+    },
+    changes: result.changes ?? []
+  };
+  return jsonResponse(response);
+});
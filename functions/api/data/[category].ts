@@ -0,0 +1,47 @@
+import type { Env } from '../../_lib/types';
+import { HttpError, jsonResponse, withErrorHandling } from '../../_lib/http';
+import {
+  getTaxAssessment,
+  getMarketData,
+  getWalkScore,
+  getBuildingPermits,
+  getSalesHistory,
+  type UpstreamEnv
+} from '../../_lib/upstreams';
+import { requirePermission, type AuthData } from '../../_lib/auth';
+import { cachedLookup } from '../../_lib/dataCache';
+import type { DataCategory } from '@/services/providers/types';
+
+// Keyed public-data lookups the browser can't make itself without our API keys
+const CATEGORY_HANDLERS: Partial<Record<DataCategory, (env: UpstreamEnv, address: string) => Promise<unknown>>> = {
+  tax: getTaxAssessment,
+  market: getMarketData,
+  walkscore: getWalkScore,
+  permits: getBuildingPermits,
+  sales: getSalesHistory
+};
+
+// GET /api/data/:category?address=...[&refresh=true] - proxy to the configured
+// providers and return normalized results, cached in DATA_CACHE per category TTL
+export const onRequestGet = withErrorHandling<Env, 'category', AuthData>(async ({ request, env, params, data, waitUntil }) => {
+  requirePermission(data, 'data:lookup');
+  const category = params.category as DataCategory;
+  const handler = Object.hasOwn(CATEGORY_HANDLERS, category) ? CATEGORY_HANDLERS[category] : undefined;
+  if (!handler) {
+    throw new HttpError(404, 'not_found', `Unknown data category: ${category}`);
+  }
+
+  const url = new URL(request.url);
+  const address = url.searchParams.get('address')?.trim();
+  if (!address) {
+    throw new HttpError(422, 'validation_error', 'address query parameter is required');
+  }
+
+  const forceRefresh = url.searchParams.get('refresh') === 'true';
+  const result = await cachedLookup(env, waitUntil, category, address, () => handler(env, address), forceRefresh);
+  return jsonResponse(
+    { success: true, category, data: result.data, cache: { status: result.status, fetchedAt: result.fetchedAt } },
+    200,
+    { 'X-Cache': result.status.toUpperCase() }
+  );
+});
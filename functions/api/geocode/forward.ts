@@ -0,0 +1,16 @@
+import type { Env } from '../../_lib/types';
+import { HttpError, jsonResponse, withErrorHandling } from '../../_lib/http';
+import { forwardGeocode } from '../../_lib/upstreams';
+import { requirePermission, type AuthData } from '../../_lib/auth';
+
+// GET /api/geocode/forward?address=..
+export const onRequestGet = withErrorHandling<Env, string, AuthData>(async ({ request, env, data }) => {
+  requirePermission(data, 'data:lookup');
+  const address = new URL(request.url).searchParams.get('address')?.trim();
+  if (!address) {
+    throw new HttpError(422, 'validation_error', 'address query parameter is required');
+  }
+
+  const coordinates = await forwardGeocode(env, address);
+  return jsonResponse({ success: true, coordinates });
+});
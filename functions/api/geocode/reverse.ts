@@ -0,0 +1,26 @@
+import type { Env } from '../../_lib/types';
+import { HttpError, jsonResponse, withErrorHandling } from '../../_lib/http';
+import { reverseGeocode } from '../../_lib/upstreams';
+import { requirePermission, type AuthData } from '../../_lib/auth';
+
+function parseCoordinate(value: string | null, name: string, limit: number): number {
+  const parsed = value === null ? NaN : Number(value);
+  if (!Number.isFinite(parsed) || Math.abs(parsed) > limit) {
+    throw new HttpError(422, 'validation_error', `${name} must be a number between -${limit} and ${limit}`);
+  }
+  return parsed;
+}
+
+// GET /api/geocode/reverse?lat=..&lng=..&accuracy=..
+export const onRequestGet = withErrorHandling<Env, string, AuthData>(async ({ request, env, data }) => {
+  requirePermission(data, 'data:lookup');
+  const params = new URL(request.url).searchParams;
+  const coordinates = {
+    latitude: parseCoordinate(params.get('lat'), 'lat', 90),
+    longitude: parseCoordinate(params.get('lng'), 'lng', 180),
+    accuracy: Number(params.get('accuracy')) || 0
+  };
+
+  const address = await reverseGeocode(env, coordinates);
+  return jsonResponse({ success: true, address });
+});
@@ -0,0 +1,117 @@
+import type { Property } from '@/types';
+import type { Env } from '../../_lib/types';
+import { HttpError, jsonResponse, readJsonBody, withErrorHandling } from '../../_lib/http';
+import { assertValidProperty } from '../../_lib/validation';
+import { KVPropertyRepository } from '../../_lib/PropertyRepository';
+import { requirePermission, type AuthData } from '../../_lib/auth';
+
+async function findOrThrow(repository: KVPropertyRepository, id: string): Promise<Property> {
+  const property = await repository.get(id);
+  if (!property) {
+    throw new HttpError(404, 'not_found', `Property ${id} not found`);
+  }
+  return property;
+}
+
+function assertObjectBody(body: unknown): asserts body is Record<string, unknown> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(422, 'validation_error', 'Request body must be a JSON object');
+  }
+}
+
+// Work orders have their own permission so roles can be split later
+// (e.g. vendors who may update work orders but nothing else)
+function requireWorkOrderPermissionIfChanged(data: AuthData, before: Property, after: Partial<Property>) {
+  const beforeWorkOrders = JSON.stringify(before.operations?.workOrders ?? []);
+  const afterWorkOrders = JSON.stringify(after.operations?.workOrders ?? []);
+  if (after.operations !== undefined && beforeWorkOrders !== afterWorkOrders) {
+    requirePermission(data, 'workOrder:write');
+  }
+}
+
+// Optimistic concurrency: a write carrying If-Match with a stale revision is
+// rejected with the current record, so offline clients can merge and retry
+function assertRevisionMatches(request: Request, existing: Property) {
+  const ifMatch = request.headers.get('If-Match');
+  if (ifMatch === null || ifMatch.trim() === '*') return;
+
+  const expected = Number(ifMatch.replace(/^W\//, '').replace(/"/g, '').trim());
+  if (!Number.isInteger(expected)) {
+    throw new HttpError(400, 'invalid_revision', 'If-Match must be a revision number');
+  }
+  const current = existing.revision ?? 0;
+  if (expected !== current) {
+    throw new HttpError(
+      409,
+      'revision_conflict',
+      `Property ${existing.id} is at revision ${current}, not ${expected}`,
+      { property: existing }
+    );
+  }
+}
+
+// GET /api/property/:id
+export const onRequestGet = withErrorHandling<Env, 'id', AuthData>(async ({ env, params, data }) => {
+  requirePermission(data, 'property:read');
+  const repository = new KVPropertyRepository(env.PROPERTIES, data.organization.id);
+  const property = await findOrThrow(repository, params.id as string);
+  return jsonResponse({ success: true, property });
+});
+
+// PUT /api/property/:id - replace the whole record
+export const onRequestPut = withErrorHandling<Env, 'id', AuthData>(async ({ request, env, params, data }) => {
+  requirePermission(data, 'property:update');
+  const id = params.id as string;
+  const repository = new KVPropertyRepository(env.PROPERTIES, data.organization.id);
+  const existing = await findOrThrow(repository, id);
+  const body = await readJsonBody<unknown>(request);
+  assertObjectBody(body);
+  assertRevisionMatches(request, existing);
+
+  requireWorkOrderPermissionIfChanged(data, existing, body as Partial<Property>);
+
+  const property = {
+    ...body,
+    id,
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString()
+  };
+  assertValidProperty(property);
+
+  return jsonResponse({ success: true, property: await repository.save(property) });
+});
+
+// PATCH /api/property/:id - shallow merge, same semantics as the store's updateProperty
+export const onRequestPatch = withErrorHandling<Env, 'id', AuthData>(async ({ request, env, params, data }) => {
+  requirePermission(data, 'property:update');
+  const id = params.id as string;
+  const repository = new KVPropertyRepository(env.PROPERTIES, data.organization.id);
+  const existing = await findOrThrow(repository, id);
+  const updates = await readJsonBody<unknown>(request);
+  assertObjectBody(updates);
+  assertRevisionMatches(request, existing);
+
+  requireWorkOrderPermissionIfChanged(data, existing, updates as Partial<Property>);
+
+  const property = {
+    ...existing,
+    ...updates,
+    id,
+    createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString()
+  };
+  assertValidProperty(property);
+
+  return jsonResponse({ success: true, property: await repository.save(property) });
+});
+
+// DELETE /api/property/:id
+export const onRequestDelete = withErrorHandling<Env, 'id', AuthData>(async ({ env, params, data }) => {
+  requirePermission(data, 'property:delete');
+  const id = params.id as string;
+  const repository = new KVPropertyRepository(env.PROPERTIES, data.organization.id);
+  if (!await repository.delete(id)) {
+    throw new HttpError(404, 'not_found', `Property ${id} not found`);
+  }
+  return jsonResponse({ success: true, id });
+});
@@ -0,0 +1,56 @@
+import type { Property } from '@/types';
+import { RealPropertyDataService } from '@/services/RealPropertyData';
+import type { Env } from '../../_lib/types';
+import { HttpError, jsonResponse, readJsonBody, withErrorHandling } from '../../_lib/http';
+import { assertValidProperty } from '../../_lib/validation';
+import { KVPropertyRepository } from '../../_lib/PropertyRepository';
+import { requirePermission, type AuthData } from '../../_lib/auth';
+import { enforceRateLimit } from '../../_lib/rateLimit';
+
+interface CreateFromAddressRequest {
+  address: string;
+  source?: string;
+}
+
+function isCreateFromAddress(body: unknown): body is CreateFromAddressRequest {
+  return typeof body === 'object' && body !== null && typeof (body as CreateFromAddressRequest).address === 'string';
+}
+
+// GET /api/property - list every stored property
+export const onRequestGet = withErrorHandling<Env, string, AuthData>(async ({ env, data }) => {
+  requirePermission(data, 'property:read');
+  const repository = new KVPropertyRepository(env.PROPERTIES, data.organization.id);
+  const properties = await repository.list();
+  return jsonResponse({ success: true, properties });
+});
+
+// POST /api/property - create from an address ({ address, source }) or store
+// a full Property built on the client
+export const onRequestPost = withErrorHandling<Env, string, AuthData>(async ({ request, env, data }) => {
+  requirePermission(data, 'property:create');
+  const startedAt = Date.now();
+  const repository = new KVPropertyRepository(env.PROPERTIES, data.organization.id);
+  const body = await readJsonBody<unknown>(request);
+
+  let property: Property;
+  if (isCreateFromAddress(body)) {
+    if (!body.address.trim()) {
+      throw new HttpError(422, 'validation_error', 'address must not be empty');
+    }
+    await enforceRateLimit(request, env, data, 'lookup');
+    property = await RealPropertyDataService.getInstance().createPropertyFromInput({ address: body.address.trim() });
+  } else {
+    assertValidProperty(body);
+    property = body;
+  }
+
+  if (await repository.get(property.id)) {
+    throw new HttpError(409, 'conflict', `Property ${property.id} already exists`);
+  }
+
+  return jsonResponse({
+    success: true,
+    property: await repository.save(property),
+    processingTime: Date.now() - startedAt
+  }, 201);
+});
@@ -1,8 +1,15 @@
+import { useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { usePropertyStore } from './store/propertyStore';
+import { SyncEngine } from './services/SyncEngine';
+import { isApiBackendEnabled } from './services/PropertyApiClient';
+import { PublicDataRefresher } from './services/PublicDataRefresher';
 import Layout from './components/Layout';
 import PropertyView from './components/PropertyView';
 import PropertyInputForm from './components/PropertyInputForm';
+import PropertyImportWizard from './components/PropertyImportWizard';
+import PortfolioBackup from './components/PortfolioBackup';
 import Home from './components/Home';
 
 const queryClient = new QueryClient({
@@ -15,6 +22,20 @@ const queryClient = new QueryClient({
 });
 
 function App() {
+  const { hasHydrated, loadProperties } = usePropertyStore();
+
+  // Pull the server copy once the local cache has been restored, so the
+  // IndexedDB rehydration can't overwrite fresher API data. Changes queued
+  // offline are pushed first so the fetch already includes them. Public
+  // records are re-checked once the portfolio is current.
+  useEffect(() => {
+    if (!hasHydrated) return;
+    const loaded = isApiBackendEnabled()
+      ? SyncEngine.getInstance().start().finally(() => loadProperties())
+      : loadProperties();
+    loaded.finally(() => PublicDataRefresher.getInstance().start());
+  }, [hasHydrated, loadProperties]);
+
   return (
     <QueryClientProvider client={queryClient}>
       <Router>
@@ -22,6 +43,8 @@ function App() {
           <Routes>
             <Route path="/" element={<Layout><Home /></Layout>} />
             <Route path="/add-property" element={<Layout><PropertyInputForm /></Layout>} />
+            <Route path="/import" element={<Layout><PropertyImportWizard /></Layout>} />
+            <Route path="/backup" element={<Layout><PortfolioBackup /></Layout>} />
             <Route path="/property/:id" element={<Layout><PropertyView /></Layout>} />
           </Routes>
         </div>
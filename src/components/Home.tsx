@@ -2,12 +2,14 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
 import { usePropertyStore } from '@/store/propertyStore';
+import { useSessionStore } from '@/store/sessionStore';
 import type { Property } from '@/types';
 
 export default function Home() {
   const navigate = useNavigate();
   const { getPropertiesList } = usePropertyStore();
   const properties = getPropertiesList();
+  const canCreate = useSessionStore((state) => state.can('property:create'));
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary-50 to-blue-50">
@@ -20,11 +22,27 @@ export default function Home() {
         >
           <h1 className="text-2xl font-bold text-gray-900 mb-2">PropertyOS</h1>
           <p className="text-gray-600">Type an address or add your property data</p>
+          {canCreate && (
+            <div className="mt-4 flex justify-center gap-3">
+              <button
+                onClick={() => navigate('/add-property')}
+                className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Add Real Property Data
+              </button>
+              <button
+                onClick={() => navigate('/import')}
+                className="bg-white text-blue-600 border border-blue-600 px-6 py-2 rounded-lg hover:bg-blue-50 transition-colors"
+              >
+                Import CSV / Excel
+              </button>
+            </div>
+          )}
           <button
-            onClick={() => navigate('/add-property')}
-            className="mt-4 bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            onClick={() => navigate('/backup')}
+            className="mt-3 block mx-auto text-sm text-blue-600 hover:underline"
           >
-            Add Real Property Data
+            Export / Restore Portfolio
           </button>
         </motion.div>
       </div>
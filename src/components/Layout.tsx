@@ -1,5 +1,6 @@
 import { ReactNode } from 'react';
 import UniversalCommandBar from './UniversalCommandBar';
+import SyncStatusIndicator from './SyncStatusIndicator';
 
 interface LayoutProps {
   children: ReactNode;
@@ -8,6 +9,8 @@ interface LayoutProps {
 export default function Layout({ children }: LayoutProps) {
   return (
     <div className="min-h-screen bg-gray-50 pb-20">
+      <SyncStatusIndicator />
+
       {/* Main content area */}
       <main className="flex-1">
         {children}
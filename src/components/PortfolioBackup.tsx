@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { usePropertyStore } from '@/store/propertyStore';
+import { useSessionStore } from '@/store/sessionStore';
+import {
+  CSV_ENTITIES,
+  PortfolioBackupService,
+  type ParsedBackup,
+  type RestoreMode,
+  type RestoreSummary
+} from '@/services/PortfolioBackupService';
+import { PROPERTY_SCHEMA_VERSION } from '@/store/migrations';
+import { downloadFile } from '@/utils/download';
+
+function dateStamp(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export default function PortfolioBackup() {
+  const { properties, getPropertyById } = usePropertyStore();
+  const canRestore = useSessionStore((state) => state.can('property:create') && state.can('property:update'));
+  const backupService = PortfolioBackupService.getInstance();
+
+  const [backup, setBackup] = useState<ParsedBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [summary, setSummary] = useState<RestoreSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleBackupDownload = () => {
+    downloadFile(`property-os-backup-${dateStamp()}.json`, backupService.createBackup(properties), 'application/json');
+  };
+
+  const handleCsvDownload = (entity: (typeof CSV_ENTITIES)[number]) => {
+    downloadFile(
+      `${dateStamp()}-${entity.fileName}`,
+      backupService.exportCsv(properties, entity.entity),
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setSummary(null);
+    try {
+      setBackup(backupService.parseBackup(await file.text()));
+    } catch (err) {
+      setBackup(null);
+      setError(err instanceof Error ? err.message : 'Could not read backup');
+    }
+  };
+
+  const handleRestore = () => {
+    if (!backup) return;
+    setSummary(backupService.restore(backup.properties, mode));
+    setBackup(null);
+  };
+
+  const existingCount = backup?.properties.filter(property => getPropertyById(property.id)).length ?? 0;
+
+  return (
+    <div className="max-w-2xl mx-auto p-6 bg-white space-y-8">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Export & Restore</h1>
+        <p className="text-gray-600">{properties.length} properties in your portfolio</p>
+      </div>
+
+      {/* JSON backup */}
+      <section>
+        <h2 className="text-lg font-semibold text-gray-900 mb-2">💾 Full Backup</h2>
+        <p className="text-sm text-gray-600 mb-3">
+          Every property with all of its data, as a JSON file you can restore later.
+        </p>
+        <button
+          onClick={handleBackupDownload}
+          className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Download Backup
+        </button>
+      </section>
+
+      {/* CSV exports */}
+      <section>
+        <h2 className="text-lg font-semibold text-gray-900 mb-2">📊 Spreadsheets</h2>
+        <p className="text-sm text-gray-600 mb-3">One CSV per record type, linked by property id.</p>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {CSV_ENTITIES.map(entity => (
+            <button
+              key={entity.entity}
+              onClick={() => handleCsvDownload(entity)}
+              className="border border-gray-300 rounded-lg px-4 py-2 text-sm hover:bg-gray-50"
+            >
+              {entity.label}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      {/* Restore */}
+      {canRestore && (
+        <section>
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">♻️ Restore</h2>
+          <input type="file" accept=".json,application/json" onChange={handleFile} className="text-sm" />
+
+          {error && <div className="mt-3 bg-red-50 text-red-700 rounded-lg p-3 text-sm">{error}</div>}
+
+          {backup && (
+            <div className="mt-4 bg-gray-50 rounded-lg p-4 space-y-3">
+              <div className="text-sm text-gray-700">
+                <div>{backup.properties.length} properties · {existingCount} already in your portfolio</div>
+                {backup.exportedAt && <div>Exported {backup.exportedAt.toLocaleString()}</div>}
+                {backup.schemaVersion < PROPERTY_SCHEMA_VERSION && (
+                  <div className="text-blue-700">
+                    Made with schema v{backup.schemaVersion} - upgraded to v{PROPERTY_SCHEMA_VERSION}
+                  </div>
+                )}
+              </div>
+              <div className="space-y-1 text-sm">
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                  Merge - add new properties and overwrite matching ones
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                  Replace - also remove properties that aren't in the backup
+                </label>
+              </div>
+              <button
+                onClick={handleRestore}
+                className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Restore {backup.properties.length} Properties
+              </button>
+            </div>
+          )}
+
+          {summary && (
+            <div className="mt-3 bg-green-50 text-green-800 rounded-lg p-3 text-sm">
+              Restored: {summary.added} added, {summary.updated} updated, {summary.removed} removed
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
@@ -2,8 +2,93 @@ import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
 import { usePropertyStore } from '@/store/propertyStore';
-import { PublicDataScraper, PublicPropertyData } from '@/services/PublicDataScraper';
+import { PublicDataScraper, PublicPropertyData, type CrimeData, type DataSource, type PublicDataField } from '@/services/PublicDataScraper';
 import { RealPropertyDataService } from '@/services/RealPropertyData';
+import { PublicDataCache, type CacheStats } from '@/services/PublicDataCache';
+import { FieldReconciler } from '@/services/FieldReconciler';
+import { GeolocationService } from '@/services/GeolocationService';
+import type { FieldCandidate, FieldValue, ReconciledField } from '@/types/reconciliation';
+import type { ViolationStatus } from '@/types/publicData';
+import { formatAge } from '@/utils/format';
+import { describeFloodZone } from '@/utils/floodZone';
+import { publicDataAlerts, publicDataWorkOrders } from '@/utils/publicDataAlerts';
+import { latestSale } from '@/utils/salesHistory';
+import { toLatLng } from '@/utils/geo';
+
+const TREND_ICONS: Record<CrimeData['trend'], string> = {
+  increasing: '↑',
+  decreasing: '↓',
+  stable: '→'
+};
+
+// Rates need census population; without it fall back to the raw count
+function describeCrime(crime: CrimeData): string {
+  const { incidents } = crime;
+  if (incidents && !incidents.population) {
+    return `${incidents.total} incidents/yr within ${incidents.radiusMiles} mi ${TREND_ICONS[crime.trend]}`;
+  }
+  return `${crime.crimeRate} per 1,000 residents ${TREND_ICONS[crime.trend]}`;
+}
+
+const SOURCE_LABELS: Record<PublicDataField, string> = {
+  taxAssessment: 'Tax Assessment',
+  marketData: 'Market Data',
+  permits: 'Permits',
+  violations: 'Violations',
+  sales: 'Sales History',
+  demographics: 'Demographics',
+  schools: 'Schools',
+  crime: 'Crime',
+  walkScore: 'Walk Score',
+  floodZone: 'Flood Zone',
+  zoning: 'Zoning'
+};
+
+const FIELD_LABELS: Record<ReconciledField, string> = {
+  currentValue: 'Current Value',
+  purchasePrice: 'Purchase Price',
+  purchaseDate: 'Purchase Date',
+  yearBuilt: 'Year Built',
+  squareFootage: 'Square Footage',
+  lotSize: 'Lot Size',
+  bedrooms: 'Bedrooms',
+  bathrooms: 'Bathrooms',
+  propertyType: 'Property Type',
+  monthlyRent: 'Monthly Rent'
+};
+
+const CURRENCY_FIELDS: ReconciledField[] = ['currentValue', 'purchasePrice', 'monthlyRent'];
+
+function formatFieldValue(field: ReconciledField, value: FieldValue): string {
+  if (value instanceof Date) return value.toLocaleDateString();
+  if (typeof value === 'number') {
+    return CURRENCY_FIELDS.includes(field) ? `$${value.toLocaleString()}` : value.toLocaleString();
+  }
+  return value;
+}
+
+// What the owner typed in when none of the sources is right
+function parseOwnerValue(field: ReconciledField, input: string): FieldValue | null {
+  const value: FieldValue = field === 'purchaseDate' ? new Date(input)
+    : field === 'propertyType' ? input.trim()
+    : parseFloat(input.replace(/[$,]/g, ''));
+  if (value instanceof Date ? isNaN(value.getTime()) : typeof value === 'number' ? !(value > 0) : !value) return null;
+  return value;
+}
+
+const candidateKey = (candidate: FieldCandidate) => `${candidate.kind}:${candidate.source}`;
+
+const VIOLATION_STATUS_LABELS: Record<ViolationStatus, string> = {
+  open: 'Open',
+  closed: 'Closed',
+  unknown: 'Status unknown'
+};
+
+const SOURCE_ICONS: Record<DataSource['status'], string> = {
+  ok: '✅',
+  failed: '❌',
+  unavailable: '➖'
+};
 
 interface PropertyDataPreviewProps {
   address: string;
@@ -16,17 +101,34 @@ export default function PropertyDataPreview({ address, onClose }: PropertyDataPr
   const [publicData, setPublicData] = useState<PublicPropertyData | null>(null);
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+  // Conflicting facts the user settled by picking a source
+  const [choices, setChoices] = useState<Partial<Record<ReconciledField, FieldCandidate>>>({});
+  // Values the user typed in, which join the candidates as the owner's
+  const [entered, setEntered] = useState<Partial<Record<ReconciledField, FieldValue>>>({});
 
   useEffect(() => {
+    setChoices({});
+    setEntered({});
     loadPublicData();
   }, [address]);
 
-  const loadPublicData = async () => {
+  const loadPublicData = async (forceRefresh = false) => {
     try {
-      setLoading(true);
+      if (forceRefresh) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+      }
       const scraper = PublicDataScraper.getInstance();
-      const data = await scraper.scrapePropertyData(address);
+      const data = await scraper.scrapePropertyData(address, {
+        forceRefresh,
+        // Stale cached data is shown right away and swapped out once refetched
+        onRevalidated: setPublicData
+      });
       setPublicData(data);
+      setCacheStats(await PublicDataCache.getInstance().getStats());
     } catch (error) {
       console.error('Error loading public data:', error);
       // Show error to user instead of hiding it
@@ -34,6 +136,7 @@ export default function PropertyDataPreview({ address, onClose }: PropertyDataPr
       setPublicData(null);
     } finally {
       setLoading(false);
+      setRefreshing(false);
     }
   };
 
@@ -44,22 +147,38 @@ export default function PropertyDataPreview({ address, onClose }: PropertyDataPr
     try {
       const realPropertyService = RealPropertyDataService.getInstance();
       
-      // Pre-populate form data from scraped public data
+      // Pre-populate form data with the reconciled facts
+      const reconciler = FieldReconciler.getInstance();
+      const resolutions = reconciler.reconcile(reconciler.collectCandidates(publicData, entered), choices);
+      const resolved = <T extends FieldValue>(field: ReconciledField) => resolutions[field]?.chosen.value as T | undefined;
+      // Usually already geocoded for the location-based providers during the scrape
+      const geo = await GeolocationService.getInstance().geocode(publicData.address)
+        .then(toLatLng)
+        .catch(() => undefined);
       const propertyInput = {
         address: publicData.address,
-        currentValue: publicData.taxAssessment?.assessedValue,
-        yearBuilt: publicData.taxAssessment?.yearBuilt,
-        squareFootage: publicData.taxAssessment?.squareFootage,
-        bedrooms: publicData.taxAssessment?.bedrooms,
-        bathrooms: publicData.taxAssessment?.bathrooms,
-        propertyType: publicData.taxAssessment?.propertyType?.toLowerCase().replace(' ', '_'),
-        monthlyRent: publicData.marketData?.rentEstimate,
+        geo,
+        purchasePrice: resolved<number>('purchasePrice'),
+        purchaseDate: resolved<Date>('purchaseDate'),
+        currentValue: resolved<number>('currentValue'),
+        yearBuilt: resolved<number>('yearBuilt'),
+        squareFootage: resolved<number>('squareFootage'),
+        bedrooms: resolved<number>('bedrooms'),
+        bathrooms: resolved<number>('bathrooms'),
+        propertyType: resolved<string>('propertyType')?.toLowerCase().replace(/\s+/g, '_'),
+        monthlyRent: resolved<number>('monthlyRent'),
       };
 
       const property = await realPropertyService.createPropertyFromInput(propertyInput);
       
       // Add the scraped public data to the property
       property.publicData = publicData;
+      property.fieldSources = reconciler.toFieldSources(resolutions);
+      if (property.purchase && resolutions.purchasePrice?.chosen.kind !== 'user') {
+        property.purchase = { ...property.purchase, source: 'public-records' };
+      }
+      property.overview.alerts.push(...publicDataAlerts(property.id, publicData));
+      property.operations.workOrders.push(...publicDataWorkOrders(property.id, publicData));
       
       addProperty(property);
       setActiveProperty(property);
@@ -104,6 +223,25 @@ export default function PropertyDataPreview({ address, onClose }: PropertyDataPr
     );
   }
 
+  const lastSale = latestSale(publicData.sales ?? []);
+  const reconciler = FieldReconciler.getInstance();
+  const conflicts = Object.values(reconciler.reconcile(reconciler.collectCandidates(publicData, entered), choices))
+    .filter(resolution => resolution.conflict);
+  const choose = (field: ReconciledField, candidate: FieldCandidate | null) => {
+    setChoices(current => {
+      const { [field]: _previous, ...rest } = current;
+      return candidate ? { ...rest, [field]: candidate } : rest;
+    });
+  };
+  // Owner input outranks the sources, so typing a value also drops a picked one
+  const enter = (field: ReconciledField, value: FieldValue | null) => {
+    setEntered(current => {
+      const { [field]: _previous, ...rest } = current;
+      return value === null ? rest : { ...rest, [field]: value };
+    });
+    choose(field, null);
+  };
+
   const dataPoints = [
     publicData.taxAssessment && { label: 'Tax Assessment', value: `$${publicData.taxAssessment.assessedValue.toLocaleString()}` },
     publicData.marketData && { label: 'Market Value', value: `$${publicData.marketData.estimatedValue.toLocaleString()}` },
@@ -112,11 +250,24 @@ export default function PropertyDataPreview({ address, onClose }: PropertyDataPr
     publicData.taxAssessment && { label: 'Bedrooms/Bathrooms', value: `${publicData.taxAssessment.bedrooms}/${publicData.taxAssessment.bathrooms}` },
     publicData.marketData && { label: 'Rent Estimate', value: `$${publicData.marketData.rentEstimate.toLocaleString()}/month` },
     publicData.permits && publicData.permits.length > 0 && { label: 'Permits', value: `${publicData.permits.length} found` },
-    publicData.sales && publicData.sales.length > 0 && { label: 'Sales History', value: `${publicData.sales.length} sales` },
+    publicData.violations && publicData.violations.length > 0 && {
+      label: 'Code Violations',
+      value: `${publicData.violations.filter(violation => violation.status === 'open').length} open of ${publicData.violations.length}`
+    },
+    lastSale && { label: 'Last Sale', value: `$${lastSale.salePrice.toLocaleString()} (${lastSale.saleDate.getFullYear()})` },
     publicData.walkScore && { label: 'Walk Score', value: publicData.walkScore.toString() },
     publicData.schools && publicData.schools.length > 0 && { label: 'Schools', value: `${publicData.schools.length} nearby` },
-    publicData.floodZone && { label: 'Flood Zone', value: publicData.floodZone },
-    publicData.zoning && { label: 'Zoning', value: publicData.zoning }
+    publicData.demographics && publicData.demographics.medianIncome > 0 && {
+      label: 'Area Median Income',
+      value: `$${publicData.demographics.medianIncome.toLocaleString()}`
+    },
+    publicData.demographics?.renterShare !== undefined && {
+      label: 'Renter-Occupied Homes',
+      value: `${Math.round(publicData.demographics.renterShare * 100)}%`
+    },
+    publicData.crime && { label: 'Crime', value: describeCrime(publicData.crime) },
+    publicData.floodZone && { label: 'Flood Zone', value: describeFloodZone(publicData.floodZone) },
+    publicData.zoning && { label: 'Zoning', value: publicData.zoning.code }
   ].filter((point): point is { label: string; value: string } => Boolean(point));
 
   return (
@@ -131,6 +282,21 @@ export default function PropertyDataPreview({ address, onClose }: PropertyDataPr
             <div>
               <h2 className="text-2xl font-bold text-gray-900">🎉 Found Public Data!</h2>
               <p className="text-gray-600 mt-1">{address}</p>
+              <div className="flex items-center gap-3 mt-2 text-xs text-gray-500">
+                {publicData.fetchedAt && <span>Fetched {formatAge(publicData.fetchedAt)}</span>}
+                {cacheStats && cacheStats.totals.hits + cacheStats.totals.stale + cacheStats.totals.misses > 0 && (
+                  <span title={`${cacheStats.totals.hits} fresh hits, ${cacheStats.totals.stale} stale, ${cacheStats.totals.misses} misses`}>
+                    Cache hit rate {Math.round(cacheStats.hitRate * 100)}%
+                  </span>
+                )}
+                <button
+                  onClick={() => loadPublicData(true)}
+                  disabled={refreshing}
+                  className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                >
+                  {refreshing ? 'Refreshing...' : '🔄 Refresh'}
+                </button>
+              </div>
             </div>
             <button
               onClick={onClose}
@@ -154,6 +320,48 @@ export default function PropertyDataPreview({ address, onClose }: PropertyDataPr
             </div>
           </div>
 
+          {/* Sources that disagree - the rules pick one, the user can overrule */}
+          {conflicts.length > 0 && (
+            <div className="mb-6">
+              <h4 className="text-md font-semibold mb-3">⚖️ Sources Disagree</h4>
+              <div className="bg-yellow-50 rounded-lg p-4 space-y-4 text-sm">
+                {conflicts.map(({ field, chosen, candidates, resolvedBy }) => (
+                  <div key={field}>
+                    <div className="font-semibold mb-1">
+                      {FIELD_LABELS[field]}
+                      {(resolvedBy === 'user' || chosen.kind === 'user') && <span className="ml-2 text-xs text-gray-500">chosen by you</span>}
+                    </div>
+                    <div className="space-y-1">
+                      {candidates.map(candidate => (
+                        <label key={candidateKey(candidate)} className="flex items-center gap-2">
+                          <input
+                            type="radio"
+                            name={`conflict-${field}`}
+                            checked={candidateKey(candidate) === candidateKey(chosen)}
+                            onChange={() => choose(field, candidate)}
+                          />
+                          <span className="font-medium">{formatFieldValue(field, candidate.value)}</span>
+                          <span className="text-gray-500">
+                            {candidate.source} · {candidate.observedAt.toLocaleDateString()}
+                          </span>
+                        </label>
+                      ))}
+                      <label className="flex items-center gap-2">
+                        <span className="text-gray-600">Your value:</span>
+                        <input
+                          type={field === 'purchaseDate' ? 'date' : 'text'}
+                          className="border rounded px-2 py-1 text-sm"
+                          // Clearing the box hands the field back to the sources
+                          onChange={event => enter(field, parseOwnerValue(field, event.target.value))}
+                        />
+                      </label>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Tax Assessment Details */}
           {publicData.taxAssessment && (
             <div className="mb-6">
@@ -215,25 +423,152 @@ export default function PropertyDataPreview({ address, onClose }: PropertyDataPr
                       <div className="font-medium">{permit.type} - ${permit.value.toLocaleString()}</div>
                       <div className="text-sm text-gray-600">{permit.description}</div>
                     </div>
-                    <div className="text-sm text-gray-500">
-                      {permit.issueDate.toLocaleDateString()}
+                    {permit.issueDate && (
+                      <div className="text-sm text-gray-500">
+                        {permit.issueDate.toLocaleDateString()}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Sales timeline, newest first, with the change since the sale before */}
+          {publicData.sales && publicData.sales.length > 0 && (
+            <div className="mb-6">
+              <h4 className="text-md font-semibold mb-3">🏷️ Sales History</h4>
+              <ol className="border-l-2 border-blue-200 ml-2 space-y-4">
+                {publicData.sales.map((sale, index) => {
+                  const previous = publicData.sales!.slice(index + 1).find(earlier => earlier.salePrice > 0);
+                  const change = sale.salePrice > 0 && previous ? (sale.salePrice - previous.salePrice) / previous.salePrice : null;
+                  return (
+                    <li key={`${sale.saleDate.toISOString()}-${index}`} className="relative pl-4">
+                      <span className="absolute -left-[7px] top-1.5 w-3 h-3 rounded-full bg-blue-500"></span>
+                      <div className="flex justify-between items-baseline">
+                        <div className="font-medium">
+                          {sale.salePrice > 0 ? `$${sale.salePrice.toLocaleString()}` : 'No consideration'}
+                          {change !== null && (
+                            <span className={`ml-2 text-sm ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {change >= 0 ? '+' : ''}{(change * 100).toFixed(1)}%
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-sm text-gray-500">{sale.saleDate.toLocaleDateString()}</div>
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {sale.deedType || 'Deed'}
+                        {sale.pricePerSqft > 0 && ` · $${sale.pricePerSqft}/sq ft`}
+                      </div>
+                      {(sale.seller || sale.buyer) && (
+                        <div className="text-sm text-gray-500">{sale.seller || 'Unknown'} → {sale.buyer || 'Unknown'}</div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          )}
+
+          {/* Code Violations */}
+          {publicData.violations && publicData.violations.length > 0 && (
+            <div className="mb-6">
+              <h4 className="text-md font-semibold mb-3">🚨 Code Violations</h4>
+              <div className="space-y-2">
+                {publicData.violations.slice(0, 5).map(violation => (
+                  <div
+                    key={violation.violationId}
+                    className={`rounded-lg p-3 flex justify-between items-center ${violation.status === 'open' ? 'bg-red-50' : 'bg-gray-50'}`}
+                  >
+                    <div>
+                      <div className="font-medium">
+                        {violation.type}
+                        {violation.fine !== undefined && ` - $${violation.fine.toLocaleString()} fine`}
+                      </div>
+                      <div className="text-sm text-gray-600">{violation.description}</div>
+                    </div>
+                    <div className="text-right text-sm">
+                      <div className={violation.status === 'open' ? 'font-medium text-red-700' : 'text-gray-500'}>
+                        {VIOLATION_STATUS_LABELS[violation.status]}
+                      </div>
+                      {violation.issueDate && (
+                        <div className="text-gray-500">{violation.issueDate.toLocaleDateString()}</div>
+                      )}
                     </div>
                   </div>
                 ))}
               </div>
+              {publicData.violations.some(violation => violation.status === 'open') && (
+                <p className="text-sm text-gray-600 mt-2">
+                  Each open violation adds a critical alert and a draft work order to the property.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Flood risk - only worth a section when the parcel is in a high-risk zone */}
+          {publicData.floodZone?.sfha && (
+            <div className="mb-6">
+              <h4 className="text-md font-semibold mb-3">🌊 Flood Risk</h4>
+              <div className="bg-red-50 rounded-lg p-4 text-sm">
+                <div className="font-medium text-red-800">
+                  FEMA Special Flood Hazard Area - {describeFloodZone(publicData.floodZone)}
+                </div>
+                {publicData.floodZone.zoneSubtype && (
+                  <div className="text-gray-600 mt-1 capitalize">{publicData.floodZone.zoneSubtype.toLowerCase()}</div>
+                )}
+                <div className="text-gray-600 mt-1">
+                  Flood insurance is required for federally backed mortgages. An alert will be added to the property.
+                </div>
+              </div>
             </div>
           )}
 
           {/* Schools */}
           {publicData.schools && publicData.schools.length > 0 && (
             <div className="mb-6">
-              <h4 className="text-md font-semibold mb-3">🏫 Nearby Schools</h4>
+              <h4 className="text-md font-semibold mb-3">🏫 Schools</h4>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                 {publicData.schools.map((school, index) => (
                   <div key={index} className="bg-purple-50 rounded-lg p-3">
                     <div className="font-medium">{school.name}</div>
-                    <div className="text-sm text-gray-600 capitalize">{school.type} • Rating: {school.rating}/10</div>
-                    <div className="text-sm text-gray-500">{school.distance.toFixed(1)} miles away</div>
+                    <div className="text-sm text-gray-600 capitalize">
+                      {school.type}{school.rating !== undefined && ` • Rating: ${school.rating}/10`}
+                    </div>
+                    <div className="text-sm text-gray-500">
+                      {school.assigned ? 'Assigned · ' : ''}{school.distance.toFixed(1)} miles away
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Where each field came from, so "nothing found" and "lookup failed" look different */}
+          {publicData.sources && (
+            <div className="mb-6">
+              <h4 className="text-md font-semibold mb-3">
+                📡 Data Sources
+                <span className="ml-2 text-sm font-normal text-gray-500">
+                  {Object.values(publicData.sources).filter(source => source.status === 'ok').length} of {Object.keys(publicData.sources).length} answered
+                </span>
+              </h4>
+              <div className="border rounded-lg divide-y text-sm">
+                {(Object.entries(publicData.sources) as [PublicDataField, DataSource][]).map(([field, source]) => (
+                  <div key={field} className="flex items-start gap-3 px-3 py-2">
+                    <span>{SOURCE_ICONS[source.status]}</span>
+                    <span className="w-36 font-medium text-gray-800">{SOURCE_LABELS[field]}</span>
+                    {source.status === 'ok' ? (
+                      <span className="text-gray-500">
+                        {source.provider}
+                        {source.fetchedAt && ` · fetched ${formatAge(source.fetchedAt)}`}
+                        {(source.cache === 'hit' || source.cache === 'stale') && ' · cached'}
+                      </span>
+                    ) : (
+                      <span className={source.status === 'failed' ? 'text-red-600' : 'text-gray-400'}>
+                        {source.error}
+                      </span>
+                    )}
                   </div>
                 ))}
               </div>
@@ -0,0 +1,96 @@
+import { motion } from 'framer-motion';
+import { useHistoryStore } from '@/store/historyStore';
+import type { AuditEntry } from '@/types';
+import { formatValue } from '@/utils/format';
+
+interface PropertyHistoryProps {
+  propertyId: string;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  create: 'Created property',
+  update: 'Edited',
+  delete: 'Deleted property'
+};
+
+function EntryRow({ entry }: { entry: AuditEntry }) {
+  return (
+    <div className="border-l-2 border-blue-200 pl-4 pb-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-gray-900">
+          {ACTION_LABELS[entry.action]}
+          {entry.reason && (
+            <span className="ml-2 text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded">{entry.reason}</span>
+          )}
+        </div>
+        <div className="text-xs text-gray-500">{entry.timestamp.toLocaleString()}</div>
+      </div>
+      <div className="text-xs text-gray-500 mb-2">by {entry.actor.name}</div>
+
+      {entry.changes.length > 0 && (
+        <div className="space-y-1">
+          {entry.changes.map(change => (
+            <div key={change.path} className="bg-gray-50 rounded px-3 py-2 text-sm">
+              <div className="font-mono text-xs text-gray-600">{change.path}</div>
+              <div className="break-all">
+                <span className="text-red-600 line-through">{formatValue(change.oldValue)}</span>
+                <span className="mx-2 text-gray-400">→</span>
+                <span className="text-green-700">{formatValue(change.newValue)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Audit trail for one property, newest first, with undo/redo of recent edits
+export default function PropertyHistory({ propertyId, onClose }: PropertyHistoryProps) {
+  const { undo, redo, canUndo, canRedo, getPropertyHistory } = useHistoryStore();
+  const history = getPropertyHistory(propertyId);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+      >
+        <div className="p-6 border-b flex justify-between items-start">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">🕘 Change History</h2>
+            <div className="flex gap-2 mt-3">
+              <button
+                onClick={undo}
+                disabled={!canUndo()}
+                className="text-sm px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-40"
+              >
+                ↶ Undo
+              </button>
+              <button
+                onClick={redo}
+                disabled={!canRedo()}
+                className="text-sm px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-40"
+              >
+                ↷ Redo
+              </button>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-6">
+          {history.length === 0 ? (
+            <p className="text-center text-gray-600">No changes recorded yet.</p>
+          ) : (
+            history.map(entry => <EntryRow key={entry.id} entry={entry} />)
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { usePropertyStore } from '@/store/propertyStore';
+import {
+  IMPORT_FIELDS,
+  PropertyImportService,
+  type ColumnMapping,
+  type ImportFieldKey,
+  type ImportResult,
+  type ImportTable
+} from '@/services/PropertyImportService';
+
+type Step = 'upload' | 'map' | 'review' | 'importing' | 'done';
+
+function previewCell(table: ImportTable, column: number | undefined): string {
+  if (column === undefined) return '';
+  const sample = table.rows.find(row => row[column] !== null && row[column] !== '')?.[column];
+  if (sample instanceof Date) return sample.toLocaleDateString();
+  return sample === undefined || sample === null ? '' : String(sample);
+}
+
+// Upload a CSV/XLSX file, map its columns to PropertyDataInput fields,
+// review per-row validation, then create the properties in one go
+export default function PropertyImportWizard() {
+  const navigate = useNavigate();
+  const { properties, addProperty } = usePropertyStore();
+  const importService = PropertyImportService.getInstance();
+
+  const [step, setStep] = useState<Step>('upload');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const rows = useMemo(
+    () => (table && step === 'review' ? importService.validateRows(table, mapping, properties) : []),
+    [table, mapping, properties, step, importService]
+  );
+  const readyRows = rows.filter(row => row.errors.length === 0 && !(skipDuplicates && row.duplicate));
+  const errorCount = rows.filter(row => row.errors.length > 0).length;
+  const duplicateCount = rows.filter(row => row.duplicate).length;
+  const mappingErrors = importService.validateMapping(mapping);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    try {
+      const parsed = await importService.readFile(file);
+      setTable(parsed);
+      setMapping(importService.suggestMapping(parsed.headers));
+      setStep('map');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read file');
+    }
+  };
+
+  const handleMappingChange = (field: ImportFieldKey, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    setStep('importing');
+    setProgress({ done: 0, total: readyRows.length });
+    const imported = await importService.importRows(readyRows, (done, total) => setProgress({ done, total }));
+    imported.created.forEach(property => addProperty(property));
+    setResult(imported);
+    setStep('done');
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 bg-white">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Import Properties</h1>
+        <p className="text-gray-600">Bring a whole portfolio in from a CSV or Excel (.xlsx) file</p>
+      </div>
+
+      {step === 'upload' && (
+        <div className="space-y-4">
+          <label className="block border-2 border-dashed border-gray-300 rounded-lg p-10 text-center cursor-pointer hover:border-blue-400">
+            <div className="text-4xl mb-2">📄</div>
+            <div className="font-medium text-gray-900">Choose a CSV or Excel file</div>
+            <div className="text-sm text-gray-500 mt-1">One property per row, with a header row</div>
+            <input type="file" accept=".csv,.tsv,.txt,.xlsx" onChange={handleFile} className="hidden" />
+          </label>
+          {error && <div className="bg-red-50 text-red-700 rounded-lg p-3 text-sm">{error}</div>}
+        </div>
+      )}
+
+      {step === 'map' && table && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {table.fileName} · {table.rows.length} rows. Match each field to a column in your file.
+          </p>
+          <div className="divide-y border rounded-lg">
+            {IMPORT_FIELDS.map(field => (
+              <div key={field.key} className="flex items-center gap-4 px-4 py-2">
+                <div className="w-40 text-sm font-medium text-gray-700">
+                  {field.label}{field.required && ' *'}
+                </div>
+                <select
+                  value={mapping[field.key] ?? ''}
+                  onChange={(e) => handleMappingChange(field.key, e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="">— Skip —</option>
+                  {table.headers.map((header, index) => (
+                    <option key={index} value={index}>{header}</option>
+                  ))}
+                </select>
+                <div className="w-40 text-xs text-gray-500 truncate">{previewCell(table, mapping[field.key])}</div>
+              </div>
+            ))}
+          </div>
+          {mappingErrors.map(message => (
+            <div key={message} className="text-sm text-red-600">{message}</div>
+          ))}
+          <div className="flex justify-between">
+            <button onClick={() => setStep('upload')} className="px-4 py-2 text-gray-700 hover:text-gray-900">
+              Back
+            </button>
+            <button
+              onClick={() => setStep('review')}
+              disabled={mappingErrors.length > 0}
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              Review Rows
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'review' && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="bg-green-50 rounded-lg p-4">
+              <div className="text-2xl font-bold text-green-700">{readyRows.length}</div>
+              <div className="text-sm text-gray-600">Ready to import</div>
+            </div>
+            <div className="bg-red-50 rounded-lg p-4">
+              <div className="text-2xl font-bold text-red-700">{errorCount}</div>
+              <div className="text-sm text-gray-600">With errors</div>
+            </div>
+            <div className="bg-yellow-50 rounded-lg p-4">
+              <div className="text-2xl font-bold text-yellow-700">{duplicateCount}</div>
+              <div className="text-sm text-gray-600">Duplicate addresses</div>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />
+            Skip duplicate addresses
+          </label>
+
+          <div className="border rounded-lg max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="text-left px-3 py-2 w-16">Row</th>
+                  <th className="text-left px-3 py-2">Address</th>
+                  <th className="text-left px-3 py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {rows.map(row => (
+                  <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50' : row.duplicate ? 'bg-yellow-50' : ''}>
+                    <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                    <td className="px-3 py-2">{row.input?.address || '—'}</td>
+                    <td className="px-3 py-2">
+                      {row.errors.length > 0 ? (
+                        <ul className="text-red-700">
+                          {row.errors.map(message => <li key={message}>{message}</li>)}
+                        </ul>
+                      ) : row.duplicate ? (
+                        <span className="text-yellow-700">
+                          {row.duplicate === 'portfolio' ? 'Already in portfolio' : 'Duplicate of an earlier row'}
+                        </span>
+                      ) : (
+                        <span className="text-green-700">✓ Ready</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-between">
+            <button onClick={() => setStep('map')} className="px-4 py-2 text-gray-700 hover:text-gray-900">
+              Back
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={readyRows.length === 0}
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              Import {readyRows.length} Properties
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'importing' && (
+        <div className="text-center py-10">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Creating properties... {progress.done}/{progress.total}</p>
+        </div>
+      )}
+
+      {step === 'done' && result && (
+        <div className="space-y-4">
+          <div className="bg-green-50 rounded-lg p-4 text-green-800">
+            🎉 Imported {result.created.length} properties
+          </div>
+          {result.failed.length > 0 && (
+            <div className="bg-red-50 rounded-lg p-4 text-sm text-red-700">
+              <div className="font-medium mb-1">{result.failed.length} rows failed:</div>
+              <ul>
+                {result.failed.map(failure => (
+                  <li key={failure.rowNumber}>Row {failure.rowNumber}: {failure.error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <button
+            onClick={() => navigate('/')}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700"
+          >
+            View Portfolio
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { AnimatePresence } from 'framer-motion';
 import { useSwipeable } from 'react-swipeable';
@@ -6,10 +7,12 @@ import TabButton from './TabButton';
 import OverviewTab from './tabs/OverviewTab';
 import OperationsTab from './tabs/OperationsTab';
 import IntelligenceTab from './tabs/IntelligenceTab';
+import PropertyHistory from './PropertyHistory';
 
 export default function PropertyView() {
   const { id } = useParams<{ id: string }>();
-  const { getPropertyById, setActiveTab, activeTab } = usePropertyStore();
+  const { getPropertyById, setActiveTab, activeTab, hasHydrated } = usePropertyStore();
+  const [showHistory, setShowHistory] = useState(false);
   
   const property = id ? getPropertyById(id) : null;
 
@@ -32,6 +35,14 @@ export default function PropertyView() {
     trackMouse: true,
   });
 
+  if (!property && !hasHydrated) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
   if (!property) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -61,6 +72,12 @@ export default function PropertyView() {
               <span className="text-sm text-gray-600">
                 Health Score: {property.overview.healthScore}/100
               </span>
+              <button
+                onClick={() => setShowHistory(true)}
+                className="text-sm text-blue-600 hover:underline"
+              >
+                🕘 History
+              </button>
             </div>
           </div>
           
@@ -114,6 +131,10 @@ export default function PropertyView() {
           )}
         </AnimatePresence>
       </div>
+
+      {showHistory && (
+        <PropertyHistory propertyId={property.id} onClose={() => setShowHistory(false)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { SyncEngine } from '@/services/SyncEngine';
+import { useSyncStore } from '@/store/syncStore';
+import type { ConflictChoice, SyncQueueEntry } from '@/types';
+import { formatValue } from '@/utils/format';
+
+interface SyncConflictReviewProps {
+  onClose: () => void;
+}
+
+function ConflictCard({ entry }: { entry: SyncQueueEntry }) {
+  const conflict = entry.conflict!;
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const choiceFor = (path: string) => choices[path] ?? 'local';
+
+  const chooseAll = (choice: ConflictChoice) =>
+    setChoices(Object.fromEntries(conflict.fields.map(field => [field.path, choice])));
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <div className="font-semibold text-gray-900">{conflict.remote.address.formatted}</div>
+          <div className="text-xs text-gray-500">
+            Changed on the server while you were offline · {conflict.detectedAt.toLocaleString()}
+          </div>
+        </div>
+        <div className="flex gap-2 text-xs">
+          <button onClick={() => chooseAll('local')} className="text-blue-600 hover:underline">
+            Keep all mine
+          </button>
+          <button onClick={() => chooseAll('remote')} className="text-blue-600 hover:underline">
+            Use all server
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {conflict.fields.map(field => (
+          <div key={field.path} className="bg-gray-50 rounded p-3 text-sm">
+            <div className="font-mono text-xs text-gray-600 mb-2">{field.path}</div>
+            <div className="grid grid-cols-2 gap-2">
+              {(['local', 'remote'] as const).map(choice => (
+                <label
+                  key={choice}
+                  className={`flex items-start gap-2 rounded p-2 cursor-pointer border ${
+                    choiceFor(field.path) === choice ? 'border-blue-500 bg-blue-50' : 'border-transparent'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name={`${entry.id}-${field.path}`}
+                    checked={choiceFor(field.path) === choice}
+                    onChange={() => setChoices(current => ({ ...current, [field.path]: choice }))}
+                  />
+                  <span>
+                    <span className="block text-xs text-gray-500">{choice === 'local' ? 'Yours' : 'Server'}</span>
+                    <span className="break-all">{formatValue(choice === 'local' ? field.local : field.remote)}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-3 text-right">
+        <button
+          onClick={() => SyncEngine.getInstance().resolveConflict(entry.id, choices)}
+          className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 text-sm"
+        >
+          Apply & Sync
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function SyncConflictReview({ onClose }: SyncConflictReviewProps) {
+  const queue = useSyncStore((state) => state.queue);
+  const conflicts = queue.filter(entry => entry.conflict);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+      >
+        <div className="p-6 border-b flex justify-between items-start">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Review Sync Conflicts</h2>
+            <p className="text-gray-600 text-sm mt-1">
+              Choose which value to keep for each field. Other changes were merged automatically.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {conflicts.length === 0 ? (
+            <p className="text-center text-gray-600">All conflicts resolved.</p>
+          ) : (
+            conflicts.map(entry => <ConflictCard key={entry.id} entry={entry} />)
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { SyncEngine } from '@/services/SyncEngine';
+import { isApiBackendEnabled } from '@/services/PropertyApiClient';
+import { useSyncStore } from '@/store/syncStore';
+import SyncConflictReview from './SyncConflictReview';
+
+// Small pill showing whether local changes have reached the API. Tapping it
+// opens the conflict review when there is something to decide, otherwise it
+// retries the queue.
+export default function SyncStatusIndicator() {
+  const { online, syncing, lastError, getPendingCount, getConflicts } = useSyncStore();
+  const [reviewing, setReviewing] = useState(false);
+
+  if (!isApiBackendEnabled()) return null;
+
+  const pending = getPendingCount();
+  const conflicts = getConflicts().length;
+
+  let label = '✓ Synced';
+  let tone = 'bg-green-50 text-green-700 border-green-200';
+  if (conflicts > 0) {
+    label = `⚠️ ${conflicts} conflict${conflicts === 1 ? '' : 's'} to review`;
+    tone = 'bg-amber-50 text-amber-800 border-amber-300';
+  } else if (!online) {
+    label = pending > 0 ? `Offline · ${pending} pending` : 'Offline';
+    tone = 'bg-gray-100 text-gray-700 border-gray-300';
+  } else if (syncing) {
+    label = `Syncing ${pending}...`;
+    tone = 'bg-blue-50 text-blue-700 border-blue-200';
+  } else if (lastError) {
+    label = `Sync paused · ${pending} pending`;
+    tone = 'bg-red-50 text-red-700 border-red-200';
+  } else if (pending > 0) {
+    label = `${pending} pending`;
+    tone = 'bg-blue-50 text-blue-700 border-blue-200';
+  }
+
+  const handleClick = () => {
+    if (conflicts > 0) {
+      setReviewing(true);
+    } else {
+      SyncEngine.getInstance().flush();
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={handleClick}
+        title={lastError ?? undefined}
+        className={`fixed top-3 right-3 z-40 text-xs font-medium px-3 py-1 rounded-full border shadow-sm ${tone}`}
+      >
+        {label}
+      </button>
+      {reviewing && <SyncConflictReview onClose={() => setReviewing(false)} />}
+    </>
+  );
+}
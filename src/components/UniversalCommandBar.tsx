@@ -7,6 +7,8 @@ import { CommandProcessor } from '@/services/CommandProcessor';
 import { PropertyGenesis } from '@/services/PropertyGenesis';
 import { GeolocationService } from '@/services/GeolocationService';
 import PropertyDataPreview from './PropertyDataPreview';
+import type { CommandContext } from '@/types';
+import { toLatLng } from '@/utils/geo';
 
 const CONTEXTUAL_SUGGESTIONS = {
   overview: [
@@ -34,9 +36,11 @@ export default function UniversalCommandBar() {
   const [showDataPreview, setShowDataPreview] = useState(false);
   const [previewAddress, setPreviewAddress] = useState('');
   const [isGettingLocation, setIsGettingLocation] = useState(false);
+  // Set once the user shares their location; used for "near me" searches
+  const [location, setLocation] = useState<CommandContext['location']>();
   const inputRef = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
-  const { activeTab, addProperty, setActiveProperty } = usePropertyStore();
+  const { activeTab, activeProperty, addProperty, setActiveProperty } = usePropertyStore();
 
   const commandProcessor = CommandProcessor.getInstance();
   const propertyGenesis = PropertyGenesis.getInstance();
@@ -63,14 +67,31 @@ export default function UniversalCommandBar() {
     e.preventDefault();
     if (!input.trim() || isProcessing) return;
     
-    console.log('Processing input:', input);
     setIsProcessing(true);
     setShowSuggestions(false);
 
     try {
+      const context: CommandContext = {
+        propertyId: activeProperty?.id,
+        activeTab,
+        location,
+        timestamp: Date.now()
+      };
+
       // Process the command
-      const command = await commandProcessor.processInput(input, { activeTab });
-      console.log('Processed command:', command);
+      const command = await commandProcessor.processInput(input, context);
+
+      // Distance searches ask for the location the first time they need it
+      if (command.data?.nearby && !context.location) {
+        try {
+          context.location = toLatLng(await geolocationService.getCurrentLocation());
+          setLocation(context.location);
+        } catch (error) {
+          console.error('Failed to get current location:', error);
+          alert('Unable to get your location. Please ensure location access is enabled.');
+          return;
+        }
+      }
 
       // Handle address commands specially - show data preview first
       if (command.type === 'address' && command.addressMatch) {
@@ -78,9 +99,23 @@ export default function UniversalCommandBar() {
         setShowDataPreview(true);
       } else {
         // Execute other command types
-        const result = await commandProcessor.executeCommand(command);
-        console.log('Command result:', result);
-        
+        const result = await commandProcessor.executeCommand(command, {
+          ...context,
+          properties: usePropertyStore.getState().properties
+        });
+
+        // Open the nearest property for "near me" searches
+        if (result.data?.type === 'search' && result.data.results) {
+          const nearest = usePropertyStore.getState().getPropertyById(result.data.results[0]?.propertyId);
+          if (nearest) {
+            setActiveProperty(nearest);
+            navigate(`/property/${nearest.id}`);
+          } else {
+            alert(result.message);
+          }
+          return;
+        }
+
         // Handle navigation commands
         if (result.data?.type === 'navigation') {
           const target = result.data.target;
@@ -114,6 +149,7 @@ export default function UniversalCommandBar() {
     setIsGettingLocation(true);
     try {
       const address = await geolocationService.getCurrentAddress();
+      setLocation(toLatLng(address.coordinates));
       setInput(address.formatted);
       setPreviewAddress(address.formatted);
       setShowDataPreview(true);
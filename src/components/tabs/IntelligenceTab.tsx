@@ -6,6 +6,9 @@ interface IntelligenceTabProps {
 }
 
 export default function IntelligenceTab({ property }: IntelligenceTabProps) {
+  const zoning = property.publicData?.zoning;
+  const schools = property.publicData?.schools ?? [];
+
   return (
     <motion.div
       initial={{ opacity: 0, x: -20 }}
@@ -69,6 +72,77 @@ export default function IntelligenceTab({ property }: IntelligenceTabProps) {
         )}
       </div>
 
+      {/* Zoning */}
+      {zoning && (
+        <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
+          <h3 className="text-sm font-medium text-gray-900 mb-3">Zoning</h3>
+          <div className="flex items-baseline gap-2">
+            <p className="text-lg font-bold text-gray-900">{zoning.code}</p>
+            {zoning.description && <p className="text-sm text-gray-600">{zoning.description}</p>}
+          </div>
+          <div className="grid grid-cols-2 gap-4 mt-3">
+            <div>
+              <p className="text-xs text-gray-600">Max Units</p>
+              <p className="text-sm font-medium text-gray-900">{zoning.maxUnits ?? '—'}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-600">ADU Eligible</p>
+              <p className="text-sm font-medium text-gray-900">
+                {zoning.aduEligible === undefined ? '—' : zoning.aduEligible ? '✅ Yes' : '❌ No'}
+              </p>
+            </div>
+          </div>
+          {zoning.allowedUses && zoning.allowedUses.length > 0 && (
+            <div className="mt-3">
+              <p className="text-xs text-gray-600 mb-1">Allowed Uses</p>
+              <div className="flex flex-wrap gap-1">
+                {zoning.allowedUses.map(use => (
+                  <span key={use} className="inline-flex px-2 py-1 text-xs rounded-full bg-primary-100 text-primary-800">
+                    {use}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+          {zoning.jurisdiction && (
+            <p className="text-xs text-gray-500 mt-3">From the {zoning.jurisdiction} zoning map</p>
+          )}
+        </div>
+      )}
+
+      {/* Schools */}
+      {schools.length > 0 && (
+        <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
+          <h3 className="text-sm font-medium text-gray-900 mb-3">Schools</h3>
+          <div className="space-y-2">
+            {schools.map(school => (
+              <div key={`${school.type}-${school.id ?? school.name}`} className="flex items-center justify-between py-2 border-b border-gray-100 last:border-b-0">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{school.name}</p>
+                  <p className="text-xs text-gray-600">
+                    <span className="capitalize">{school.type}</span>
+                    {' · '}{school.assigned ? 'Assigned' : 'Nearest'}
+                    {' · '}{school.distance.toFixed(1)} miles
+                    {school.enrollment > 0 && ` · ${school.enrollment.toLocaleString()} students`}
+                  </p>
+                </div>
+                {school.rating !== undefined ? (
+                  <span className={`inline-flex px-2 py-1 text-xs rounded-full ${
+                    school.rating >= 8 ? 'bg-success-100 text-success-800' :
+                    school.rating >= 5 ? 'bg-warning-100 text-warning-800' :
+                    'bg-danger-100 text-danger-800'
+                  }`}>
+                    {school.rating}/10
+                  </span>
+                ) : (
+                  <span className="text-xs text-gray-400">Not rated</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* AI Insights */}
       <div className="bg-white rounded-lg p-4 shadow-sm border border-gray-200">
         <h3 className="text-sm font-medium text-gray-900 mb-3">AI Insights</h3>
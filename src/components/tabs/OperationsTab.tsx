@@ -162,12 +162,25 @@ function TenantsView({ property }: { property: Property }) {
 }
 
 function WorkOrdersView({ property }: { property: Property }) {
+  const draftOrders = property.operations.workOrders.filter(wo => wo.status === 'draft');
   const openOrders = property.operations.workOrders.filter(wo => wo.status === 'open');
   const inProgressOrders = property.operations.workOrders.filter(wo => wo.status === 'in-progress');
   const completedOrders = property.operations.workOrders.filter(wo => wo.status === 'completed');
 
   return (
     <div className="space-y-4">
+      {/* Drafts raised from public records, e.g. open code violations */}
+      {draftOrders.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-3">Drafts ({draftOrders.length})</h3>
+          <div className="space-y-2">
+            {draftOrders.map((order) => (
+              <WorkOrderCard key={order.id} order={order} />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Open Work Orders */}
       <div>
         <h3 className="text-sm font-medium text-gray-900 mb-3">Open ({openOrders.length})</h3>
@@ -206,7 +219,7 @@ function WorkOrdersView({ property }: { property: Property }) {
         </div>
       )}
 
-      {openOrders.length === 0 && inProgressOrders.length === 0 && completedOrders.length === 0 && (
+      {draftOrders.length === 0 && openOrders.length === 0 && inProgressOrders.length === 0 && completedOrders.length === 0 && (
         <div className="text-center py-8 text-gray-500">
           <div className="text-4xl mb-2">📋</div>
           <p className="text-sm">No work orders</p>
@@ -230,6 +243,7 @@ function WorkOrderCard({ order }: { order: import('@/types').WorkOrder }) {
         </div>
         <div className="text-right">
           <span className={`inline-flex px-2 py-1 text-xs rounded-full ${
+            order.status === 'draft' ? 'bg-gray-100 text-gray-700' :
             order.status === 'open' ? 'bg-red-100 text-red-800' :
             order.status === 'in-progress' ? 'bg-yellow-100 text-yellow-800' :
             'bg-green-100 text-green-800'
@@ -122,11 +122,13 @@ export default function OverviewTab({ property }: OverviewTabProps) {
                   activity.type === 'payment' ? 'bg-success-100 text-success-600' :
                   activity.type === 'maintenance' ? 'bg-warning-100 text-warning-600' :
                   activity.type === 'inspection' ? 'bg-blue-100 text-blue-600' :
+                  activity.type === 'public-record' ? 'bg-purple-100 text-purple-600' :
                   'bg-gray-100 text-gray-600'
                 }`}>
                   {activity.type === 'payment' ? '💰' :
                    activity.type === 'maintenance' ? '🔧' :
-                   activity.type === 'inspection' ? '📋' : '📄'}
+                   activity.type === 'inspection' ? '📋' :
+                   activity.type === 'public-record' ? '🏛️' : '📄'}
                 </div>
                 <div className="flex-1">
                   <p className="text-sm text-gray-900">{activity.description}</p>
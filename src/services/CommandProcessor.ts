@@ -1,5 +1,7 @@
 import { detectAddress, AddressMatch } from '@/utils/addressDetection';
-import type { CommandType, CommandResult } from '@/types';
+import { fromLatLng, rankByDistance } from '@/utils/geo';
+import { RealPropertyDataService } from './RealPropertyData';
+import type { CommandType, CommandContext, CommandResult, CommandExecutionContext, WorkOrder } from '@/types';
 
 export interface ProcessedCommand {
   type: CommandType;
@@ -19,7 +21,7 @@ export class CommandProcessor {
     return CommandProcessor.instance;
   }
 
-  async processInput(input: string, context?: { activeTab?: string }): Promise<ProcessedCommand> {
+  async processInput(input: string, context?: Partial<CommandContext>): Promise<ProcessedCommand> {
     const trimmed = input.trim();
     
     console.log('CommandProcessor: Processing input:', trimmed);
@@ -160,6 +162,16 @@ export class CommandProcessor {
   private detectGeneralCommand(input: string): ProcessedCommand {
     const lower = input.toLowerCase();
 
+    // Distance searches - answered from the location in the command context
+    if (/\b(near me|nearby|nearest|closest)\b/.test(lower)) {
+      return {
+        type: 'search',
+        input,
+        confidence: 0.8,
+        data: { query: input, nearby: true }
+      };
+    }
+
     // Navigation commands
     if (lower.includes('go to') || lower.includes('navigate') || lower.includes('show')) {
       if (lower.includes('overview')) {
@@ -232,18 +244,19 @@ export class CommandProcessor {
     return 'unknown';
   }
 
-  // Execute the processed command
-  async executeCommand(command: ProcessedCommand): Promise<CommandResult> {
+  // Execute the processed command. With a repository in the context, commands
+  // that change data persist it and report what they changed.
+  async executeCommand(command: ProcessedCommand, context: CommandExecutionContext = {}): Promise<CommandResult> {
     try {
       switch (command.type) {
         case 'address':
-          return await this.handleAddressCommand(command);
+          return await this.handleAddressCommand(command, context);
         
         case 'navigation':
           return await this.handleNavigationCommand(command);
         
         case 'maintenance':
-          return await this.handleMaintenanceCommand(command);
+          return await this.handleMaintenanceCommand(command, context);
         
         case 'tenant':
           return await this.handleTenantCommand(command);
@@ -252,7 +265,7 @@ export class CommandProcessor {
           return await this.handleAnalysisCommand(command);
         
         case 'search':
-          return await this.handleSearchCommand(command);
+          return await this.handleSearchCommand(command, context);
         
         case 'help':
           return await this.handleHelpCommand(command);
@@ -276,8 +289,26 @@ export class CommandProcessor {
     }
   }
 
-  private async handleAddressCommand(command: ProcessedCommand): Promise<CommandResult> {
-    // This will be handled by PropertyGenesis service
+  private async handleAddressCommand(command: ProcessedCommand, context: CommandExecutionContext): Promise<CommandResult> {
+    const address = command.addressMatch?.formatted || command.input;
+
+    if (context.repository) {
+      const property = await context.repository.save(
+        await RealPropertyDataService.getInstance().createPropertyFromInput({ address })
+      );
+      return {
+        success: true,
+        message: `Property created for ${address}`,
+        data: {
+          type: 'property_created',
+          propertyId: property.id,
+          address: command.addressMatch
+        },
+        changes: [{ action: 'create', propertyId: property.id, property }]
+      };
+    }
+
+    // In the browser the command bar shows PropertyDataPreview instead
     return {
       success: true,
       message: `Processing address: ${command.addressMatch?.formatted}`,
@@ -299,7 +330,43 @@ export class CommandProcessor {
     };
   }
 
-  private async handleMaintenanceCommand(command: ProcessedCommand): Promise<CommandResult> {
+  private async handleMaintenanceCommand(command: ProcessedCommand, context: CommandExecutionContext): Promise<CommandResult> {
+    if (context.repository && context.propertyId && command.data.action === 'create_work_order') {
+      const property = await context.repository.get(context.propertyId);
+      if (!property) {
+        throw new Error(`Property ${context.propertyId} not found`);
+      }
+
+      const workOrder: WorkOrder = {
+        id: `wo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        title: command.input,
+        description: command.input,
+        status: 'open',
+        priority: this.inferPriority(command.input),
+        createdAt: new Date(),
+        estimatedCost: 0
+      };
+      const updated = await context.repository.save({
+        ...property,
+        operations: {
+          ...property.operations,
+          workOrders: [...property.operations.workOrders, workOrder]
+        },
+        updatedAt: new Date()
+      });
+
+      return {
+        success: true,
+        message: `Created work order: ${workOrder.title}`,
+        data: {
+          type: 'maintenance',
+          action: command.data.action,
+          workOrderId: workOrder.id
+        },
+        changes: [{ action: 'update', propertyId: updated.id, property: updated }]
+      };
+    }
+
     return {
       success: true,
       message: 'Creating maintenance work order...',
@@ -310,6 +377,13 @@ export class CommandProcessor {
     };
   }
 
+  private inferPriority(input: string): WorkOrder['priority'] {
+    const lower = input.toLowerCase();
+    if (/(urgent|emergency|leak|flood|no heat|fire|gas)/.test(lower)) return 'high';
+    if (/(soon|broken|not working)/.test(lower)) return 'medium';
+    return 'low';
+  }
+
   private async handleTenantCommand(command: ProcessedCommand): Promise<CommandResult> {
     return {
       success: true,
@@ -332,7 +406,10 @@ export class CommandProcessor {
     };
   }
 
-  private async handleSearchCommand(command: ProcessedCommand): Promise<CommandResult> {
+  private async handleSearchCommand(command: ProcessedCommand, context: CommandExecutionContext): Promise<CommandResult> {
+    if (command.data.nearby) {
+      return this.handleNearbySearch(command, context);
+    }
     return {
       success: true,
       message: `Searching for: ${command.data.query}`,
@@ -343,6 +420,33 @@ export class CommandProcessor {
     };
   }
 
+  // Portfolio properties ordered by distance from the user's location
+  private handleNearbySearch(command: ProcessedCommand, context: CommandExecutionContext): CommandResult {
+    if (!context.location) {
+      return {
+        success: false,
+        message: 'Share your location to search near you',
+        data: { type: 'search', query: command.data.query, needsLocation: true }
+      };
+    }
+
+    const results = rankByDistance(context.properties ?? [], fromLatLng(context.location), property =>
+      property.geo ? fromLatLng(property.geo) : undefined
+    ).map(({ item, distanceMiles }) => ({
+      propertyId: item.id,
+      address: item.address.formatted,
+      distanceMiles: Math.round(distanceMiles * 10) / 10
+    }));
+
+    return {
+      success: true,
+      message: results.length > 0
+        ? `Nearest property: ${results[0].address} (${results[0].distanceMiles} mi)`
+        : 'No properties with a known location yet',
+      data: { type: 'search', query: command.data.query, results }
+    };
+  }
+
   private async handleHelpCommand(_command: ProcessedCommand): Promise<CommandResult> {
     return {
       success: true,
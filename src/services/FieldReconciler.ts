@@ -0,0 +1,199 @@
+import type { PublicPropertyData, TaxData } from '@/types/publicData';
+import type {
+  FieldCandidate,
+  FieldResolution,
+  FieldSource,
+  FieldValue,
+  ReconciledField,
+  SourceKind
+} from '@/types/reconciliation';
+import { latestSale } from '@/utils/salesHistory';
+
+export interface ReconciliationPolicy {
+  // Earlier kinds win over later ones
+  precedence: SourceKind[];
+  // Per-field order, e.g. trust the recorder over the owner for purchasePrice
+  fieldPrecedence?: Partial<Record<ReconciledField, SourceKind[]>>;
+  // Between candidates of the same kind, the more recent observation wins
+  preferNewer: boolean;
+}
+
+export type Resolutions = Partial<Record<ReconciledField, FieldResolution>>;
+
+const DEFAULT_POLICY: ReconciliationPolicy = {
+  precedence: ['user', 'public-record', 'vendor', 'estimate'],
+  preferNewer: true
+};
+
+// Money fields within this fraction of each other aren't worth a conflict
+const CURRENCY_FIELDS: ReconciledField[] = ['currentValue', 'purchasePrice', 'monthlyRent'];
+const CURRENCY_TOLERANCE = 0.02;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TAX_FIELDS: [ReconciledField, keyof TaxData][] = [
+  ['yearBuilt', 'yearBuilt'],
+  ['squareFootage', 'squareFootage'],
+  ['lotSize', 'lotSize'],
+  ['bedrooms', 'bedrooms'],
+  ['bathrooms', 'bathrooms'],
+  ['propertyType', 'propertyType']
+];
+
+function readEnvPolicy(): Partial<ReconciliationPolicy> {
+  const raw = import.meta.env.VITE_FIELD_PRECEDENCE;
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as Partial<ReconciliationPolicy>;
+  } catch (error) {
+    console.error('Ignoring invalid VITE_FIELD_PRECEDENCE:', error);
+    return {};
+  }
+}
+
+// Vendors fill missing numbers with 0 and missing text with ''
+function isPresent(value: FieldValue | undefined | null): value is FieldValue {
+  if (value instanceof Date) return !isNaN(value.getTime());
+  if (typeof value === 'number') return Number.isFinite(value) && value > 0;
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function normalizeText(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+export function sameValue(field: ReconciledField, a: FieldValue, b: FieldValue): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && Math.abs(a.getTime() - b.getTime()) < DAY_MS;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    if (!CURRENCY_FIELDS.includes(field)) return a === b;
+    return Math.abs(a - b) <= CURRENCY_TOLERANCE * Math.max(a, b);
+  }
+  return normalizeText(String(a)) === normalizeText(String(b));
+}
+
+// Merges property facts from the owner and every public-data source.
+// Candidates are ranked by source kind (configurable per field), then by how
+// recent they are, then by confidence; disagreements are flagged so the user
+// can pick, and whatever is chosen is kept on the Property as fieldSources.
+export class FieldReconciler {
+  private static instance: FieldReconciler;
+  private policy: ReconciliationPolicy;
+
+  static getInstance(): FieldReconciler {
+    if (!FieldReconciler.instance) {
+      FieldReconciler.instance = new FieldReconciler();
+    }
+    return FieldReconciler.instance;
+  }
+
+  private constructor() {
+    this.policy = { ...DEFAULT_POLICY, ...readEnvPolicy() };
+  }
+
+  configure(policy: Partial<ReconciliationPolicy>) {
+    this.policy = { ...DEFAULT_POLICY, ...policy };
+  }
+
+  collectCandidates(
+    publicData: PublicPropertyData,
+    userInput: Partial<Record<ReconciledField, FieldValue>> = {}
+  ): FieldCandidate[] {
+    const candidates: FieldCandidate[] = [];
+    const fetchedAt = (field: keyof NonNullable<PublicPropertyData['sources']>) =>
+      publicData.sources?.[field]?.fetchedAt ?? publicData.fetchedAt ?? new Date();
+    const add = (candidate: Omit<FieldCandidate, 'value'> & { value: FieldValue | undefined | null }) => {
+      if (isPresent(candidate.value)) candidates.push(candidate as FieldCandidate);
+    };
+
+    const now = new Date();
+    (Object.entries(userInput) as [ReconciledField, FieldValue | undefined][]).forEach(([field, value]) => {
+      add({ field, value, source: 'Owner', kind: 'user', confidence: 1, observedAt: now });
+    });
+
+    const tax = publicData.taxAssessment;
+    if (tax) {
+      const source = tax.source ?? publicData.sources?.taxAssessment?.provider ?? 'Tax assessment';
+      TAX_FIELDS.forEach(([field, key]) => {
+        add({ field, value: tax[key] as FieldValue, source, kind: 'vendor', confidence: 0.8, observedAt: tax.lastAssessment });
+      });
+      // Assessed values trail the market and some states assess at a fraction of it
+      add({
+        field: 'currentValue',
+        value: tax.assessedValue,
+        source: `${source} assessed value`,
+        kind: 'estimate',
+        confidence: 0.3,
+        observedAt: tax.lastAssessment
+      });
+    }
+
+    const market = publicData.marketData;
+    if (market) {
+      const provider = publicData.sources?.marketData?.provider ?? 'Market data';
+      add({ field: 'currentValue', value: market.estimatedValue, source: provider, kind: 'vendor', confidence: 0.7, observedAt: fetchedAt('marketData') });
+      add({ field: 'monthlyRent', value: market.rentEstimate, source: `${provider} rent estimate`, kind: 'estimate', confidence: 0.5, observedAt: fetchedAt('marketData') });
+    }
+
+    const sale = latestSale(publicData.sales ?? []);
+    if (sale) {
+      add({ field: 'purchasePrice', value: sale.salePrice, source: 'Recorded sale', kind: 'public-record', confidence: 0.9, observedAt: sale.saleDate });
+      add({ field: 'purchaseDate', value: sale.saleDate, source: 'Recorded sale', kind: 'public-record', confidence: 0.9, observedAt: sale.saleDate });
+    }
+
+    return candidates;
+  }
+
+  private rank(field: ReconciledField, candidate: FieldCandidate): number {
+    const order = this.policy.fieldPrecedence?.[field] ?? this.policy.precedence;
+    const index = order.indexOf(candidate.kind);
+    return index === -1 ? order.length : index;
+  }
+
+  private compare(field: ReconciledField, a: FieldCandidate, b: FieldCandidate): number {
+    const byKind = this.rank(field, a) - this.rank(field, b);
+    if (byKind !== 0) return byKind;
+    if (this.policy.preferNewer) {
+      const byDate = b.observedAt.getTime() - a.observedAt.getTime();
+      if (Math.abs(byDate) >= DAY_MS) return byDate;
+    }
+    return b.confidence - a.confidence;
+  }
+
+  // One resolution per field that has candidates. `chosen` pins a field to a
+  // candidate the user picked (or typed in) instead of the rules' pick.
+  reconcile(candidates: FieldCandidate[], chosen: Partial<Record<ReconciledField, FieldCandidate>> = {}): Resolutions {
+    const byField = new Map<ReconciledField, FieldCandidate[]>();
+    candidates.forEach(candidate => {
+      byField.set(candidate.field, [...(byField.get(candidate.field) ?? []), candidate]);
+    });
+
+    const resolutions: Resolutions = {};
+    byField.forEach((fieldCandidates, field) => {
+      const ranked = [...fieldCandidates].sort((a, b) => this.compare(field, a, b));
+      const [best] = ranked;
+      const pick = chosen[field];
+      // Estimates ranked below the best candidate (e.g. an assessed value
+      // under a market valuation) are expected to differ and don't count
+      const disagrees = (candidate: FieldCandidate) => !sameValue(field, candidate.value, best.value) &&
+        !(candidate.kind === 'estimate' && this.rank(field, candidate) > this.rank(field, best));
+      resolutions[field] = {
+        field,
+        chosen: pick ?? best,
+        candidates: ranked,
+        conflict: ranked.some(disagrees),
+        resolvedBy: pick ? 'user' : 'precedence'
+      };
+    });
+    return resolutions;
+  }
+
+  toFieldSources(resolutions: Resolutions): Partial<Record<ReconciledField, FieldSource>> {
+    const sources: Partial<Record<ReconciledField, FieldSource>> = {};
+    Object.values(resolutions).forEach(({ field, chosen, resolvedBy }) => {
+      const { field: _field, ...source } = chosen;
+      sources[field] = { ...source, resolvedBy };
+    });
+    return sources;
+  }
+}
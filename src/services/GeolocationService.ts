@@ -1,20 +1,53 @@
-export interface GeolocationCoordinates {
-  latitude: number;
-  longitude: number;
-  accuracy: number;
+import type { GeolocationCoordinates, GeolocationAddress } from '@/types/geolocation';
+import type { FetchOptions, Geocoder, GeocoderFactory, ProviderConfigEntry } from '@/services/providers/types';
+import { createApiProxyGeocoder } from '@/services/providers/ApiProxyGeocoder';
+import { createCensusGeocoder } from '@/services/providers/CensusGeocoder';
+import { createFixtureGeocoder } from '@/services/providers/FixtureGeocoder';
+import { createTigerGeocoder } from '@/services/providers/TigerGeocoder';
+import { NoProviderError, describeFailure, isTransient } from '@/services/providers/errors';
+import { RetryError, retryWithBackoff, withTimeout } from '@/utils/retry';
+import { normalizeAddress } from '@/utils/addressDetection';
+
+export type * from '@/types/geolocation';
+
+// Used when VITE_GEOCODERS isn't set. The Census geocoder needs no key, so
+// addresses still resolve without the Google Maps / MapBox keys. TIGER/Line
+// ranges are the offline last resort, but only once VITE_TIGER_MANIFEST
+// points at downloaded files - none ship with the app.
+const DEFAULT_GEOCODERS: ProviderConfigEntry[] = ['api-proxy', 'census'];
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_RETRIES = 1;
+const RETRY_BASE_DELAY_MS = 500;
+
+interface ConfiguredGeocoder {
+  geocoder: Geocoder;
+  timeoutMs: number;
+  retries: number;
+}
+
+function defaultGeocoders(): ProviderConfigEntry[] {
+  const manifest = import.meta.env.VITE_TIGER_MANIFEST;
+  return manifest ? [...DEFAULT_GEOCODERS, { provider: 'tiger', options: { manifest } }] : DEFAULT_GEOCODERS;
 }
 
-export interface GeolocationAddress {
-  street: string;
-  city: string;
-  state: string;
-  zip: string;
-  formatted: string;
-  coordinates: GeolocationCoordinates;
+function readEnvGeocoders(): ProviderConfigEntry[] | null {
+  const raw = import.meta.env.VITE_GEOCODERS;
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as ProviderConfigEntry[];
+  } catch (error) {
+    console.error('Ignoring invalid VITE_GEOCODERS:', error);
+    return null;
+  }
 }
 
 export class GeolocationService {
   private static instance: GeolocationService;
+  private factories = new Map<string, GeocoderFactory>();
+  private entries: ProviderConfigEntry[];
+  private chain: ConfiguredGeocoder[] | null = null;
+  // One lookup per address for the session, shared by every caller
+  private located = new Map<string, Promise<GeolocationCoordinates>>();
 
   static getInstance(): GeolocationService {
     if (!GeolocationService.instance) {
@@ -23,6 +56,83 @@ export class GeolocationService {
     return GeolocationService.instance;
   }
 
+  private constructor() {
+    this.registerGeocoder('api-proxy', createApiProxyGeocoder);
+    this.registerGeocoder('census', createCensusGeocoder);
+    this.registerGeocoder('fixture', createFixtureGeocoder);
+    this.registerGeocoder('tiger', createTigerGeocoder);
+    this.entries = readEnvGeocoders() ?? defaultGeocoders();
+  }
+
+  registerGeocoder(id: string, factory: GeocoderFactory) {
+    this.factories.set(id, factory);
+    this.chain = null;
+  }
+
+  // Replace the geocoder chain (e.g. to force fixtures in tests)
+  configureGeocoders(entries: ProviderConfigEntry[]) {
+    this.entries = entries;
+    this.chain = null;
+    this.located.clear();
+  }
+
+  private getChain(): ConfiguredGeocoder[] {
+    if (this.chain) return this.chain;
+    this.chain = this.entries
+      .map((entry, index) => {
+        const normalized = typeof entry === 'string' ? { provider: entry } : entry;
+        return { ...normalized, priority: normalized.priority ?? -index };
+      })
+      .filter(entry => entry.enabled !== false)
+      .sort((a, b) => b.priority - a.priority)
+      .flatMap(entry => {
+        const factory = this.factories.get(entry.provider);
+        if (!factory) {
+          console.warn(`Unknown geocoder "${entry.provider}" configured`);
+          return [];
+        }
+        return [{
+          geocoder: factory(entry.options ?? {}),
+          timeoutMs: entry.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+          retries: entry.retries ?? DEFAULT_RETRIES
+        }];
+      });
+    return this.chain;
+  }
+
+  // First answer from the geocoders `supports` accepts, in chain order. Like
+  // ProviderRegistry.resolve, fails with NoProviderError when none of them
+  // covers the request, so callers can tell "unknown address" from "broken".
+  private async firstAnswer<T>(
+    what: string,
+    supports: (geocoder: Geocoder) => boolean,
+    call: (geocoder: Geocoder, options: FetchOptions) => Promise<T>
+  ): Promise<T> {
+    const chain = this.getChain().filter(({ geocoder }) => supports(geocoder));
+    if (chain.length === 0) {
+      throw new NoProviderError(`No geocoder configured for ${what}`);
+    }
+
+    const failures: string[] = [];
+    let uncovered = 0;
+    for (const { geocoder, timeoutMs, retries } of chain) {
+      try {
+        return await retryWithBackoff(
+          () => withTimeout(signal => call(geocoder, { signal }), timeoutMs),
+          { retries, baseDelayMs: RETRY_BASE_DELAY_MS, shouldRetry: isTransient }
+        );
+      } catch (error) {
+        const cause = error instanceof RetryError ? error.lastError : error;
+        if (cause instanceof NoProviderError) uncovered++;
+        failures.push(`${geocoder.id}: ${describeFailure(error)}`);
+      }
+    }
+    if (uncovered === chain.length) {
+      throw new NoProviderError(`No geocoder could locate ${what} - ${failures.join('; ')}`);
+    }
+    throw new Error(`Failed to geocode ${what} - ${failures.join('; ')}`);
+  }
+
   async getCurrentLocation(): Promise<GeolocationCoordinates> {
     return new Promise((resolve, reject) => {
       if (!navigator.geolocation) {
@@ -65,133 +175,32 @@ export class GeolocationService {
   }
 
   async reverseGeocode(coordinates: GeolocationCoordinates): Promise<GeolocationAddress> {
-    if (!process.env.GOOGLE_MAPS_API_KEY && !process.env.MAPBOX_API_KEY) {
-      throw new Error('No geocoding API keys configured');
-    }
-
     try {
-      // Use Google Maps Geocoding API
-      const response = await fetch(
-        `https://maps.googleapis.com/maps/api/geocode/json?latlng=${coordinates.latitude},${coordinates.longitude}&key=${process.env.GOOGLE_MAPS_API_KEY}`
+      return await this.firstAnswer(
+        `${coordinates.latitude}, ${coordinates.longitude}`,
+        geocoder => Boolean(geocoder.reverseGeocode),
+        (geocoder, options) => geocoder.reverseGeocode!(coordinates, options)
       );
-      
-      if (!response.ok) {
-        throw new Error(`Google Maps API failed: ${response.status} - ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      
-      if (data.status !== 'OK') {
-        throw new Error(`Google Maps API error: ${data.status} - ${data.error_message || 'Unknown error'}`);
-      }
-      
-      if (!data.results || data.results.length === 0) {
-        throw new Error('No address found for coordinates');
-      }
-      
-      return this.parseGoogleMapsResponse(data.results[0], coordinates);
     } catch (error) {
-      console.error('Google Maps geocoding failed:', error);
-      // Try MapBox API as fallback
-      return this.reverseGeocodeMapBox(coordinates);
-    }
-  }
-
-  private async reverseGeocodeMapBox(coordinates: GeolocationCoordinates): Promise<GeolocationAddress> {
-    try {
-      const response = await fetch(
-        `https://api.mapbox.com/geocoding/v5/mapbox.places/${coordinates.longitude},${coordinates.latitude}.json?access_token=${process.env.MAPBOX_API_KEY || ''}`
-      );
-      
-      if (!response.ok) {
-        throw new Error(`MapBox API failed: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      if (!data.features.length) {
-        throw new Error('No address found for coordinates');
-      }
-      
-      return this.parseMapBoxResponse(data.features[0], coordinates);
-    } catch (error) {
-      console.error('MapBox geocoding failed:', error);
-      throw new Error('Failed to get address from coordinates');
+      console.error('Reverse geocoding failed:', error);
+      throw error;
     }
   }
 
-  private parseGoogleMapsResponse(result: any, coordinates: GeolocationCoordinates): GeolocationAddress {
-    if (!result.address_components) {
-      throw new Error('Invalid Google Maps response - no address components');
-    }
-
-    const components = result.address_components;
-    
-    let street = '';
-    let city = '';
-    let state = '';
-    let zip = '';
-    
-    components.forEach((component: any) => {
-      const types = component.types;
-      
-      if (types.includes('street_number')) {
-        street = component.long_name + ' ';
-      } else if (types.includes('route')) {
-        street += component.long_name;
-      } else if (types.includes('locality')) {
-        city = component.long_name;
-      } else if (types.includes('administrative_area_level_1')) {
-        state = component.short_name;
-      } else if (types.includes('postal_code')) {
-        zip = component.long_name;
-      }
-    });
-
-    // Validate we got the essential components
-    if (!street || !city || !state) {
-      throw new Error(`Incomplete address data: street=${street}, city=${city}, state=${state}`);
+  // Coordinates for an address through the geocoder chain (see VITE_GEOCODERS).
+  // Failed lookups aren't remembered, so the next call tries again.
+  geocode(address: string): Promise<GeolocationCoordinates> {
+    const key = normalizeAddress(address);
+    let pending = this.located.get(key);
+    if (!pending) {
+      pending = this.firstAnswer(address, () => true, (geocoder, options) => geocoder.geocode(address, options));
+      pending.catch(error => {
+        console.error('Geocoding failed:', error);
+        this.located.delete(key);
+      });
+      this.located.set(key, pending);
     }
-    
-    return {
-      street: street.trim(),
-      city,
-      state,
-      zip,
-      formatted: result.formatted_address,
-      coordinates
-    };
-  }
-
-  private parseMapBoxResponse(feature: any, coordinates: GeolocationCoordinates): GeolocationAddress {
-    const context = feature.context || [];
-    const address = feature.place_name;
-    
-    let city = '';
-    let state = '';
-    let zip = '';
-    
-    context.forEach((item: any) => {
-      if (item.id.startsWith('place')) {
-        city = item.text;
-      } else if (item.id.startsWith('region')) {
-        state = item.short_code?.replace('US-', '') || item.text;
-      } else if (item.id.startsWith('postcode')) {
-        zip = item.text;
-      }
-    });
-    
-    // Extract street from address
-    const street = feature.address ? `${feature.address} ${feature.text}` : feature.text;
-    
-    return {
-      street,
-      city,
-      state,
-      zip,
-      formatted: address,
-      coordinates
-    };
+    return pending;
   }
 
   async getCurrentAddress(): Promise<GeolocationAddress> {
@@ -0,0 +1,212 @@
+import type { Property } from '@/types';
+import { PROPERTY_SCHEMA_VERSION, migrateProperties } from '@/store/migrations';
+import { usePropertyStore } from '@/store/propertyStore';
+import { parseWithDates } from '@/utils/serialization';
+import { stringifyCsv } from '@/utils/csv';
+
+const BACKUP_FORMAT = 'property-os-backup';
+
+export interface PortfolioBackup {
+  format: typeof BACKUP_FORMAT;
+  // PROPERTY_SCHEMA_VERSION the properties were written with
+  schemaVersion: number;
+  exportedAt: Date;
+  properties: Property[];
+}
+
+export interface ParsedBackup {
+  schemaVersion: number;
+  exportedAt: Date | null;
+  // Already migrated to the current schema
+  properties: Property[];
+}
+
+// 'merge' adds new properties and overwrites ones with the same id;
+// 'replace' also removes properties that aren't in the backup
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreSummary {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+export type CsvEntity = 'properties' | 'tenants' | 'workOrders' | 'maintenanceRecords' | 'vendors';
+
+export const CSV_ENTITIES: { entity: CsvEntity; label: string; fileName: string }[] = [
+  { entity: 'properties', label: 'Properties', fileName: 'properties.csv' },
+  { entity: 'tenants', label: 'Tenants', fileName: 'tenants.csv' },
+  { entity: 'workOrders', label: 'Work Orders', fileName: 'work-orders.csv' },
+  { entity: 'maintenanceRecords', label: 'Maintenance Records', fileName: 'maintenance-records.csv' },
+  { entity: 'vendors', label: 'Vendors', fileName: 'vendors.csv' }
+];
+
+// Every child row leads with its property so sheets can be joined back up
+function propertyColumns(property: Property) {
+  return [property.id, property.address.formatted];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export class PortfolioBackupService {
+  private static instance: PortfolioBackupService;
+
+  static getInstance(): PortfolioBackupService {
+    if (!PortfolioBackupService.instance) {
+      PortfolioBackupService.instance = new PortfolioBackupService();
+    }
+    return PortfolioBackupService.instance;
+  }
+
+  createBackup(properties: Property[]): string {
+    const backup: PortfolioBackup = {
+      format: BACKUP_FORMAT,
+      schemaVersion: PROPERTY_SCHEMA_VERSION,
+      exportedAt: new Date(),
+      properties
+    };
+    return JSON.stringify(backup, null, 2);
+  }
+
+  // Validate a backup file and migrate its properties to the current schema
+  parseBackup(text: string): ParsedBackup {
+    let data: unknown;
+    try {
+      data = parseWithDates(text);
+    } catch {
+      throw new Error('Backup file is not valid JSON');
+    }
+
+    if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+      throw new Error('Not a PropertyOS backup file');
+    }
+    const { schemaVersion, properties } = data;
+    if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion) || schemaVersion < 0) {
+      throw new Error('Backup is missing a valid schemaVersion');
+    }
+    if (schemaVersion > PROPERTY_SCHEMA_VERSION) {
+      throw new Error(
+        `Backup was made by a newer version of PropertyOS (schema v${schemaVersion}, this app supports v${PROPERTY_SCHEMA_VERSION})`
+      );
+    }
+    if (!Array.isArray(properties)) {
+      throw new Error('Backup has no properties list');
+    }
+
+    const migrated = migrateProperties(properties, schemaVersion);
+    migrated.forEach((property, index) => {
+      if (typeof property?.id !== 'string' || !isObject(property.address) || typeof property.address.formatted !== 'string') {
+        throw new Error(`Property #${index + 1} in the backup is missing its id or address`);
+      }
+    });
+
+    const ids = new Set(migrated.map(property => property.id));
+    if (ids.size !== migrated.length) {
+      throw new Error('Backup contains the same property id more than once');
+    }
+
+    return {
+      schemaVersion,
+      exportedAt: data.exportedAt instanceof Date ? data.exportedAt : null,
+      properties: migrated
+    };
+  }
+
+  // Goes through the store actions so restored changes are synced and audited
+  restore(properties: Property[], mode: RestoreMode): RestoreSummary {
+    const store = usePropertyStore.getState();
+    const summary: RestoreSummary = { added: 0, updated: 0, removed: 0 };
+    const restoredIds = new Set(properties.map(property => property.id));
+
+    if (mode === 'replace') {
+      store.properties
+        .filter(property => !restoredIds.has(property.id))
+        .forEach(property => {
+          store.removeProperty(property.id);
+          summary.removed++;
+        });
+    }
+
+    properties.forEach(property => {
+      if (store.getPropertyById(property.id)) {
+        // The server owns revision - keep the local one so sync doesn't conflict with itself
+        const { revision: _revision, ...restored } = property;
+        store.updateProperty(property.id, restored);
+        summary.updated++;
+      } else {
+        store.addProperty(property);
+        summary.added++;
+      }
+    });
+
+    return summary;
+  }
+
+  exportCsv(properties: Property[], entity: CsvEntity): string {
+    switch (entity) {
+      case 'properties':
+        return stringifyCsv([
+          ['property_id', 'address', 'street', 'city', 'state', 'zip', 'health_score', 'status',
+            'current_value', 'monthly_revenue', 'revenue_status', 'occupied', 'created_at', 'updated_at'],
+          ...properties.map(property => [
+            property.id,
+            property.address.formatted,
+            property.address.street,
+            property.address.city,
+            property.address.state,
+            property.address.zip,
+            property.overview.healthScore,
+            property.overview.status,
+            property.overview.vitals.currentValue.amount,
+            property.overview.vitals.monthlyRevenue.amount,
+            property.overview.vitals.monthlyRevenue.status,
+            property.overview.vitals.occupancy.status,
+            property.createdAt,
+            property.updatedAt
+          ])
+        ]);
+
+      case 'tenants':
+        return stringifyCsv([
+          ['property_id', 'address', 'tenant_id', 'name', 'unit', 'email', 'phone',
+            'lease_start', 'lease_end', 'rent', 'deposit', 'status'],
+          ...properties.flatMap(property => property.operations.tenants.map(tenant => [
+            ...propertyColumns(property),
+            tenant.id, tenant.name, tenant.unit, tenant.email, tenant.phone,
+            tenant.leaseStart, tenant.leaseEnd, tenant.rent, tenant.deposit, tenant.status
+          ]))
+        ]);
+
+      case 'workOrders':
+        return stringifyCsv([
+          ['property_id', 'address', 'work_order_id', 'title', 'description', 'status', 'priority',
+            'created_at', 'completed_at', 'assigned_to', 'estimated_cost'],
+          ...properties.flatMap(property => property.operations.workOrders.map(workOrder => [
+            ...propertyColumns(property),
+            workOrder.id, workOrder.title, workOrder.description, workOrder.status, workOrder.priority,
+            workOrder.createdAt, workOrder.completedAt, workOrder.assignedTo, workOrder.estimatedCost
+          ]))
+        ]);
+
+      case 'maintenanceRecords':
+        return stringifyCsv([
+          ['property_id', 'address', 'record_id', 'date', 'type', 'description', 'cost', 'vendor', 'warranty'],
+          ...properties.flatMap(property => (property.operations.maintenance?.history ?? []).map(record => [
+            ...propertyColumns(property),
+            record.id, record.date, record.type, record.description, record.cost, record.vendor, record.warranty
+          ]))
+        ]);
+
+      case 'vendors':
+        return stringifyCsv([
+          ['property_id', 'address', 'vendor_id', 'name', 'service', 'phone', 'email', 'rating', 'insured'],
+          ...properties.flatMap(property => (property.operations.maintenance?.vendors ?? []).map(vendor => [
+            ...propertyColumns(property),
+            vendor.id, vendor.name, vendor.service, vendor.phone, vendor.email, vendor.rating, vendor.insured
+          ]))
+        ]);
+    }
+  }
+}
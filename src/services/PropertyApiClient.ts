@@ -0,0 +1,69 @@
+import type { Property } from '@/types';
+import { fetchApi } from '@/utils/api';
+
+export function isApiBackendEnabled(): boolean {
+  return import.meta.env.VITE_PROPERTY_BACKEND === 'api';
+}
+
+export class PropertyApiClient {
+  private static instance: PropertyApiClient;
+
+  static getInstance(): PropertyApiClient {
+    if (!PropertyApiClient.instance) {
+      PropertyApiClient.instance = new PropertyApiClient();
+    }
+    return PropertyApiClient.instance;
+  }
+
+  async listProperties(): Promise<Property[]> {
+    const data = await this.request<{ properties: Property[] }>('GET', '/api/property');
+    return data.properties;
+  }
+
+  async getProperty(id: string): Promise<Property> {
+    const data = await this.request<{ property: Property }>('GET', `/api/property/${encodeURIComponent(id)}`);
+    return data.property;
+  }
+
+  async createProperty(property: Property): Promise<Property> {
+    const data = await this.request<{ property: Property }>('POST', '/api/property', property);
+    return data.property;
+  }
+
+  async createPropertyFromAddress(address: string, source = 'command_bar'): Promise<Property> {
+    const data = await this.request<{ property: Property }>('POST', '/api/property', { address, source });
+    return data.property;
+  }
+
+  // With a base revision the server answers 409 revision_conflict (and the
+  // current record) if someone else saved the property in the meantime
+  async updateProperty(id: string, updates: Partial<Property>, baseRevision?: number): Promise<Property> {
+    const data = await this.request<{ property: Property }>(
+      'PATCH', `/api/property/${encodeURIComponent(id)}`, updates, this.revisionHeaders(baseRevision)
+    );
+    return data.property;
+  }
+
+  async replaceProperty(id: string, property: Property, baseRevision?: number): Promise<Property> {
+    const data = await this.request<{ property: Property }>(
+      'PUT', `/api/property/${encodeURIComponent(id)}`, property, this.revisionHeaders(baseRevision)
+    );
+    return data.property;
+  }
+
+  async deleteProperty(id: string): Promise<void> {
+    await this.request('DELETE', `/api/property/${encodeURIComponent(id)}`);
+  }
+
+  private revisionHeaders(baseRevision?: number): HeadersInit | undefined {
+    return baseRevision !== undefined ? { 'If-Match': `"${baseRevision}"` } : undefined;
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown, headers?: HeadersInit): Promise<T> {
+    return fetchApi<T>(path, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+  }
+}
@@ -1,5 +1,7 @@
 import { Property, PropertyType, PropertyStatus } from '@/types';
 import { AddressMatch } from '@/utils/addressDetection';
+import { toLatLng, type LatLng } from '@/utils/geo';
+import { GeolocationService } from './GeolocationService';
 
 export interface PropertyCreationResult {
   success: boolean;
@@ -23,6 +25,7 @@ export class PropertyGenesis {
       await this.delay(800);
 
       const property = this.generatePropertyData(addressMatch);
+      property.geo = await this.locate(addressMatch.formatted);
       
       return {
         success: true,
@@ -281,12 +284,14 @@ export class PropertyGenesis {
     return bostonZips[Math.floor(Math.random() * bostonZips.length)];
   }
 
-  private generateCoordinates(): { lat: number; lng: number } {
-    // Mock Boston area coordinates
-    return {
-      lat: 42.3601 + (Math.random() - 0.5) * 0.1,
-      lng: -71.0589 + (Math.random() - 0.5) * 0.1
-    };
+  // Real coordinates where a geocoder knows the address; the rest of the
+  // profile is generated, but a made-up location would mislead distance features
+  private async locate(address: string): Promise<LatLng | undefined> {
+    try {
+      return toLatLng(await GeolocationService.getInstance().geocode(address));
+    } catch {
+      return undefined;
+    }
   }
 
   private generateDescription(propertyType: PropertyType, address: string): string {
@@ -0,0 +1,252 @@
+import type { Property } from '@/types';
+import { RealPropertyDataService, type PropertyDataInput } from './RealPropertyData';
+import { parseCsv } from '@/utils/csv';
+import { normalizeAddress } from '@/utils/addressDetection';
+
+export type ImportCell = string | number | boolean | Date | null;
+
+export interface ImportTable {
+  fileName: string;
+  headers: string[];
+  rows: ImportCell[][];
+}
+
+// Columns fill PropertyDataInput fields directly, or address parts that are
+// joined into `address` for spreadsheets that keep them in separate columns
+export type ImportFieldKey = keyof PropertyDataInput | 'city' | 'state' | 'zip';
+
+export interface ImportField {
+  key: ImportFieldKey;
+  label: string;
+  type: 'text' | 'number' | 'integer' | 'date';
+  required?: boolean;
+  // Header names recognised when suggesting a mapping
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: 'address', label: 'Address', type: 'text', required: true, aliases: ['address', 'property address', 'street address', 'street', 'full address', 'location'] },
+  { key: 'city', label: 'City', type: 'text', aliases: ['city', 'town'] },
+  { key: 'state', label: 'State', type: 'text', aliases: ['state', 'st', 'province'] },
+  { key: 'zip', label: 'ZIP', type: 'text', aliases: ['zip', 'zip code', 'zipcode', 'postal code'] },
+  { key: 'purchasePrice', label: 'Purchase Price', type: 'number', aliases: ['purchase price', 'price paid', 'cost basis', 'acquisition price'] },
+  { key: 'currentValue', label: 'Current Value', type: 'number', aliases: ['current value', 'value', 'market value', 'estimated value'] },
+  { key: 'monthlyRent', label: 'Monthly Rent', type: 'number', aliases: ['monthly rent', 'rent', 'rent amount'] },
+  { key: 'monthlyExpenses', label: 'Monthly Expenses', type: 'number', aliases: ['monthly expenses', 'expenses', 'operating expenses'] },
+  { key: 'yearBuilt', label: 'Year Built', type: 'integer', aliases: ['year built', 'built', 'construction year'] },
+  { key: 'squareFootage', label: 'Square Footage', type: 'integer', aliases: ['square footage', 'sq ft', 'sqft', 'square feet', 'size'] },
+  { key: 'bedrooms', label: 'Bedrooms', type: 'integer', aliases: ['bedrooms', 'beds', 'br'] },
+  { key: 'bathrooms', label: 'Bathrooms', type: 'number', aliases: ['bathrooms', 'baths', 'ba'] },
+  { key: 'propertyType', label: 'Property Type', type: 'text', aliases: ['property type', 'type'] },
+  { key: 'tenantName', label: 'Tenant Name', type: 'text', aliases: ['tenant name', 'tenant', 'resident'] },
+  { key: 'leaseStart', label: 'Lease Start', type: 'date', aliases: ['lease start', 'lease start date', 'move in', 'move in date'] },
+  { key: 'leaseEnd', label: 'Lease End', type: 'date', aliases: ['lease end', 'lease end date', 'lease expiration', 'move out'] }
+];
+
+// Column index per field; unmapped fields are left out
+export type ColumnMapping = Partial<Record<ImportFieldKey, number>>;
+
+export interface ImportRow {
+  // Row number as shown in the spreadsheet (header is row 1)
+  rowNumber: number;
+  input: PropertyDataInput | null;
+  errors: string[];
+  // Address already appears earlier in the file, or in the portfolio
+  duplicate?: 'file' | 'portfolio';
+}
+
+export interface ImportResult {
+  created: Property[];
+  failed: { rowNumber: number; error: string }[];
+}
+
+const MAX_ROWS = 5000;
+const BATCH_SIZE = 25;
+
+// Days between the Excel epoch (1899-12-30) and the Unix epoch
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function isBlank(cell: ImportCell | undefined): boolean {
+  return cell === null || cell === undefined || (typeof cell === 'string' && cell.trim() === '');
+}
+
+function parseNumber(cell: ImportCell): number {
+  if (typeof cell === 'number') return cell;
+  const value = Number(String(cell).replace(/[$,\s]/g, ''));
+  if (isNaN(value)) throw new Error(`"${cell}" is not a number`);
+  return value;
+}
+
+function parseDate(cell: ImportCell): Date {
+  let date: Date;
+  if (cell instanceof Date) {
+    date = cell;
+  } else if (typeof cell === 'number') {
+    // Date cells that reached us as Excel serial numbers
+    date = new Date(Math.round((cell - EXCEL_EPOCH_OFFSET_DAYS) * 86400000));
+  } else {
+    const text = String(cell).trim();
+    const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+    if (iso) {
+      date = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    } else if (us) {
+      const year = us[3].length === 2 ? 2000 + Number(us[3]) : Number(us[3]);
+      date = new Date(year, Number(us[1]) - 1, Number(us[2]));
+    } else {
+      date = new Date(text);
+    }
+  }
+  if (isNaN(date.getTime())) throw new Error(`"${cell}" is not a date`);
+  return date;
+}
+
+function parseCell(field: ImportField, cell: ImportCell): string | number | Date {
+  switch (field.type) {
+    case 'text':
+      return String(cell).trim();
+    case 'date':
+      return parseDate(cell);
+    case 'number':
+    case 'integer': {
+      const value = parseNumber(cell);
+      if (value < 0) throw new Error(`${value} must not be negative`);
+      if (field.type === 'integer' && !Number.isInteger(value)) throw new Error(`${value} must be a whole number`);
+      return value;
+    }
+  }
+}
+
+export class PropertyImportService {
+  private static instance: PropertyImportService;
+
+  static getInstance(): PropertyImportService {
+    if (!PropertyImportService.instance) {
+      PropertyImportService.instance = new PropertyImportService();
+    }
+    return PropertyImportService.instance;
+  }
+
+  async readFile(file: File): Promise<ImportTable> {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    let cells: ImportCell[][];
+
+    if (extension === 'xlsx') {
+      // Only loaded when someone actually imports a spreadsheet
+      const { default: readXlsxFile } = await import('read-excel-file');
+      cells = (await readXlsxFile(file)) as ImportCell[][];
+    } else if (extension === 'xls') {
+      throw new Error('Legacy .xls files are not supported - save the sheet as .xlsx or CSV');
+    } else {
+      cells = parseCsv(await file.text());
+    }
+
+    const [headerRow, ...rows] = cells.filter(row => row.some(cell => !isBlank(cell)));
+    if (!headerRow) {
+      throw new Error(`${file.name} is empty`);
+    }
+    if (rows.length > MAX_ROWS) {
+      throw new Error(`${file.name} has ${rows.length} rows - split it into files of at most ${MAX_ROWS}`);
+    }
+
+    return {
+      fileName: file.name,
+      headers: headerRow.map((cell, index) => (isBlank(cell) ? `Column ${index + 1}` : String(cell).trim())),
+      rows
+    };
+  }
+
+  suggestMapping(headers: string[]): ColumnMapping {
+    const normalized = headers.map(normalizeHeader);
+    const used = new Set<number>();
+    const mapping: ColumnMapping = {};
+
+    IMPORT_FIELDS.forEach(field => {
+      const index = normalized.findIndex((header, i) => !used.has(i) && field.aliases.includes(header));
+      if (index >= 0) {
+        mapping[field.key] = index;
+        used.add(index);
+      }
+    });
+    return mapping;
+  }
+
+  validateMapping(mapping: ColumnMapping): string[] {
+    return IMPORT_FIELDS
+      .filter(field => field.required && mapping[field.key] === undefined)
+      .map(field => `Map a column to ${field.label}`);
+  }
+
+  validateRows(table: ImportTable, mapping: ColumnMapping, existing: Property[]): ImportRow[] {
+    const portfolio = new Set(existing.map(property => normalizeAddress(property.address.formatted)));
+    const seen = new Set<string>();
+
+    return table.rows.map((cells, index) => {
+      const errors: string[] = [];
+      const values: Partial<Record<ImportFieldKey, string | number | Date>> = {};
+
+      IMPORT_FIELDS.forEach(field => {
+        const column = mapping[field.key];
+        const cell = column === undefined ? null : cells[column] ?? null;
+        if (isBlank(cell)) {
+          if (field.required) errors.push(`${field.label} is required`);
+          return;
+        }
+        try {
+          values[field.key] = parseCell(field, cell);
+        } catch (error) {
+          errors.push(`${field.label}: ${error instanceof Error ? error.message : 'invalid value'}`);
+        }
+      });
+
+      const { city, state, zip, ...fields } = values;
+      const input = fields as PropertyDataInput;
+      if (input.leaseStart && input.leaseEnd && input.leaseEnd < input.leaseStart) {
+        errors.push('Lease End is before Lease Start');
+      }
+
+      const rowNumber = index + 2;
+      if (!input.address) {
+        return { rowNumber, input: null, errors };
+      }
+
+      // parseAddress in RealPropertyDataService expects "street, city, state, zip"
+      input.address = [input.address, city, state, zip].filter(Boolean).join(', ');
+
+      const key = normalizeAddress(input.address);
+      const duplicate = portfolio.has(key) ? 'portfolio' : seen.has(key) ? 'file' : undefined;
+      seen.add(key);
+
+      return { rowNumber, input, errors, ...(duplicate ? { duplicate } : {}) };
+    });
+  }
+
+  // Create properties in batches so a large file doesn't block the UI thread
+  async importRows(rows: ImportRow[], onProgress?: (done: number, total: number) => void): Promise<ImportResult> {
+    const service = RealPropertyDataService.getInstance();
+    const result: ImportResult = { created: [], failed: [] };
+    const importable = rows.filter((row): row is ImportRow & { input: PropertyDataInput } => row.input !== null);
+
+    for (let start = 0; start < importable.length; start += BATCH_SIZE) {
+      const batch = importable.slice(start, start + BATCH_SIZE);
+      const settled = await Promise.allSettled(batch.map(row => service.createPropertyFromInput(row.input)));
+
+      settled.forEach((outcome, i) => {
+        if (outcome.status === 'fulfilled') {
+          result.created.push(outcome.value);
+        } else {
+          result.failed.push({
+            rowNumber: batch[i].rowNumber,
+            error: outcome.reason instanceof Error ? outcome.reason.message : 'Failed to create property'
+          });
+        }
+      });
+      onProgress?.(Math.min(start + BATCH_SIZE, importable.length), importable.length);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,183 @@
+import type { DataCategory, DataCategoryMap, ProviderResult } from '@/services/providers/types';
+import { cacheFreshness, dataCacheKey, type CacheStatus } from '@/utils/dataCachePolicy';
+import { idbGet, idbSet, isIndexedDBAvailable } from '@/utils/indexedDB';
+
+interface CacheEntry<C extends DataCategory = DataCategory> {
+  category: C;
+  address: string;
+  data: DataCategoryMap[C];
+  providerId: string;
+  fetchedAt: Date;
+}
+
+export interface CachedResult<C extends DataCategory> extends ProviderResult<C> {
+  fetchedAt: Date;
+  cache: CacheStatus;
+}
+
+export interface CacheCounts {
+  hits: number;
+  stale: number;
+  misses: number;
+  // Forced refreshes, which skip the cache entirely
+  refreshes: number;
+}
+
+export interface CacheStats {
+  byCategory: Partial<Record<DataCategory, CacheCounts>>;
+  totals: CacheCounts;
+  // Share of lookups answered from the cache, stale entries included
+  hitRate: number;
+}
+
+export interface CacheGetOptions<C extends DataCategory> {
+  forceRefresh?: boolean;
+  // Called with the fresh copy once a stale entry has been revalidated
+  onRevalidate?: (result: CachedResult<C>) => void;
+  // Refetch a stale entry before returning instead of in the background.
+  // The stale copy is still returned if the refetch fails.
+  waitForRevalidation?: boolean;
+}
+
+type CountKey = keyof CacheCounts;
+
+const STATS_KEY = 'public-data-cache-stats';
+
+function emptyCounts(): CacheCounts {
+  return { hits: 0, stale: 0, misses: 0, refreshes: 0 };
+}
+
+// Client tier of the public-data cache: one IndexedDB entry per category and
+// normalized address, served fresh within the category TTL and
+// stale-while-revalidate after it. Hit/miss counts persist across sessions.
+export class PublicDataCache {
+  private static instance: PublicDataCache;
+  private counts: Partial<Record<DataCategory, CacheCounts>> = {};
+  private countsLoaded: Promise<void> | null = null;
+  private inflight = new Map<string, Promise<CacheEntry>>();
+
+  static getInstance(): PublicDataCache {
+    if (!PublicDataCache.instance) {
+      PublicDataCache.instance = new PublicDataCache();
+    }
+    return PublicDataCache.instance;
+  }
+
+  async get<C extends DataCategory>(
+    category: C,
+    address: string,
+    fetcher: () => Promise<ProviderResult<C>>,
+    options: CacheGetOptions<C> = {}
+  ): Promise<CachedResult<C>> {
+    if (!isIndexedDBAvailable()) {
+      return { ...(await fetcher()), fetchedAt: new Date(), cache: 'bypass' };
+    }
+    await this.loadCounts();
+
+    const key = dataCacheKey(category, address);
+    if (options.forceRefresh) {
+      this.count(category, 'refreshes');
+      return this.toResult(await this.fetchAndStore(key, category, address, fetcher), 'bypass');
+    }
+
+    const entry = await this.read<C>(key);
+    const freshness = entry && cacheFreshness(category, entry.fetchedAt);
+    if (entry && freshness === 'fresh') {
+      this.count(category, 'hits');
+      return this.toResult(entry, 'hit');
+    }
+    if (entry && freshness === 'stale') {
+      this.count(category, 'stale');
+      const revalidated = this.fetchAndStore(key, category, address, fetcher);
+      if (options.waitForRevalidation) {
+        return revalidated.then(fresh => this.toResult(fresh, 'miss'), error => {
+          console.error(`Revalidating ${key} failed:`, error);
+          return this.toResult(entry, 'stale');
+        });
+      }
+      revalidated
+        .then(fresh => options.onRevalidate?.(this.toResult(fresh, 'miss')))
+        .catch(error => console.error(`Revalidating ${key} failed:`, error));
+      return this.toResult(entry, 'stale');
+    }
+
+    this.count(category, 'misses');
+    return this.toResult(await this.fetchAndStore(key, category, address, fetcher), 'miss');
+  }
+
+  async getStats(): Promise<CacheStats> {
+    await this.loadCounts();
+    const totals = emptyCounts();
+    Object.values(this.counts).forEach(counts => {
+      (Object.keys(totals) as CountKey[]).forEach(field => {
+        totals[field] += counts[field];
+      });
+    });
+    const served = totals.hits + totals.stale;
+    const lookups = served + totals.misses;
+    return {
+      byCategory: { ...this.counts },
+      totals,
+      hitRate: lookups > 0 ? served / lookups : 0
+    };
+  }
+
+  // Concurrent lookups for the same key share one upstream request
+  private fetchAndStore<C extends DataCategory>(
+    key: string,
+    category: C,
+    address: string,
+    fetcher: () => Promise<ProviderResult<C>>
+  ): Promise<CacheEntry<C>> {
+    const pending = this.inflight.get(key);
+    if (pending) return pending as Promise<CacheEntry<C>>;
+
+    const request = fetcher()
+      .then(async ({ data, providerId }) => {
+        const entry: CacheEntry<C> = { category, address, data, providerId, fetchedAt: new Date() };
+        await idbSet('publicDataCache', key, entry).catch(error => {
+          console.error(`Failed to cache ${key}:`, error);
+        });
+        return entry;
+      })
+      .finally(() => this.inflight.delete(key));
+
+    this.inflight.set(key, request as Promise<CacheEntry>);
+    return request;
+  }
+
+  private async read<C extends DataCategory>(key: string): Promise<CacheEntry<C> | undefined> {
+    try {
+      return await idbGet<CacheEntry<C>>('publicDataCache', key);
+    } catch (error) {
+      console.error(`Failed to read cached ${key}:`, error);
+      return undefined;
+    }
+  }
+
+  private toResult<C extends DataCategory>(entry: CacheEntry<C>, cache: CacheStatus): CachedResult<C> {
+    return { data: entry.data, providerId: entry.providerId, fetchedAt: entry.fetchedAt, cache };
+  }
+
+  private loadCounts(): Promise<void> {
+    if (!this.countsLoaded) {
+      this.countsLoaded = idbGet<Partial<Record<DataCategory, CacheCounts>>>('state', STATS_KEY)
+        .then(saved => {
+          this.counts = saved ?? {};
+        })
+        .catch(() => {
+          this.counts = {};
+        });
+    }
+    return this.countsLoaded;
+  }
+
+  private count(category: DataCategory, field: CountKey) {
+    const counts = this.counts[category] ?? emptyCounts();
+    counts[field]++;
+    this.counts[category] = counts;
+    idbSet('state', STATS_KEY, this.counts).catch(error => {
+      console.error('Failed to save cache stats:', error);
+    });
+  }
+}
@@ -0,0 +1,192 @@
+import type { Property } from '@/types';
+import type { PublicDataField, PublicPropertyData } from '@/types/publicData';
+import { PublicDataScraper } from './PublicDataScraper';
+import { GeolocationService } from './GeolocationService';
+import { usePropertyStore } from '@/store/propertyStore';
+import { publicDataAlerts, publicDataWorkOrders } from '@/utils/publicDataAlerts';
+import { changeActivity, changeAlert, diffPublicData, type PublicDataChange } from '@/utils/publicDataChanges';
+import { toLatLng } from '@/utils/geo';
+import { rateLimitResetAt } from '@/utils/api';
+
+const HOUR_MS = 60 * 60 * 1000;
+// Matches the cache TTL of most public-data categories, so a check rarely
+// finds nothing new to fetch
+const REFRESH_INTERVAL_MS = 24 * HOUR_MS;
+// How often to look for properties that are due while the app stays open
+const CHECK_INTERVAL_MS = HOUR_MS;
+// A refresh costs up to ~6 lookups against the API (tax, market, walk score,
+// permits, sales, geocoding), and the 'lookup' rate limit allows 40 per 10
+// minutes. Checks are an hour apart, so capping each one leaves most of a
+// window's budget for the user's own searches. The rest wait for later checks.
+const MAX_REFRESHES_PER_CHECK = 4;
+
+export interface RefreshSummary {
+  checked: number;
+  failed: number;
+  // Due properties left for a later check (over the cap or rate limited)
+  deferred: number;
+  changes: PublicDataChange[];
+}
+
+// Never-checked properties sort first
+function checkedAt(property: Property): number {
+  return property.publicDataCheckedAt ? new Date(property.publicDataCheckedAt).getTime() : 0;
+}
+
+function isDue(property: Property, now: number): boolean {
+  return now - checkedAt(property) >= REFRESH_INTERVAL_MS;
+}
+
+// A category that failed this time keeps its last good data, otherwise a
+// flaky provider would wipe records and then "discover" them again
+function mergeSnapshot(previous: PublicPropertyData | undefined, next: PublicPropertyData): PublicPropertyData {
+  if (!previous) return next;
+  const merged: PublicPropertyData = { ...next, sources: { ...next.sources } };
+  (Object.keys(previous) as (keyof PublicPropertyData)[])
+    .filter((field): field is PublicDataField => field !== 'address' && field !== 'fetchedAt' && field !== 'sources')
+    .filter(field => previous[field] !== undefined && next.sources?.[field]?.status !== 'ok')
+    .forEach(field => {
+      Object.assign(merged, { [field]: previous[field] });
+      merged.sources![field] = previous.sources?.[field] ?? merged.sources![field];
+    });
+  return merged;
+}
+
+// Adds the incoming items whose ids aren't there yet, newest first
+function prependNew<T extends { id: string }>(existing: T[], incoming: T[]): T[] {
+  const seen = new Set(existing.map(item => item.id));
+  const added = incoming.filter(item => !seen.has(item.id) && seen.add(item.id));
+  return [...added, ...existing];
+}
+
+// Re-scrapes public records for every property in the portfolio, at most
+// once a day each and a few per check, and turns what changed since the last snapshot into
+// alerts and activity: new permits and violations, reassessments, comp
+// sales and flood map changes. Cloudflare Pages has no Cron Triggers and
+// most providers run in the browser, so this runs while the app is open.
+export class PublicDataRefresher {
+  private static instance: PublicDataRefresher;
+  private scraper = PublicDataScraper.getInstance();
+  private running: Promise<RefreshSummary> | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  static getInstance(): PublicDataRefresher {
+    if (!PublicDataRefresher.instance) {
+      PublicDataRefresher.instance = new PublicDataRefresher();
+    }
+    return PublicDataRefresher.instance;
+  }
+
+  // Refresh what's due now, then keep checking while the app is open
+  start(intervalMs = CHECK_INTERVAL_MS) {
+    if (this.timer) return;
+    this.refreshAll();
+    this.timer = setInterval(() => this.refreshAll(), intervalMs);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // `force` refreshes every property regardless of when it was last checked
+  refreshAll(options: { force?: boolean } = {}): Promise<RefreshSummary> {
+    this.running ??= this.run(options.force ?? false).finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  private async run(force: boolean): Promise<RefreshSummary> {
+    const now = Date.now();
+    // Least recently checked first, so a capped check still gets to everyone
+    const due = usePropertyStore.getState().properties
+      .filter(property => force || isDue(property, now))
+      .sort((a, b) => checkedAt(a) - checkedAt(b));
+    const summary: RefreshSummary = { checked: 0, failed: 0, deferred: 0, changes: [] };
+
+    // One at a time - each property already fans out to every provider
+    for (const [index, property] of due.entries()) {
+      const limitedUntil = rateLimitResetAt('lookup');
+      if (index >= MAX_REFRESHES_PER_CHECK || limitedUntil) {
+        summary.deferred = due.length - index;
+        if (limitedUntil) {
+          console.warn(`Public data refresh paused until ${limitedUntil.toLocaleTimeString()}: lookup rate limit reached`);
+        }
+        break;
+      }
+      try {
+        summary.changes.push(...await this.refreshProperty(property.id));
+        summary.checked++;
+      } catch (error) {
+        console.error(`Public data refresh failed for ${property.address.formatted}:`, error);
+        summary.failed++;
+      }
+    }
+    return summary;
+  }
+
+  async refreshProperty(propertyId: string): Promise<PublicDataChange[]> {
+    const property = usePropertyStore.getState().getPropertyById(propertyId);
+    if (!property) return [];
+
+    // Properties added before geocoding (or while it failed) get located here;
+    // the scrape shares the same lookup
+    const located = property.geo
+      ? Promise.resolve(undefined)
+      : GeolocationService.getInstance().geocode(property.address.formatted).then(toLatLng).catch(() => undefined);
+    const [data, geo] = await Promise.all([
+      // Stale categories are refetched before this returns, so the property
+      // is written once
+      this.scraper.scrapePropertyData(property.address.formatted, { waitForRevalidation: true }),
+      located
+    ]);
+    return this.applySnapshot(propertyId, data, geo ? { geo } : {});
+  }
+
+  // Store the new snapshot (with any other system-found facts in `extra`)
+  // and record what changed against the stored one
+  applySnapshot(propertyId: string, data: PublicPropertyData, extra: Partial<Property> = {}): PublicDataChange[] {
+    const store = usePropertyStore.getState();
+    const property = store.getPropertyById(propertyId);
+    if (!property) return [];
+
+    const previous = property.publicData;
+    const snapshot = mergeSnapshot(previous, data);
+    const changes = previous ? diffPublicData(previous, snapshot) : [];
+    const detectedAt = new Date();
+
+    // Standing alerts (open violations, flood insurance) are recomputed so
+    // the ones whose cause went away are dropped
+    const standing = publicDataAlerts(propertyId, snapshot);
+    const standingIds = new Set(standing.map(alert => alert.id));
+    const resolvedIds = new Set(
+      (previous ? publicDataAlerts(propertyId, previous) : [])
+        .map(alert => alert.id)
+        .filter(id => !standingIds.has(id))
+    );
+    const alerts = prependNew(
+      property.overview.alerts.filter(alert => !resolvedIds.has(alert.id)),
+      [...changes.map(change => changeAlert(propertyId, change, detectedAt)), ...standing]
+    );
+    const recentActivity = prependNew(
+      property.overview.recentActivity,
+      changes.map(change => changeActivity(propertyId, change, detectedAt))
+    );
+    // Drafts are only added - existing work orders may already be in progress
+    const knownWorkOrders = new Set(property.operations.workOrders.map(order => order.id));
+    const workOrders = [
+      ...property.operations.workOrders,
+      ...publicDataWorkOrders(propertyId, snapshot).filter(order => !knownWorkOrders.has(order.id))
+    ];
+
+    store.applySystemUpdate(propertyId, {
+      ...extra,
+      publicData: snapshot,
+      publicDataCheckedAt: detectedAt,
+      overview: { ...property.overview, alerts, recentActivity },
+      operations: { ...property.operations, workOrders }
+    });
+    return changes;
+  }
+}
@@ -1,8 +1,11 @@
 import { Property } from '@/types';
+import type { LatLng } from '@/utils/geo';
 
 export interface PropertyDataInput {
   address: string;
+  geo?: LatLng;
   purchasePrice?: number;
+  purchaseDate?: Date;
   currentValue?: number;
   monthlyRent?: number;
   monthlyExpenses?: number;
@@ -99,6 +102,7 @@ export class RealPropertyDataService {
         zip: addressParts.zip,
         formatted: input.address
       },
+      geo: input.geo,
       overview: {
         healthScore,
         status: this.getStatusFromScore(healthScore),
@@ -186,6 +190,9 @@ export class RealPropertyDataService {
           taxes: []
         }
       },
+      purchase: input.purchasePrice
+        ? { price: input.purchasePrice, date: input.purchaseDate, source: 'manual' }
+        : undefined,
       createdAt: new Date(),
       updatedAt: new Date()
     };
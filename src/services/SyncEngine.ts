@@ -0,0 +1,353 @@
+import type { ConflictChoice, FieldConflict, Property, SyncQueueEntry } from '@/types';
+import { PropertyApiClient } from './PropertyApiClient';
+import { ApiError } from '@/utils/api';
+import { idbDelete, idbGetAll, idbSet, isIndexedDBAvailable } from '@/utils/indexedDB';
+import { diffPaths, getPath, isEqualValue, setPath } from '@/utils/objectDiff';
+import { usePropertyStore } from '@/store/propertyStore';
+import { useSyncStore } from '@/store/syncStore';
+
+// Fields the server owns - never merged or sent back as changes
+const SERVER_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'revision']);
+
+function isServerField(path: string): boolean {
+  return SERVER_FIELDS.has(path.split('.')[0]);
+}
+
+function isRevisionConflict(error: unknown): error is ApiError {
+  return error instanceof ApiError && error.status === 409 && error.code === 'revision_conflict';
+}
+
+// Three-way merge of one property. Every field changed locally since `base`
+// is applied on top of `remote`, unless the server changed it differently too.
+export function mergeProperty(base: Property, local: Property, remote: Property) {
+  const fields: FieldConflict[] = [];
+  let merged = remote;
+
+  diffPaths(base, local)
+    .filter(path => !isServerField(path))
+    .forEach(path => {
+      const baseValue = getPath(base, path);
+      const localValue = getPath(local, path);
+      const remoteValue = getPath(remote, path);
+
+      if (isEqualValue(remoteValue, baseValue) || isEqualValue(remoteValue, localValue)) {
+        merged = setPath(merged, path, localValue);
+      } else {
+        fields.push({ path, base: baseValue, local: localValue, remote: remoteValue });
+      }
+    });
+
+  return { merged, fields };
+}
+
+// Top-level fields of `next` that differ from `current`, shaped for PATCH
+function topLevelChanges(current: Property, next: Property): Partial<Property> {
+  const keys = new Set([...Object.keys(current), ...Object.keys(next)]) as Set<keyof Property>;
+  return [...keys]
+    .filter(key => !SERVER_FIELDS.has(key) && !isEqualValue(current[key], next[key]))
+    .reduce<Partial<Property>>((changes, key) => ({ ...changes, [key]: next[key] }), {});
+}
+
+// Queues property mutations in IndexedDB and replays them against the API
+// in order whenever the app is online. Updates carry the revision they were
+// made against; when the server has moved on, non-overlapping fields are
+// merged automatically and the rest wait in the conflict review.
+export class SyncEngine {
+  private static instance: SyncEngine;
+  private queue: SyncQueueEntry[] = [];
+  private started: Promise<void> | null = null;
+  private flushing: Promise<void> | null = null;
+  private flushRequested = false;
+  private inFlightId: string | null = null;
+
+  static getInstance(): SyncEngine {
+    if (!SyncEngine.instance) {
+      SyncEngine.instance = new SyncEngine();
+    }
+    return SyncEngine.instance;
+  }
+
+  // Restore the persisted queue, replay it and keep replaying on reconnect
+  start(): Promise<void> {
+    if (!this.started) {
+      this.started = this.loadQueue().then(() => {
+        window.addEventListener('online', () => this.flush());
+        window.addEventListener('offline', () => useSyncStore.setState({ online: false }));
+        return this.flush();
+      });
+    }
+    return this.started;
+  }
+
+  hasPendingChanges(propertyId: string): boolean {
+    return this.queue.some(entry => entry.propertyId === propertyId);
+  }
+
+  enqueueCreate(property: Property) {
+    this.add({ ...this.newEntry('create', property.id), property });
+  }
+
+  // `base` is the property as it was before `changes` were applied locally
+  enqueueUpdate(base: Property, changes: Partial<Property>) {
+    const pending = this.queue.find(entry =>
+      entry.propertyId === base.id && entry.id !== this.inFlightId && entry.action !== 'delete'
+    );
+
+    // Fold into the change that hasn't left yet, keeping its original base
+    if (pending?.action === 'create') {
+      this.save({ ...pending, property: { ...pending.property!, ...changes } });
+    } else if (pending) {
+      this.save({ ...pending, changes: { ...pending.changes, ...changes } });
+    } else {
+      this.add({
+        ...this.newEntry('update', base.id),
+        changes,
+        base,
+        baseRevision: base.revision
+      });
+    }
+  }
+
+  enqueueDelete(propertyId: string) {
+    const superseded = this.queue.filter(entry =>
+      entry.propertyId === propertyId && entry.id !== this.inFlightId
+    );
+    superseded.forEach(entry => this.remove(entry));
+
+    // A property created offline never reached the server - nothing to delete
+    if (!superseded.some(entry => entry.action === 'create')) {
+      this.add(this.newEntry('delete', propertyId));
+    }
+  }
+
+  // Apply the user's per-field choices to a conflicted update and requeue it
+  // against the server's current revision
+  resolveConflict(entryId: string, choices: Record<string, ConflictChoice>) {
+    const entry = this.queue.find(candidate => candidate.id === entryId);
+    if (!entry?.conflict) return;
+
+    const { remote } = entry.conflict;
+    const local = usePropertyStore.getState().getPropertyById(entry.propertyId) ?? remote;
+    // Re-merge against the current local copy so edits made since detection survive
+    const { merged, fields } = mergeProperty(entry.base ?? remote, local, remote);
+    const resolved = fields.reduce(
+      (result, field) => (choices[field.path] ?? 'local') === 'local'
+        ? setPath(result, field.path, field.local)
+        : result,
+      merged
+    );
+
+    this.applyLocal(resolved);
+    const changes = topLevelChanges(remote, resolved);
+    if (Object.keys(changes).length === 0) {
+      this.remove(entry);
+    } else {
+      this.save({ ...entry, conflict: undefined, changes, base: remote, baseRevision: remote.revision });
+    }
+    this.flush();
+  }
+
+  // Calls during a replay (e.g. the online event firing mid-flush) run
+  // another pass afterwards instead of being dropped
+  flush(): Promise<void> {
+    if (this.flushing) {
+      this.flushRequested = true;
+      return this.flushing;
+    }
+
+    this.flushing = (async () => {
+      do {
+        this.flushRequested = false;
+        await this.replay();
+      } while (this.flushRequested);
+    })().finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  private async replay() {
+    if (!navigator.onLine) {
+      useSyncStore.setState({ online: false });
+      return;
+    }
+
+    useSyncStore.setState({ online: true, syncing: true });
+    const attempted = new Set<string>();
+    let lastError: string | null = null;
+
+    // Entries queued while replaying are picked up too; conflicts wait for the user
+    let entry: SyncQueueEntry | undefined;
+    while ((entry = this.queue.find(candidate => !candidate.conflict && !attempted.has(candidate.id)))) {
+      attempted.add(entry.id);
+      this.inFlightId = entry.id;
+      try {
+        await this.push(entry);
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Sync failed';
+
+        // fetch rejects without a response when the connection drops
+        if (!(error instanceof ApiError) || error.status === 401 || error.status === 429 || error.status >= 500) {
+          console.warn('Sync paused, will retry:', error);
+          break;
+        }
+
+        // The server will never accept this change - drop it rather than block the queue
+        console.error('Dropping rejected change:', error);
+        this.remove(entry);
+      } finally {
+        this.inFlightId = null;
+      }
+    }
+
+    useSyncStore.setState(state => ({
+      syncing: false,
+      lastError,
+      lastSyncedAt: lastError ? state.lastSyncedAt : new Date()
+    }));
+  }
+
+  private async push(entry: SyncQueueEntry, retries = 1): Promise<void> {
+    const client = PropertyApiClient.getInstance();
+
+    switch (entry.action) {
+      case 'create': {
+        let saved: Property;
+        try {
+          saved = await client.createProperty(entry.property!);
+        } catch (error) {
+          // An earlier attempt landed but its response never made it back
+          if (!(error instanceof ApiError && error.status === 409)) throw error;
+          saved = await client.replaceProperty(entry.propertyId, entry.property!);
+        }
+        this.acknowledge(entry, saved);
+        return;
+      }
+
+      case 'update': {
+        try {
+          this.acknowledge(entry, await client.updateProperty(entry.propertyId, entry.changes ?? {}, entry.baseRevision));
+        } catch (error) {
+          if (!isRevisionConflict(error)) throw error;
+          const remote = (error.details as { property: Property }).property;
+          await this.handleConflict(entry, remote, retries);
+        }
+        return;
+      }
+
+      case 'delete': {
+        try {
+          await client.deleteProperty(entry.propertyId);
+        } catch (error) {
+          if (!(error instanceof ApiError && error.status === 404)) throw error;
+        }
+        this.remove(entry);
+      }
+    }
+  }
+
+  private async handleConflict(entry: SyncQueueEntry, remote: Property, retries: number) {
+    const local = usePropertyStore.getState().getPropertyById(entry.propertyId);
+    if (!local) {
+      this.remove(entry);
+      return;
+    }
+
+    const { merged, fields } = mergeProperty(entry.base ?? remote, local, remote);
+    if (fields.length > 0 || retries <= 0) {
+      this.save({ ...entry, conflict: { remote, merged, fields, detectedAt: new Date() } });
+      return;
+    }
+
+    // Nothing overlaps - take the server's changes and resend ours on top
+    this.applyLocal(merged);
+    const rebased = {
+      ...entry,
+      changes: topLevelChanges(remote, merged),
+      base: remote,
+      baseRevision: remote.revision
+    };
+    if (Object.keys(rebased.changes).length === 0) {
+      this.remove(entry);
+      return;
+    }
+    this.save(rebased);
+    await this.push(rebased, retries - 1);
+  }
+
+  // The server stored the entry - adopt its revision without touching
+  // fields edited locally in the meantime
+  private acknowledge(entry: SyncQueueEntry, saved: Property) {
+    this.remove(entry);
+    usePropertyStore.setState(state => ({
+      properties: state.properties.map(p =>
+        p.id === saved.id ? { ...p, revision: saved.revision, updatedAt: saved.updatedAt } : p
+      )
+    }));
+
+    // Edits queued while this one was in flight were made on top of it
+    this.queue
+      .filter(pending => pending.propertyId === saved.id && pending.action === 'update' && !pending.conflict)
+      .forEach(pending => this.save({ ...pending, baseRevision: saved.revision }));
+  }
+
+  private applyLocal(property: Property) {
+    usePropertyStore.setState(state => ({
+      properties: state.properties.map(p => (p.id === property.id ? property : p))
+    }));
+  }
+
+  private newEntry(action: SyncQueueEntry['action'], propertyId: string): SyncQueueEntry {
+    return {
+      id: `sync_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      action,
+      propertyId,
+      queuedAt: new Date()
+    };
+  }
+
+  private add(entry: SyncQueueEntry) {
+    this.queue.push(entry);
+    this.persist(entry);
+    this.publish();
+    this.flush();
+  }
+
+  private save(entry: SyncQueueEntry) {
+    this.queue = this.queue.map(existing => (existing.id === entry.id ? entry : existing));
+    this.persist(entry);
+    this.publish();
+  }
+
+  private remove(entry: SyncQueueEntry) {
+    this.queue = this.queue.filter(existing => existing.id !== entry.id);
+    if (isIndexedDBAvailable()) {
+      idbDelete('syncQueue', entry.id).catch(error => console.error('Failed to remove sync entry:', error));
+    }
+    this.publish();
+  }
+
+  // Without IndexedDB the queue still works, it just doesn't survive a reload
+  private persist(entry: SyncQueueEntry) {
+    if (!isIndexedDBAvailable()) return;
+    idbSet('syncQueue', entry.id, entry).catch(error => console.error('Failed to save sync entry:', error));
+  }
+
+  private async loadQueue() {
+    if (isIndexedDBAvailable()) {
+      try {
+        const entries = await idbGetAll<SyncQueueEntry>('syncQueue');
+        // Keep anything queued before the restore finished
+        this.queue = [...entries, ...this.queue.filter(entry => !entries.some(e => e.id === entry.id))]
+          .sort((a, b) => new Date(a.queuedAt).getTime() - new Date(b.queuedAt).getTime());
+      } catch (error) {
+        console.error('Failed to restore sync queue:', error);
+      }
+    }
+    this.publish();
+  }
+
+  private publish() {
+    useSyncStore.setState({ queue: [...this.queue] });
+  }
+}
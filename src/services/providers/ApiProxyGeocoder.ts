@@ -0,0 +1,27 @@
+import { fetchApi } from '@/utils/api';
+import type { GeolocationAddress, GeolocationCoordinates } from '@/types/geolocation';
+import type { GeocoderFactory } from './types';
+
+// Google Maps with MapBox fallback, resolved by /api/geocode where the keys live
+export const createApiProxyGeocoder: GeocoderFactory = () => ({
+  id: 'api-proxy',
+  geocode: async (address, options) => {
+    const response = await fetchApi<{ coordinates: GeolocationCoordinates }>(
+      `/api/geocode/forward?address=${encodeURIComponent(address)}`,
+      { signal: options?.signal }
+    );
+    return response.coordinates;
+  },
+  reverseGeocode: async (coordinates, options) => {
+    const params = new URLSearchParams({
+      lat: String(coordinates.latitude),
+      lng: String(coordinates.longitude),
+      accuracy: String(coordinates.accuracy)
+    });
+    const response = await fetchApi<{ address: GeolocationAddress }>(
+      `/api/geocode/reverse?${params}`,
+      { signal: options?.signal }
+    );
+    return response.address;
+  }
+});
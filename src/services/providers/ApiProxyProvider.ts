@@ -0,0 +1,24 @@
+import { fetchApi } from '@/utils/api';
+import type { DataCategory, DataCategoryMap, ProviderFactory } from './types';
+
+// Categories /api/data can answer (RealtyMole/Attom, Rentspree/Realtor,
+// Walk Score, the generic permit API and Attom sales history). Keys stay
+// server-side.
+const PROXY_CATEGORIES: DataCategory[] = ['tax', 'market', 'walkscore', 'permits', 'sales'];
+
+export const createApiProxyProvider: ProviderFactory = (category) => {
+  if (!PROXY_CATEGORIES.includes(category)) return null;
+
+  return {
+    id: 'api-proxy',
+    category,
+    fetch: async ({ address }, options) => {
+      const refresh = options?.forceRefresh ? '&refresh=true' : '';
+      const response = await fetchApi<{ data: DataCategoryMap[DataCategory] }>(
+        `/api/data/${category}?address=${encodeURIComponent(address)}${refresh}`,
+        { signal: options?.signal }
+      );
+      return response.data;
+    }
+  };
+};
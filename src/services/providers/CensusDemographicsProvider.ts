@@ -0,0 +1,183 @@
+import type { DemographicsData } from '@/types/publicData';
+import type { GeolocationCoordinates } from '@/types/geolocation';
+import type { ProviderFactory } from './types';
+import { NoProviderError, ProviderError } from './errors';
+
+// ACS 5-year detailed table variables
+const ACS_VARIABLES = {
+  medianIncome: 'B19013_001E',
+  medianAge: 'B01002_001E',
+  population: 'B01003_001E',
+  medianRent: 'B25064_001E',
+  occupiedHomes: 'B25003_001E',
+  renterHomes: 'B25003_003E',
+  laborForce: 'B23025_003E',
+  employed: 'B23025_004E',
+  // Educational attainment, population 25 and over
+  adults25: 'B15003_001E',
+  highSchool: 'B15003_017E',
+  ged: 'B15003_018E',
+  someCollegeUnder1: 'B15003_019E',
+  someCollege: 'B15003_020E',
+  associates: 'B15003_021E',
+  bachelors: 'B15003_022E',
+  masters: 'B15003_023E',
+  professional: 'B15003_024E',
+  doctorate: 'B15003_025E'
+} as const;
+
+type AcsValues = Record<keyof typeof ACS_VARIABLES, number>;
+
+export interface CensusTract {
+  // 11-digit GEOID: state (2) + county (3) + tract (6)
+  geoid: string;
+  state: string;
+  county: string;
+  tract: string;
+  // Square meters
+  landArea: number;
+}
+
+const SQUARE_METERS_PER_SQUARE_MILE = 2_589_988.11;
+const DEFAULT_YEAR = 2022;
+const GEOCODER_URL = 'https://geocoding.geo.census.gov';
+const ACS_URL = 'https://api.census.gov';
+
+// Parsed tract lookups and ACS rows by URL for the session, so neighbours in
+// the same tract cost nothing (results are also cached per address in
+// PublicDataCache). Only finished responses are kept: each caller fetches
+// with its own signal, so one caller's abort can't fail another's lookup.
+const responses = new Map<string, unknown>();
+
+async function fetchCensusJson(url: string, label: string, signal?: AbortSignal): Promise<unknown> {
+  if (responses.has(url)) return responses.get(url);
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new ProviderError(
+      `${label} failed: ${response.status} - ${response.statusText}`,
+      response.status === 429 || response.status >= 500
+    );
+  }
+  const data: unknown = await response.json();
+  responses.set(url, data);
+  return data;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function parseTractResponse(data: unknown): CensusTract | null {
+  const result = isObject(data) ? data.result : null;
+  const geographies = isObject(result) ? result.geographies : null;
+  const tracts = isObject(geographies) ? geographies['Census Tracts'] : null;
+  const tract: unknown = Array.isArray(tracts) ? tracts[0] : null;
+  if (!isObject(tract) || !tract.GEOID) return null;
+  return {
+    geoid: String(tract.GEOID),
+    state: String(tract.STATE),
+    county: String(tract.COUNTY),
+    tract: String(tract.TRACT),
+    landArea: Number(tract.AREALAND) || 0
+  };
+}
+
+// The API answers with a header row and one data row. Suppressed estimates
+// come back as large negative sentinels (e.g. -666666666).
+export function parseAcsResponse(data: unknown): AcsValues | null {
+  if (!Array.isArray(data) || data.length < 2) return null;
+  const [header, row] = data as string[][];
+  const values = {} as AcsValues;
+  (Object.keys(ACS_VARIABLES) as (keyof typeof ACS_VARIABLES)[]).forEach(key => {
+    const value = Number(row[header.indexOf(ACS_VARIABLES[key])]);
+    values[key] = Number.isFinite(value) && value >= 0 ? value : 0;
+  });
+  return values;
+}
+
+function share(part: number, whole: number): number | undefined {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 1000 : undefined;
+}
+
+export function toDemographics(values: AcsValues, tract: CensusTract, year: number): DemographicsData {
+  const graduate = values.masters + values.professional + values.doctorate;
+  const attainment: [string, number][] = [
+    ['Less than High School', values.adults25 - values.highSchool - values.ged - values.someCollegeUnder1 -
+      values.someCollege - values.associates - values.bachelors - graduate],
+    ['High School', values.highSchool + values.ged],
+    ['Some College', values.someCollegeUnder1 + values.someCollege + values.associates],
+    ["Bachelor's Degree", values.bachelors],
+    ['Graduate Degree', graduate]
+  ];
+  const educationLevel = values.adults25 > 0
+    ? attainment.reduce((best, level) => (level[1] > best[1] ? level : best))[0]
+    : 'Unknown';
+  const squareMiles = tract.landArea / SQUARE_METERS_PER_SQUARE_MILE;
+
+  return {
+    medianIncome: values.medianIncome,
+    medianAge: values.medianAge,
+    populationDensity: squareMiles > 0 ? Math.round(values.population / squareMiles) : 0,
+    educationLevel,
+    employmentRate: share(values.employed, values.laborForce) ?? 0,
+    population: values.population,
+    bachelorsOrHigher: share(values.bachelors + graduate, values.adults25),
+    renterShare: share(values.renterHomes, values.occupiedHomes),
+    medianRent: values.medianRent || undefined,
+    tract: tract.geoid,
+    year
+  };
+}
+
+// US Census Bureau ACS 5-year estimates for the property's census tract. The
+// geocoded point is matched to a tract with the Census geocoder, then the
+// tract's variables come from the ACS API. options.year picks the vintage,
+// options.apiKey lifts the keyless rate limit, and options.geocoderUrl /
+// options.apiUrl point at another host, e.g. one replaying fixtures/census.
+export const createCensusDemographicsProvider: ProviderFactory = (category, options) => {
+  if (category !== 'demographics') return null;
+  const year = typeof options.year === 'number' ? options.year : DEFAULT_YEAR;
+  const apiKey = typeof options.apiKey === 'string' ? options.apiKey : null;
+  const geocoderUrl = typeof options.geocoderUrl === 'string' ? options.geocoderUrl.replace(/\/$/, '') : GEOCODER_URL;
+  const apiUrl = typeof options.apiUrl === 'string' ? options.apiUrl.replace(/\/$/, '') : ACS_URL;
+
+  const findTract = async ({ latitude, longitude }: GeolocationCoordinates, signal?: AbortSignal) => {
+    const params = new URLSearchParams({
+      x: String(longitude),
+      y: String(latitude),
+      benchmark: 'Public_AR_Current',
+      vintage: 'Current_Current',
+      layers: 'Census Tracts',
+      format: 'json'
+    });
+    return parseTractResponse(
+      await fetchCensusJson(`${geocoderUrl}/geocoder/geographies/coordinates?${params}`, 'Census geocoder', signal)
+    );
+  };
+
+  return {
+    id: 'census',
+    category,
+    fetch: async (lookup, fetchOptions) => {
+      const signal = fetchOptions?.signal;
+      const tract = await findTract(await lookup.locate(), signal);
+      if (!tract) {
+        throw new NoProviderError(`${lookup.address} is not in a US census tract`);
+      }
+
+      const params = new URLSearchParams({
+        get: Object.values(ACS_VARIABLES).join(','),
+        for: `tract:${tract.tract}`,
+        in: `state:${tract.state} county:${tract.county}`
+      });
+      if (apiKey) params.set('key', apiKey);
+      const values = parseAcsResponse(
+        await fetchCensusJson(`${apiUrl}/data/${year}/acs/acs5?${params}`, 'Census ACS API', signal)
+      );
+      if (!values) {
+        throw new ProviderError(`No ACS ${year} estimates for tract ${tract.geoid}`);
+      }
+      return toDemographics(values, tract, year);
+    }
+  };
+};
@@ -0,0 +1,54 @@
+import type { GeolocationCoordinates } from '@/types/geolocation';
+import type { GeocoderFactory } from './types';
+import { NoProviderError, ProviderError } from './errors';
+
+const GEOCODER_URL = 'https://geocoding.geo.census.gov';
+const DEFAULT_BENCHMARK = 'Public_AR_Current';
+// Matches are interpolated along the TIGER/Line address range of the street
+const MATCH_ACCURACY_METERS = 50;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// First match of a /geocoder/locations/onelineaddress response, or null
+export function parseCensusAddressMatch(json: unknown): GeolocationCoordinates | null {
+  const result = isObject(json) ? json.result : null;
+  const matches = isObject(result) ? result.addressMatches : null;
+  const match: unknown = Array.isArray(matches) ? matches[0] : null;
+  const coordinates = isObject(match) && isObject(match.coordinates) ? match.coordinates : null;
+  const longitude = Number(coordinates?.x);
+  const latitude = Number(coordinates?.y);
+  if (!coordinates || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  return { latitude, longitude, accuracy: MATCH_ACCURACY_METERS };
+}
+
+// The Census Bureau's free geocoder - no key, US addresses only, forward only.
+// options.baseUrl points it at another host (e.g. one serving
+// fixtures/census/locations-onelineaddress.json); options.benchmark picks
+// the address-range release.
+export const createCensusGeocoder: GeocoderFactory = (options) => {
+  const baseUrl = typeof options.baseUrl === 'string' ? options.baseUrl.replace(/\/$/, '') : GEOCODER_URL;
+  const benchmark = typeof options.benchmark === 'string' ? options.benchmark : DEFAULT_BENCHMARK;
+
+  return {
+    id: 'census',
+    geocode: async (address, fetchOptions) => {
+      const params = new URLSearchParams({ address, benchmark, format: 'json' });
+      const response = await fetch(`${baseUrl}/geocoder/locations/onelineaddress?${params}`, {
+        signal: fetchOptions?.signal
+      });
+      if (!response.ok) {
+        throw new ProviderError(
+          `Census geocoder failed: ${response.status} - ${response.statusText}`,
+          response.status === 429 || response.status >= 500
+        );
+      }
+      const coordinates = parseCensusAddressMatch(await response.json());
+      if (!coordinates) {
+        throw new NoProviderError(`Census geocoder has no match for ${address}`);
+      }
+      return coordinates;
+    }
+  };
+};
@@ -0,0 +1,121 @@
+import { classifyOffense, crimeTrend, type OffenseLists } from '@/utils/crimeStats';
+import { haversineMiles, type GeoPoint } from '@/utils/geo';
+import type { CrimeData } from '@/types/publicData';
+import type { ProviderFactory } from './types';
+import { NoProviderError } from './errors';
+import { fileOption, loadRecordsFile } from './geoData';
+import { loadCityConfigs, matchesCity, type CityScoped } from './cityConfig';
+
+// One city's incident extract (CSV or JSON array). Column names differ per
+// city, so the config says which column holds what.
+export interface CrimeCityConfig extends CityScoped, OffenseLists {
+  files: string[];
+  fields: {
+    date: string;
+    offense: string;
+    latitude: string;
+    longitude: string;
+  };
+}
+
+interface Incident {
+  date: number;
+  offenseClass: ReturnType<typeof classifyOffense>;
+  location: GeoPoint;
+}
+
+const DEFAULT_MANIFEST = '/data/crime/index.json';
+const DEFAULT_RADIUS_MILES = 0.5;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+// Roughly one degree of latitude, to skip far-away incidents before haversine
+const MILES_PER_DEGREE = 69;
+
+// Parsed incidents per city config, so a city's extract is parsed once
+const parsed = new WeakMap<CrimeCityConfig, Promise<Incident[]>>();
+
+async function loadIncidents(config: CrimeCityConfig): Promise<Incident[]> {
+  const records = (await Promise.all(fileOption(config.files, []).map(loadRecordsFile))).flat();
+  const { fields } = config;
+  return records.flatMap(record => {
+    const date = new Date(String(record[fields.date] ?? '')).getTime();
+    const latitude = parseFloat(String(record[fields.latitude] ?? ''));
+    const longitude = parseFloat(String(record[fields.longitude] ?? ''));
+    // Feeds blank out the location of sensitive incidents
+    if (!Number.isFinite(date) || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return [];
+    return [{
+      date,
+      offenseClass: classifyOffense(String(record[fields.offense] ?? ''), config),
+      location: { latitude, longitude }
+    }];
+  });
+}
+
+function incidentsFor(config: CrimeCityConfig): Promise<Incident[]> {
+  let pending = parsed.get(config);
+  if (!pending) {
+    pending = loadIncidents(config);
+    parsed.set(config, pending);
+    pending.catch(() => parsed.delete(config));
+  }
+  return pending;
+}
+
+// Aggregates incident-level open data within options.radiusMiles (default
+// 0.5) of the property. Cities come from options.cities or the manifest at
+// options.manifest (default /data/crime/index.json). The year compared is
+// the twelve months up to the newest incident in the extract, so a stale
+// download still gives a full year. Rates per 1,000 residents are filled in
+// from census population once demographics are known (see crimeWithRates).
+export const createCrimeIncidentsProvider: ProviderFactory = (category, options) => {
+  if (category !== 'crime') return null;
+  const radiusMiles = typeof options.radiusMiles === 'number' ? options.radiusMiles : DEFAULT_RADIUS_MILES;
+
+  return {
+    id: 'crime-incidents',
+    category,
+    fetch: async (lookup): Promise<CrimeData> => {
+      const cities = await loadCityConfigs<CrimeCityConfig>(options, DEFAULT_MANIFEST);
+      const config = cities.find(city => matchesCity(city, lookup));
+      if (!config) {
+        throw new NoProviderError(`No crime incident data configured for ${lookup.city || lookup.address}`);
+      }
+
+      const [incidents, location] = await Promise.all([incidentsFor(config), lookup.locate()]);
+      if (incidents.length === 0) {
+        throw new NoProviderError(`The ${config.city} crime extract has no located incidents`);
+      }
+
+      const periodEnd = incidents.reduce((latest, incident) => Math.max(latest, incident.date), 0);
+      const yearStart = periodEnd - YEAR_MS;
+      const degrees = radiusMiles / MILES_PER_DEGREE;
+      const lngDegrees = degrees / Math.max(Math.cos((location.latitude * Math.PI) / 180), 0.01);
+
+      let violent = 0;
+      let property = 0;
+      let total = 0;
+      let previousYearTotal = 0;
+      for (const incident of incidents) {
+        if (incident.date <= yearStart - YEAR_MS) continue;
+        if (Math.abs(incident.location.latitude - location.latitude) > degrees ||
+            Math.abs(incident.location.longitude - location.longitude) > lngDegrees) continue;
+        if (haversineMiles(location, incident.location) > radiusMiles) continue;
+
+        if (incident.date <= yearStart) {
+          previousYearTotal++;
+          continue;
+        }
+        total++;
+        if (incident.offenseClass === 'violent') violent++;
+        if (incident.offenseClass === 'property') property++;
+      }
+
+      return {
+        crimeRate: 0,
+        violentCrimeRate: 0,
+        propertyCrimeRate: 0,
+        trend: crimeTrend(total, previousYearTotal),
+        incidents: { radiusMiles, periodEnd: new Date(periodEnd), violent, property, total, previousYearTotal }
+      };
+    }
+  };
+};
@@ -0,0 +1,58 @@
+import { findContaining } from '@/utils/geo';
+import { isSpecialFloodHazardZone } from '@/utils/floodZone';
+import type { FloodZoneData } from '@/types/publicData';
+import type { ProviderFactory } from './types';
+import { NoProviderError } from './errors';
+import { fileOption, loadPolygonLayers } from './geoData';
+
+// Attributes of the NFHL S_FLD_HAZ_AR (flood hazard area) layer
+interface NfhlProperties {
+  FLD_ZONE?: string;
+  ZONE_SUBTY?: string | null;
+  SFHA_TF?: string;
+  STATIC_BFE?: number | null;
+}
+
+const DEFAULT_FILES = ['/data/fema/nfhl.geojson'];
+
+// FEMA fills STATIC_BFE with -9999 where no elevation is mapped
+const NO_BFE = -9999;
+
+function toFloodZone(properties: NfhlProperties): FloodZoneData {
+  const zone = (properties.FLD_ZONE || '').trim();
+  const bfe = properties.STATIC_BFE;
+  return {
+    zone,
+    zoneSubtype: properties.ZONE_SUBTY?.trim() || undefined,
+    sfha: properties.SFHA_TF ? properties.SFHA_TF === 'T' : isSpecialFloodHazardZone(zone),
+    baseFloodElevation: typeof bfe === 'number' && bfe !== NO_BFE ? bfe : undefined
+  };
+}
+
+// Flood zone from local extracts of FEMA's National Flood Hazard Layer.
+// options.files lists GeoJSON files of S_FLD_HAZ_AR polygons (one per county
+// or state download); the geocoded property is tested against each polygon.
+export const createFemaFloodProvider: ProviderFactory = (category, options) => {
+  if (category !== 'flood') return null;
+  const files = fileOption(options.files, DEFAULT_FILES);
+
+  return {
+    id: 'fema-nfhl',
+    category,
+    fetch: async (lookup) => {
+      const [features, location] = await Promise.all([
+        loadPolygonLayers<NfhlProperties>(files),
+        lookup.locate()
+      ]);
+
+      const zones = findContaining(features, location)
+        .map(feature => toFloodZone(feature.properties))
+        .filter(flood => flood.zone);
+      if (zones.length === 0) {
+        throw new NoProviderError(`${lookup.address} is outside the loaded flood hazard maps`);
+      }
+      // Overlapping polygons happen at panel edges - report the riskier one
+      return zones.find(flood => flood.sfha) ?? zones[0];
+    }
+  };
+};
@@ -0,0 +1,44 @@
+import { normalizeAddress } from '@/utils/addressDetection';
+import { haversineMiles } from '@/utils/geo';
+import type { GeolocationAddress } from '@/types/geolocation';
+import type { GeocoderFactory } from './types';
+import { NoProviderError } from './errors';
+import fixtureJson from './fixtures/geocode.json';
+
+interface GeocodeFixtures {
+  // Keyed by normalizeAddress(address)
+  addresses: Record<string, GeolocationAddress>;
+  default?: GeolocationAddress;
+}
+
+const fixtures = fixtureJson as GeocodeFixtures;
+// Reverse lookups snap to a fixture address this close to the point
+const REVERSE_RADIUS_MILES = 0.25;
+
+// Canned locations so geocoding works offline and in tests, matching the
+// addresses in fixtures/public-data.json. Unknown addresses get the
+// "default" location unless options.fallbackToDefault is false.
+export const createFixtureGeocoder: GeocoderFactory = (options) => {
+  const fallbackToDefault = options.fallbackToDefault !== false;
+  const known = Object.values(fixtures.addresses);
+
+  return {
+    id: 'fixture',
+    geocode: async (address) => {
+      const match = fixtures.addresses[normalizeAddress(address)] ?? (fallbackToDefault ? fixtures.default : undefined);
+      if (!match) {
+        throw new NoProviderError(`No geocode fixture for ${address}`);
+      }
+      return match.coordinates;
+    },
+    reverseGeocode: async (coordinates) => {
+      const nearest = known
+        .map(address => ({ address, distance: haversineMiles(coordinates, address.coordinates) }))
+        .sort((a, b) => a.distance - b.distance)[0];
+      if (!nearest || nearest.distance > REVERSE_RADIUS_MILES) {
+        throw new NoProviderError(`No geocode fixture near ${coordinates.latitude}, ${coordinates.longitude}`);
+      }
+      return { ...nearest.address, coordinates };
+    }
+  };
+};
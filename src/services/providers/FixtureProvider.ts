@@ -0,0 +1,36 @@
+import { normalizeAddress } from '@/utils/addressDetection';
+import { parseWithDates } from '@/utils/serialization';
+import type { DataCategoryMap, ProviderFactory } from './types';
+import { ProviderError } from './errors';
+import fixtureJson from './fixtures/public-data.json';
+
+type FixtureRecord = Partial<DataCategoryMap>;
+
+interface PublicDataFixtures {
+  // Keyed by normalizeAddress(address)
+  addresses: Record<string, FixtureRecord>;
+  default?: FixtureRecord;
+}
+
+// Round-trip through the date reviver so fixture dates come back as Dates
+const fixtures = parseWithDates<PublicDataFixtures>(JSON.stringify(fixtureJson));
+
+// Canned public records so the app and tests run without network access.
+// Unknown addresses get the "default" record unless options.fallbackToDefault
+// is false, in which case the chain moves on to the next provider.
+export const createFixtureProvider: ProviderFactory = (category, options) => {
+  const fallbackToDefault = options.fallbackToDefault !== false;
+
+  return {
+    id: 'fixture',
+    category,
+    fetch: async ({ address }) => {
+      const record = fixtures.addresses[normalizeAddress(address)] ?? (fallbackToDefault ? fixtures.default : undefined);
+      const data = record?.[category];
+      if (data === undefined) {
+        throw new ProviderError(`No ${category} fixture for ${address}`);
+      }
+      return data;
+    }
+  };
+};
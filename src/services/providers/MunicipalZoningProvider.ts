@@ -0,0 +1,105 @@
+import { findContaining } from '@/utils/geo';
+import type { ZoningData, ZoningRules } from '@/types/publicData';
+import type { ProviderFactory } from './types';
+import { NoProviderError } from './errors';
+import { fileOption, loadPolygonLayers } from './geoData';
+import { loadCityConfigs, matchesCity } from './cityConfig';
+
+// One city's zoning district map. Column names differ per city, so the
+// config says which attribute holds what.
+export interface ZoningCityConfig {
+  city: string;
+  state?: string;
+  // GeoJSON district polygons
+  files: string[];
+  fields: {
+    code: string;
+    description?: string;
+    allowedUses?: string;
+    maxUnits?: string;
+    aduEligible?: string;
+  };
+  // Ordinance rules by district code, used where the map lacks the attribute.
+  // A key ending in '*' matches by prefix, e.g. 'RS-*'.
+  districts?: Record<string, ZoningRules>;
+}
+
+const DEFAULT_MANIFEST = '/data/zoning/index.json';
+
+function districtRules(config: ZoningCityConfig, code: string): ZoningRules {
+  const districts = config.districts ?? {};
+  if (districts[code]) return districts[code];
+
+  // Longest matching prefix wins so 'RS-3*' beats 'RS-*'
+  const prefix = Object.keys(districts)
+    .filter(key => key.endsWith('*') && code.startsWith(key.slice(0, -1)))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? districts[prefix] : {};
+}
+
+function readList(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string' && value.trim()) {
+    return value.split(/[;,]/).map(item => item.trim()).filter(Boolean);
+  }
+  return undefined;
+}
+
+function readNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function readFlag(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'string' && value.trim()) return /^(y|yes|t|true|1)$/i.test(value.trim());
+  return undefined;
+}
+
+function toZoning(config: ZoningCityConfig, attributes: Record<string, unknown>): ZoningData {
+  const { fields } = config;
+  const code = String(attributes[fields.code] ?? '').trim();
+  const rules = districtRules(config, code);
+  const attribute = (field?: string) => (field ? attributes[field] : undefined);
+
+  const description = attribute(fields.description);
+  return {
+    code,
+    description: typeof description === 'string' && description.trim() ? description.trim() : rules.description,
+    allowedUses: readList(attribute(fields.allowedUses)) ?? rules.allowedUses,
+    maxUnits: readNumber(attribute(fields.maxUnits)) ?? rules.maxUnits,
+    aduEligible: readFlag(attribute(fields.aduEligible)) ?? rules.aduEligible,
+    jurisdiction: config.city
+  };
+}
+
+// Zoning district from municipal GIS layers. Cities come from options.cities,
+// or the manifest at options.manifest (default /data/zoning/index.json).
+export const createMunicipalZoningProvider: ProviderFactory = (category, options) => {
+  if (category !== 'zoning') return null;
+
+  return {
+    id: 'municipal-zoning',
+    category,
+    fetch: async (lookup) => {
+      const cities = await loadCityConfigs<ZoningCityConfig>(options, DEFAULT_MANIFEST);
+      const config = cities.find(city => matchesCity(city, lookup));
+      if (!config) {
+        throw new NoProviderError(`No zoning map configured for ${lookup.city || lookup.address}`);
+      }
+
+      const [features, location] = await Promise.all([
+        loadPolygonLayers<Record<string, unknown>>(fileOption(config.files, [])),
+        lookup.locate()
+      ]);
+      const district = findContaining(features, location)
+        .map(feature => toZoning(config, feature.properties))
+        .find(zoning => zoning.code);
+      if (!district) {
+        throw new NoProviderError(`${lookup.address} is outside the ${config.city} zoning map`);
+      }
+      return district;
+    }
+  };
+};
@@ -0,0 +1,143 @@
+import { findContaining, haversineMiles, type GeoPoint, type PointFeature } from '@/utils/geo';
+import type { SchoolData } from '@/types/publicData';
+import type { ProviderFactory } from './types';
+import { NoProviderError } from './errors';
+import { fileOption, loadJsonFile, loadPointLayers, loadPolygonLayers } from './geoData';
+
+type SchoolLevel = SchoolData['type'];
+type Attributes = Record<string, unknown>;
+
+const LEVELS: SchoolLevel[] = ['elementary', 'middle', 'high'];
+
+// Column names in the NCES EDGE school locations joined with the CCD
+// directory, and in the School Attendance Boundary Survey (SABS) zones
+const DEFAULT_FIELDS = {
+  id: 'NCESSCH',
+  name: 'SCH_NAME',
+  level: 'LEVEL',
+  lowGrade: 'GSLO',
+  highGrade: 'GSHI',
+  enrollment: 'MEMBER'
+};
+const DEFAULT_ZONE_FIELDS = { school: 'ncessch', level: 'level' };
+
+const DEFAULT_DIRECTORY = '/data/schools/nces-schools.geojson';
+const DEFAULT_RADIUS_MILES = 10;
+
+function text(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+// 'PK' and 'KG' come before grade 1
+function gradeNumber(value: unknown): number | undefined {
+  const grade = text(value).toUpperCase();
+  if (grade === 'PK' || grade === 'KG' || grade === 'K') return 0;
+  const parsed = parseInt(grade, 10);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// Levels from the grade span, so a K-8 counts as elementary and middle,
+// falling back to a LEVEL code or name (CCD uses names, SABS uses 1-3)
+function schoolLevels(attributes: Attributes, fields: typeof DEFAULT_FIELDS): SchoolLevel[] {
+  const low = gradeNumber(attributes[fields.lowGrade]);
+  const high = gradeNumber(attributes[fields.highGrade]);
+  if (low !== undefined && high !== undefined) {
+    return LEVELS.filter(level =>
+      level === 'elementary' ? low <= 5 :
+      level === 'middle' ? low <= 8 && high >= 6 :
+      high >= 9
+    );
+  }
+  return levelFromCode(attributes[fields.level]);
+}
+
+function levelFromCode(value: unknown): SchoolLevel[] {
+  const level = text(value).toLowerCase();
+  if (level === '1' || level.startsWith('elem') || level.startsWith('prim')) return ['elementary'];
+  if (level === '2' || level.startsWith('mid')) return ['middle'];
+  if (level === '3' || level.startsWith('high')) return ['high'];
+  return [];
+}
+
+interface School {
+  id: string;
+  name: string;
+  levels: SchoolLevel[];
+  enrollment: number;
+  location: GeoPoint;
+}
+
+function toSchool(feature: PointFeature<Attributes>, fields: typeof DEFAULT_FIELDS): School {
+  const { properties } = feature;
+  return {
+    id: text(properties[fields.id]),
+    name: text(properties[fields.name]),
+    levels: schoolLevels(properties, fields),
+    enrollment: Number(properties[fields.enrollment]) > 0 ? Number(properties[fields.enrollment]) : 0,
+    location: feature.location
+  };
+}
+
+// Assigned or nearest elementary, middle and high school from local NCES
+// extracts: the school directory (options.directory), optional attendance
+// zone polygons (options.zones) and optional ratings keyed by NCES id
+// (options.ratings, a JSON object of id -> 1-10). Schools further than
+// options.radiusMiles aren't considered nearby.
+export const createNcesSchoolsProvider: ProviderFactory = (category, options) => {
+  if (category !== 'schools') return null;
+  const directory = fileOption(options.directory, [DEFAULT_DIRECTORY]);
+  const zones = fileOption(options.zones, []);
+  const ratingsUrl = typeof options.ratings === 'string' ? options.ratings : null;
+  const radiusMiles = typeof options.radiusMiles === 'number' ? options.radiusMiles : DEFAULT_RADIUS_MILES;
+  const fields = { ...DEFAULT_FIELDS, ...(options.fields as Partial<typeof DEFAULT_FIELDS> | undefined) };
+  const zoneFields = { ...DEFAULT_ZONE_FIELDS, ...(options.zoneFields as Partial<typeof DEFAULT_ZONE_FIELDS> | undefined) };
+
+  return {
+    id: 'nces-schools',
+    category,
+    fetch: async (lookup) => {
+      const [features, zoneFeatures, ratings, location] = await Promise.all([
+        loadPointLayers<Attributes>(directory),
+        loadPolygonLayers<Attributes>(zones),
+        ratingsUrl ? loadJsonFile<Record<string, number>>(ratingsUrl) : Promise.resolve<Record<string, number>>({}),
+        lookup.locate()
+      ]);
+      const schools = features.map(feature => toSchool(feature, fields)).filter(school => school.id || school.name);
+      const byId = new Map(schools.map(school => [school.id, school]));
+      const zonesHere = findContaining(zoneFeatures, location).map(zone => {
+        const school = byId.get(text(zone.properties[zoneFields.school]));
+        const coded = levelFromCode(zone.properties[zoneFields.level]);
+        return { school, levels: coded.length > 0 ? coded : school?.levels ?? [] };
+      });
+
+      const results = LEVELS.flatMap((level): SchoolData[] => {
+        // An attendance zone beats distance - the nearest school is often not the one you're zoned for
+        const assigned = zonesHere.find(zone => zone.school && zone.levels.includes(level))?.school;
+
+        const nearest = assigned ? undefined : schools
+          .filter(school => school.levels.includes(level))
+          .map(school => ({ school, distance: haversineMiles(location, school.location) }))
+          .filter(({ distance }) => distance <= radiusMiles)
+          .sort((a, b) => a.distance - b.distance)[0]?.school;
+
+        const school = assigned ?? nearest;
+        if (!school) return [];
+        const rating = Number(ratings[school.id]);
+        return [{
+          id: school.id,
+          name: school.name,
+          type: level,
+          rating: Number.isFinite(rating) && rating > 0 ? rating : undefined,
+          distance: haversineMiles(location, school.location),
+          enrollment: school.enrollment,
+          assigned: Boolean(assigned)
+        }];
+      });
+
+      if (results.length === 0) {
+        throw new NoProviderError(`No schools within ${radiusMiles} miles of ${lookup.address} in the loaded directory`);
+      }
+      return results;
+    }
+  };
+};
@@ -0,0 +1,184 @@
+import type {
+  DataCategory,
+  DataCategoryMap,
+  DataProvider,
+  ProviderConfig,
+  ProviderConfigEntry,
+  ProviderFactory,
+  ProviderLookup,
+  ProviderResult,
+  ResolveOptions
+} from './types';
+import { createApiProxyProvider } from './ApiProxyProvider';
+import { createSocrataProvider } from './SocrataProvider';
+import { createCensusDemographicsProvider } from './CensusDemographicsProvider';
+import { createFixtureProvider } from './FixtureProvider';
+import { createFemaFloodProvider } from './FemaFloodProvider';
+import { createMunicipalZoningProvider } from './MunicipalZoningProvider';
+import { createNcesSchoolsProvider } from './NcesSchoolsProvider';
+import { createCrimeIncidentsProvider } from './CrimeIncidentsProvider';
+import { NoProviderError, describeFailure, isTransient } from './errors';
+import { RetryError, retryWithBackoff, withTimeout } from '@/utils/retry';
+import { GeolocationService } from '@/services/GeolocationService';
+import type { GeolocationCoordinates } from '@/types/geolocation';
+
+// Chains used when VITE_DATA_PROVIDERS doesn't mention a category. Categories
+// without providers fail with "No ... provider configured".
+const DEFAULT_PROVIDER_CONFIG: ProviderConfig = {
+  tax: ['api-proxy'],
+  market: ['api-proxy'],
+  walkscore: ['api-proxy'],
+  permits: ['socrata', 'api-proxy'],
+  violations: ['socrata'],
+  sales: ['api-proxy'],
+  demographics: ['census'],
+  flood: ['fema-nfhl'],
+  zoning: ['municipal-zoning'],
+  schools: ['nces-schools'],
+  crime: ['crime-incidents']
+};
+
+export const DEFAULT_PROVIDER_TIMEOUT_MS = 8000;
+export const DEFAULT_PROVIDER_RETRIES = 2;
+// First retry waits this long, then 2x, 4x...
+const RETRY_BASE_DELAY_MS = 500;
+
+interface ConfiguredProvider {
+  provider: DataProvider;
+  timeoutMs: number;
+  retries: number;
+}
+
+function readEnvConfig(): ProviderConfig {
+  const raw = import.meta.env.VITE_DATA_PROVIDERS;
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as ProviderConfig;
+  } catch (error) {
+    console.error('Ignoring invalid VITE_DATA_PROVIDERS:', error);
+    return {};
+  }
+}
+
+function toLookup(address: string, locate?: () => Promise<GeolocationCoordinates>): ProviderLookup {
+  const parts = address.split(',').map(p => p.trim());
+  let located: Promise<GeolocationCoordinates> | null = null;
+  return {
+    address,
+    street: parts[0] || '',
+    city: parts[1] || '',
+    state: parts[2] || '',
+    zip: parts[3] || '',
+    locate: locate ?? (() => located ??= GeolocationService.getInstance().geocode(address))
+  };
+}
+
+// Maps each data category to an ordered chain of providers. resolve() asks
+// them in priority order and returns the first answer, so a failing or
+// unconfigured vendor falls through to the next one. Each call is bounded by
+// a timeout and transient failures are retried with exponential backoff.
+export class ProviderRegistry {
+  private static instance: ProviderRegistry;
+  private factories = new Map<string, ProviderFactory>();
+  private overrides: ProviderConfig;
+  private chains = new Map<DataCategory, ConfiguredProvider[]>();
+
+  static getInstance(): ProviderRegistry {
+    if (!ProviderRegistry.instance) {
+      ProviderRegistry.instance = new ProviderRegistry();
+    }
+    return ProviderRegistry.instance;
+  }
+
+  private constructor() {
+    this.registerFactory('api-proxy', createApiProxyProvider);
+    this.registerFactory('socrata', createSocrataProvider);
+    this.registerFactory('census', createCensusDemographicsProvider);
+    this.registerFactory('fema-nfhl', createFemaFloodProvider);
+    this.registerFactory('municipal-zoning', createMunicipalZoningProvider);
+    this.registerFactory('nces-schools', createNcesSchoolsProvider);
+    this.registerFactory('crime-incidents', createCrimeIncidentsProvider);
+    this.registerFactory('fixture', createFixtureProvider);
+    this.overrides = readEnvConfig();
+  }
+
+  registerFactory(id: string, factory: ProviderFactory) {
+    this.factories.set(id, factory);
+    this.chains.clear();
+  }
+
+  // Replace the env-provided overrides (e.g. to force fixtures in tests)
+  configure(config: ProviderConfig) {
+    this.overrides = config;
+    this.chains.clear();
+  }
+
+  private getChain(category: DataCategory): ConfiguredProvider[] {
+    const cached = this.chains.get(category);
+    if (cached) return cached;
+
+    const entries = this.overrides[category] ?? this.overrides['*'] ?? DEFAULT_PROVIDER_CONFIG[category] ?? [];
+    const providers = entries
+      .map((entry: ProviderConfigEntry, index) => {
+        const normalized = typeof entry === 'string' ? { provider: entry } : entry;
+        return { ...normalized, priority: normalized.priority ?? -index };
+      })
+      .filter(entry => entry.enabled !== false)
+      .sort((a, b) => b.priority - a.priority)
+      .map(entry => {
+        const factory = this.factories.get(entry.provider);
+        if (!factory) {
+          console.warn(`Unknown data provider "${entry.provider}" configured for ${category}`);
+          return null;
+        }
+        const provider = factory(category, entry.options ?? {});
+        if (!provider) {
+          console.warn(`Data provider "${entry.provider}" does not support ${category}`);
+          return null;
+        }
+        return {
+          provider,
+          timeoutMs: entry.timeoutMs ?? DEFAULT_PROVIDER_TIMEOUT_MS,
+          retries: entry.retries ?? DEFAULT_PROVIDER_RETRIES
+        };
+      })
+      .filter((configured): configured is ConfiguredProvider => configured !== null);
+
+    this.chains.set(category, providers);
+    return providers;
+  }
+
+  async resolve<C extends DataCategory>(
+    category: C,
+    address: string,
+    options: ResolveOptions = {}
+  ): Promise<ProviderResult<C>> {
+    const { locate, ...fetchOptions } = options;
+    const lookup = toLookup(address, locate);
+    const chain = this.getChain(category).filter(({ provider }) => !provider.supports || provider.supports(lookup));
+    if (chain.length === 0) {
+      throw new NoProviderError(`No ${category} provider configured for ${address}`);
+    }
+
+    const failures: string[] = [];
+    let uncovered = 0;
+    for (const { provider, timeoutMs, retries } of chain) {
+      try {
+        const data = await retryWithBackoff(
+          () => withTimeout(signal => provider.fetch(lookup, { ...fetchOptions, signal }), timeoutMs),
+          { retries, baseDelayMs: RETRY_BASE_DELAY_MS, shouldRetry: isTransient }
+        ) as DataCategoryMap[C];
+        return { data, providerId: provider.id };
+      } catch (error) {
+        const cause = error instanceof RetryError ? error.lastError : error;
+        if (cause instanceof NoProviderError) uncovered++;
+        failures.push(`${provider.id}: ${describeFailure(error)}`);
+      }
+    }
+    // Nothing went wrong - the data just doesn't cover this address
+    if (uncovered === chain.length) {
+      throw new NoProviderError(`No ${category} data for ${address} - ${failures.join('; ')}`);
+    }
+    throw new Error(`All ${category} providers failed - ${failures.join('; ')}`);
+  }
+}
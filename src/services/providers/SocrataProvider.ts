@@ -0,0 +1,190 @@
+import { parseStreetLine, type StreetParts } from '@/utils/addressDetection';
+import { normalizeViolationStatus } from '@/utils/violations';
+import type { DataCategoryMap, ProviderFactory } from './types';
+import { ProviderError } from './errors';
+import { matchesCity } from './cityConfig';
+import datasetsJson from './socrata-datasets.json';
+
+// Categories a Socrata dataset can answer, and how each record field is read
+type SocrataCategory = 'permits' | 'violations';
+type SocrataRecord<C extends SocrataCategory> = DataCategoryMap[C][number];
+// 'status' reduces the portal's wording to open/closed/unknown
+type FieldType = 'string' | 'number' | 'date' | 'optional' | 'optionalNumber' | 'status';
+
+const FIELD_TYPES: { [C in SocrataCategory]: Record<keyof SocrataRecord<C>, FieldType> } = {
+  permits: {
+    permitNumber: 'string',
+    type: 'string',
+    description: 'string',
+    value: 'number',
+    issueDate: 'date',
+    status: 'string',
+    contractor: 'optional'
+  },
+  violations: {
+    violationId: 'string',
+    type: 'string',
+    description: 'string',
+    issueDate: 'date',
+    status: 'status',
+    statusDetail: 'optional',
+    fine: 'optionalNumber'
+  }
+};
+
+// One open-data table. Address parts are matched against the columns named
+// in `address`; `fields` maps record fields to dataset columns.
+export interface SocrataDatasetConfig {
+  id: string;
+  category: SocrataCategory;
+  city: string;
+  state?: string;
+  // e.g. 'data.cityofchicago.org'
+  domain: string;
+  // The dataset's 4x4 id, e.g. 'ydr8-5enu'
+  dataset: string;
+  address: {
+    number: string;
+    // Set when the house number column is numeric rather than text
+    numberType?: 'text' | 'number';
+    direction?: string;
+    name: string;
+    // 'contains' for datasets that keep the whole street in one column
+    nameMatch?: 'exact' | 'contains';
+    suffix?: string;
+  };
+  fields: Record<string, string>;
+  // Column to sort newest first
+  orderBy?: string;
+  limit?: number;
+  // Status values meaning a violation is resolved, when the default
+  // guess (CLOSED, COMPLIED, RESOLVED...) gets it wrong
+  closedStatuses?: string[];
+}
+
+// JSON imports widen literals to string, so go through unknown
+const BUILT_IN_DATASETS = datasetsJson.datasets as unknown as SocrataDatasetConfig[];
+const DEFAULT_LIMIT = 50;
+
+function soqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+export function buildSocrataWhere(config: SocrataDatasetConfig, street: StreetParts): string {
+  const { address } = config;
+  const clauses = [
+    address.numberType === 'number' && /^\d+$/.test(street.number)
+      ? `${address.number}=${street.number}`
+      : `upper(${address.number})=${soqlString(street.number.toUpperCase())}`
+  ];
+  if (address.nameMatch === 'contains') {
+    clauses.push(`upper(${address.name}) like ${soqlString(`%${street.name}%`)}`);
+  } else {
+    clauses.push(`upper(${address.name})=${soqlString(street.name)}`);
+  }
+  // Only narrow on parts the address actually has
+  if (address.direction && street.direction) {
+    clauses.push(`upper(${address.direction})=${soqlString(street.direction)}`);
+  }
+  if (address.suffix && street.suffix) {
+    clauses.push(`upper(${address.suffix})=${soqlString(street.suffix)}`);
+  }
+  return clauses.join(' AND ');
+}
+
+function readField(config: SocrataDatasetConfig, value: unknown, type: FieldType): string | number | Date | undefined {
+  const text = value === null || value === undefined ? '' : String(value).trim();
+  switch (type) {
+    case 'number':
+      return parseFloat(text.replace(/[$,]/g, '')) || 0;
+    case 'optionalNumber': {
+      const parsed = parseFloat(text.replace(/[$,]/g, ''));
+      return Number.isFinite(parsed) ? parsed : undefined;
+    }
+    case 'date': {
+      // Some NYC datasets store dates as YYYYMMDD; blank cells stay unset
+      const date = new Date(/^\d{8}$/.test(text) ? `${text.slice(0, 4)}-${text.slice(4, 6)}-${text.slice(6)}` : text);
+      return isNaN(date.getTime()) ? undefined : date;
+    }
+    case 'status':
+      return normalizeViolationStatus(text, config.closedStatuses);
+    case 'optional':
+      return text || undefined;
+    default:
+      return text;
+  }
+}
+
+// Turn raw SODA rows into records using the dataset's column mapping
+export function parseSocrataRows<C extends SocrataCategory>(
+  config: SocrataDatasetConfig & { category: C },
+  rows: unknown
+): SocrataRecord<C>[] {
+  if (!Array.isArray(rows)) return [];
+  const types = FIELD_TYPES[config.category] as Record<string, FieldType>;
+  return rows.map(row => {
+    const record: Record<string, unknown> = {};
+    for (const [field, type] of Object.entries(types)) {
+      const column = config.fields[field];
+      record[field] = readField(config, column ? row?.[column] : undefined, type);
+    }
+    return record as unknown as SocrataRecord<C>;
+  });
+}
+
+// Queries city open-data portals for permits and code violations through
+// the SODA API. Everything city-specific lives in socrata-datasets.json;
+// options.datasets adds datasets or replaces built-in ones with the same id.
+// options.baseUrl points every query at one host, e.g. a server replaying
+// the recorded responses in fixtures/socrata.
+export const createSocrataProvider: ProviderFactory = (category, options) => {
+  const extra = Array.isArray(options.datasets) ? options.datasets as SocrataDatasetConfig[] : [];
+  const datasets = [
+    ...BUILT_IN_DATASETS.filter(builtIn => !extra.some(config => config.id === builtIn.id)),
+    ...extra
+  ].filter(config => config.category === category);
+  if (datasets.length === 0) return null;
+
+  const baseUrl = typeof options.baseUrl === 'string' ? options.baseUrl.replace(/\/$/, '') : null;
+  const appToken = typeof options.appToken === 'string' ? options.appToken : null;
+  const limit = typeof options.limit === 'number' ? options.limit : undefined;
+
+  const query = async (config: SocrataDatasetConfig, street: StreetParts, signal?: AbortSignal) => {
+    const params = new URLSearchParams({
+      $where: buildSocrataWhere(config, street),
+      $limit: String(limit ?? config.limit ?? DEFAULT_LIMIT)
+    });
+    if (config.orderBy) params.set('$order', `${config.orderBy} DESC`);
+
+    const host = baseUrl ?? `https://${config.domain}`;
+    const response = await fetch(`${host}/resource/${config.dataset}.json?${params}`, {
+      signal,
+      headers: appToken ? { 'X-App-Token': appToken } : undefined
+    });
+    if (!response.ok) {
+      throw new ProviderError(
+        `${config.id} (${config.domain}) failed: ${response.status} - ${response.statusText}`,
+        response.status === 429 || response.status >= 500
+      );
+    }
+    return parseSocrataRows(config, await response.json());
+  };
+
+  return {
+    id: 'socrata',
+    category,
+    supports: (lookup) => datasets.some(config => matchesCity(config, lookup)) && parseStreetLine(lookup.street) !== null,
+    fetch: async (lookup, fetchOptions) => {
+      const street = parseStreetLine(lookup.street);
+      if (!street) {
+        throw new ProviderError(`Can't read a house number and street from "${lookup.street}"`);
+      }
+      const results = await Promise.all(
+        datasets
+          .filter(config => matchesCity(config, lookup))
+          .map(config => query(config, street, fetchOptions?.signal))
+      );
+      return results.flat() as DataCategoryMap[typeof category];
+    }
+  };
+};
@@ -0,0 +1,149 @@
+import {
+  houseNumberAt, parseAddressQuery, parseAddressRangeRecord, rangeFraction, scoreRangeMatch, streetKey,
+  type AddressRangeSegment, type RangeSide
+} from '@/utils/addressRanges';
+import { pointAlongLine, projectOntoLine, type BoundingBox } from '@/utils/geo';
+import type { GeocoderFactory, ProviderOptions } from './types';
+import { NoProviderError, ProviderError } from './errors';
+import { fileOption, loadJsonFile, loadLineLayers } from './geoData';
+
+// One county's ADDRFEAT extracts. TIGER/Line has no city names, so reverse
+// lookups come back with the street, state and ZIP only.
+export interface TigerCountyConfig {
+  fips?: string;
+  name?: string;
+  state: string;
+  files: string[];
+}
+
+interface IndexedSegment extends AddressRangeSegment {
+  line: number[][];
+  bbox: BoundingBox;
+}
+
+interface CountyIndex {
+  config: TigerCountyConfig;
+  segments: IndexedSegment[];
+  byStreet: Map<string, IndexedSegment[]>;
+}
+
+const DEFAULT_MANIFEST = '/data/tiger/index.json';
+const DEFAULT_MIN_SCORE = 0.6;
+const DEFAULT_REVERSE_RADIUS_MILES = 0.1;
+// Same as the Census geocoder, which interpolates the same ranges
+const MATCH_ACCURACY_METERS = 50;
+// Roughly one degree of latitude, to skip far-away streets before projecting.
+// Degrees of longitude are shorter, so that margin is doubled.
+const MILES_PER_DEGREE = 69;
+const SIDES: RangeSide[] = ['left', 'right'];
+
+// Parsed counties per config, so a county's extract is indexed once
+const indexed = new WeakMap<TigerCountyConfig, Promise<CountyIndex>>();
+
+async function indexCounty(config: TigerCountyConfig): Promise<CountyIndex> {
+  const features = await loadLineLayers<Record<string, unknown>>(fileOption(config.files, []));
+  const segments = features.flatMap(({ properties, line, bbox }) => {
+    const segment = parseAddressRangeRecord(properties);
+    return segment ? [{ ...segment, line, bbox }] : [];
+  });
+  const byStreet = new Map<string, IndexedSegment[]>();
+  segments.forEach(segment => {
+    const key = streetKey(segment.street.name);
+    byStreet.set(key, [...(byStreet.get(key) ?? []), segment]);
+  });
+  return { config, segments, byStreet };
+}
+
+function countyIndex(config: TigerCountyConfig): Promise<CountyIndex> {
+  let pending = indexed.get(config);
+  if (!pending) {
+    pending = indexCounty(config);
+    indexed.set(config, pending);
+    pending.catch(() => indexed.delete(config));
+  }
+  return pending;
+}
+
+// Counties from options.counties, or the { counties: [...] } manifest at
+// options.manifest
+async function loadCounties(options: ProviderOptions): Promise<TigerCountyConfig[]> {
+  if (Array.isArray(options.counties)) return options.counties as TigerCountyConfig[];
+  const manifestUrl = typeof options.manifest === 'string' ? options.manifest : DEFAULT_MANIFEST;
+  const manifest = await loadJsonFile<{ counties?: TigerCountyConfig[] }>(manifestUrl);
+  if (!Array.isArray(manifest?.counties)) {
+    throw new ProviderError(`${manifestUrl} has no counties list`);
+  }
+  return manifest.counties;
+}
+
+// Offline geocoding from Census TIGER/Line address ranges. Addresses are
+// placed by interpolating the house number along the matching street edge,
+// and come back with a match score (see scoreRangeMatch); matches below
+// options.minScore (default 0.6) count as not found. Reverse lookups snap
+// to the nearest edge within options.reverseRadiusMiles (default 0.1).
+// Counties come from options.counties or the manifest at options.manifest
+// (default /data/tiger/index.json).
+export const createTigerGeocoder: GeocoderFactory = (options) => {
+  const minScore = typeof options.minScore === 'number' ? options.minScore : DEFAULT_MIN_SCORE;
+  const reverseRadiusMiles = typeof options.reverseRadiusMiles === 'number'
+    ? options.reverseRadiusMiles
+    : DEFAULT_REVERSE_RADIUS_MILES;
+
+  return {
+    id: 'tiger',
+    geocode: async (address) => {
+      const query = parseAddressQuery(address);
+      if (!query) {
+        throw new NoProviderError(`${address} has no house number to look up`);
+      }
+      const counties = (await loadCounties(options))
+        .filter(county => !query.state || county.state.trim().toUpperCase() === query.state);
+      const indexes = await Promise.all(counties.map(countyIndex));
+
+      const best = indexes
+        .flatMap(index => index.byStreet.get(streetKey(query.street.name)) ?? [])
+        .flatMap(segment => SIDES.flatMap(side => {
+          const range = segment[side];
+          const fraction = range ? rangeFraction(range, query.number) : null;
+          return fraction === null ? [] : [{ segment, fraction, score: scoreRangeMatch(query, segment, side) }];
+        }))
+        .sort((a, b) => b.score - a.score)[0];
+      if (!best || best.score < minScore) {
+        throw new NoProviderError(`No TIGER/Line address range matches ${address}`);
+      }
+
+      const point = pointAlongLine(best.segment.line, best.fraction);
+      return { ...point, accuracy: MATCH_ACCURACY_METERS, score: best.score };
+    },
+    reverseGeocode: async (coordinates) => {
+      const margin = reverseRadiusMiles / MILES_PER_DEGREE;
+      const { latitude: lat, longitude: lng } = coordinates;
+      const indexes = await Promise.all((await loadCounties(options)).map(countyIndex));
+
+      const nearest = indexes
+        .flatMap(index => index.segments
+          .filter(({ bbox }) => lng >= bbox[0] - margin * 2 && lng <= bbox[2] + margin * 2 &&
+            lat >= bbox[1] - margin && lat <= bbox[3] + margin)
+          .map(segment => ({ county: index.config, segment, projection: projectOntoLine(segment.line, coordinates) })))
+        .filter(({ projection }) => projection.distanceMiles <= reverseRadiusMiles)
+        .sort((a, b) => a.projection.distanceMiles - b.projection.distanceMiles)[0];
+      if (!nearest) {
+        throw new NoProviderError(`No TIGER/Line street near ${lat}, ${lng}`);
+      }
+
+      // The side the point is on, or the other one if that side has no addresses
+      const { county, segment, projection } = nearest;
+      const range = segment[projection.side] ?? segment[projection.side === 'left' ? 'right' : 'left']!;
+      const street = `${houseNumberAt(range, projection.fraction)} ${segment.fullName}`;
+      const state = county.state.trim().toUpperCase();
+      return {
+        street,
+        city: '',
+        state,
+        zip: range.zip ?? '',
+        formatted: `${street}, ${[state, range.zip].filter(Boolean).join(' ')}`,
+        coordinates
+      };
+    }
+  };
+};
@@ -0,0 +1,29 @@
+import type { ProviderLookup, ProviderOptions } from './types';
+import { ProviderError } from './errors';
+import { loadJsonFile } from './geoData';
+
+// Per-city entries in provider configs (zoning maps, Socrata datasets,
+// crime extracts)
+export interface CityScoped {
+  city: string;
+  state?: string;
+}
+
+// Matched on city name, and on state when both sides have one
+export function matchesCity(config: CityScoped, lookup: ProviderLookup): boolean {
+  const state = lookup.state.trim().toUpperCase();
+  return config.city.trim().toLowerCase() === lookup.city.trim().toLowerCase() &&
+    (!config.state || !state || config.state.trim().toUpperCase() === state);
+}
+
+// City configs from options.cities, or the { cities: [...] } manifest at
+// options.manifest
+export async function loadCityConfigs<T extends CityScoped>(options: ProviderOptions, defaultManifest: string): Promise<T[]> {
+  if (Array.isArray(options.cities)) return options.cities as T[];
+  const manifestUrl = typeof options.manifest === 'string' ? options.manifest : defaultManifest;
+  const manifest = await loadJsonFile<{ cities?: T[] }>(manifestUrl);
+  if (!Array.isArray(manifest?.cities)) {
+    throw new ProviderError(`${manifestUrl} has no cities list`);
+  }
+  return manifest.cities;
+}
@@ -0,0 +1,37 @@
+import { ApiError } from '@/utils/api';
+import { RetryError, TimeoutError } from '@/utils/retry';
+
+// Thrown by providers. Transient failures (upstream 5xx, rate limits) are
+// marked retryable so the registry backs off and tries again.
+export class ProviderError extends Error {
+  constructor(message: string, public readonly retryable = false) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+// No provider is configured for the category, or none covers the address
+export class NoProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NoProviderError';
+  }
+}
+
+// Worth another attempt: timeouts, network errors, rate limits and 5xx. Our
+// own API's 429s aren't: its window lasts minutes, well past any backoff,
+// and every retry is charged against it (see rateLimitResetAt).
+export function isTransient(error: unknown): boolean {
+  if (error instanceof TimeoutError) return true;
+  if (error instanceof ProviderError) return error.retryable;
+  if (error instanceof ApiError) {
+    return error.status === 408 || (error.status >= 500 && error.code !== 'not_configured');
+  }
+  // fetch() rejects with a TypeError when the network is unreachable
+  return error instanceof TypeError;
+}
+
+export function describeFailure(error: unknown): string {
+  const attempts = error instanceof RetryError && error.attempts > 1 ? ` (${error.attempts} attempts)` : '';
+  return `${error instanceof Error ? error.message : 'Unknown error'}${attempts}`;
+}
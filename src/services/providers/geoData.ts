@@ -0,0 +1,121 @@
+import {
+  indexLines, indexPoints, indexPolygons,
+  type GeoJsonFeatureCollection, type LineFeature, type PointFeature, type PolygonFeature
+} from '@/utils/geo';
+import { parseCsv } from '@/utils/csv';
+import { NoProviderError, ProviderError } from './errors';
+
+// Parsed files by URL, shared by every lookup. A failed load is dropped so
+// the next lookup tries again.
+const loaded = new Map<string, Promise<unknown>>();
+
+function memoized<T>(key: string, load: () => Promise<T>): Promise<T> {
+  let pending = loaded.get(key) as Promise<T> | undefined;
+  if (!pending) {
+    pending = load();
+    loaded.set(key, pending);
+    pending.catch(() => loaded.delete(key));
+  }
+  return pending;
+}
+
+// Local data files are optional downloads. A missing one - a 404, or the
+// SPA fallback answering with index.html - means the data isn't installed,
+// which reads as "not covered" rather than as a failure.
+async function fetchText(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (response.status === 404) {
+    throw new NoProviderError(`${url} is not installed`);
+  }
+  if (!response.ok) {
+    throw new ProviderError(`Could not load ${url}: ${response.status} - ${response.statusText}`);
+  }
+  const text = await response.text();
+  if (/text\/html/i.test(response.headers.get('Content-Type') ?? '') || /^\s*</.test(text)) {
+    throw new NoProviderError(`${url} is not installed`);
+  }
+  return text;
+}
+
+async function fetchJson(url: string): Promise<unknown> {
+  const text = await fetchText(url);
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new ProviderError(`${url} is not valid JSON`);
+  }
+}
+
+// Local JSON data file (e.g. under public/data)
+export function loadJsonFile<T>(url: string): Promise<T> {
+  return memoized(`json:${url}`, () => fetchJson(url) as Promise<T>);
+}
+
+// Local table of records: a .csv file with a header row, or a JSON array
+export function loadRecordsFile(url: string): Promise<Record<string, unknown>[]> {
+  return memoized(`records:${url}`, async () => {
+    if (!/\.csv$/i.test(url.split('?')[0])) {
+      const data = await fetchJson(url);
+      if (!Array.isArray(data)) {
+        throw new ProviderError(`${url} should be a JSON array of records`);
+      }
+      return data as Record<string, unknown>[];
+    }
+
+    const text = await fetchText(url);
+    let rows: string[][];
+    try {
+      rows = parseCsv(text);
+    } catch (error) {
+      throw new ProviderError(`${url}: ${error instanceof Error ? error.message : error}`);
+    }
+    const [header = [], ...body] = rows;
+    return body.map(cells => Object.fromEntries(header.map((column, index) => [column.trim(), cells[index] ?? ''])));
+  });
+}
+
+// Load local GeoJSON polygon layers and concatenate their features
+export async function loadPolygonLayers<P>(urls: string[]): Promise<PolygonFeature<P>[]> {
+  const layers = await Promise.all(urls.map(url => memoized(`polygons:${url}`, async () => {
+    const collection = await fetchJson(url);
+    try {
+      return indexPolygons(collection as GeoJsonFeatureCollection<P>);
+    } catch (error) {
+      throw new ProviderError(`${url}: ${error instanceof Error ? error.message : error}`);
+    }
+  })));
+  return layers.flat();
+}
+
+// Load local GeoJSON point layers and concatenate their features
+export async function loadPointLayers<P>(urls: string[]): Promise<PointFeature<P>[]> {
+  const layers = await Promise.all(urls.map(url => memoized(`points:${url}`, async () => {
+    const collection = await fetchJson(url);
+    try {
+      return indexPoints(collection as GeoJsonFeatureCollection<P>);
+    } catch (error) {
+      throw new ProviderError(`${url}: ${error instanceof Error ? error.message : error}`);
+    }
+  })));
+  return layers.flat();
+}
+
+// Load local GeoJSON line layers and concatenate their features
+export async function loadLineLayers<P>(urls: string[]): Promise<LineFeature<P>[]> {
+  const layers = await Promise.all(urls.map(url => memoized(`lines:${url}`, async () => {
+    const collection = await fetchJson(url);
+    try {
+      return indexLines(collection as GeoJsonFeatureCollection<P>);
+    } catch (error) {
+      throw new ProviderError(`${url}: ${error instanceof Error ? error.message : error}`);
+    }
+  })));
+  return layers.flat();
+}
+
+// options.files as a string array, or the fallback when unset
+export function fileOption(value: unknown, fallback: string[]): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value;
+  return fallback;
+}
@@ -0,0 +1,103 @@
+import type {
+  CrimeData,
+  DemographicsData,
+  FloodZoneData,
+  MarketData,
+  PermitData,
+  SaleData,
+  SchoolData,
+  TaxData,
+  ViolationData,
+  ZoningData
+} from '@/types/publicData';
+import type { GeolocationAddress, GeolocationCoordinates } from '@/types/geolocation';
+
+// What each public-data category resolves to
+export interface DataCategoryMap {
+  tax: TaxData;
+  market: MarketData;
+  permits: PermitData[];
+  violations: ViolationData[];
+  sales: SaleData[];
+  schools: SchoolData[];
+  crime: CrimeData;
+  flood: FloodZoneData;
+  zoning: ZoningData;
+  demographics: DemographicsData;
+  walkscore: number;
+}
+
+export type DataCategory = keyof DataCategoryMap;
+
+export const DATA_CATEGORIES: DataCategory[] = [
+  'tax', 'market', 'permits', 'violations', 'sales', 'schools',
+  'crime', 'flood', 'zoning', 'demographics', 'walkscore'
+];
+
+// Address handed to providers, pre-split for APIs that query by part
+export interface ProviderLookup {
+  address: string;
+  street: string;
+  city: string;
+  state: string;
+  zip: string;
+  // Geocodes the address on first call; shared by every category in a scrape
+  locate: () => Promise<GeolocationCoordinates>;
+}
+
+export interface FetchOptions {
+  // Skip any cache between us and the source (e.g. the /api/data KV cache)
+  forceRefresh?: boolean;
+  // Aborted when the call times out
+  signal?: AbortSignal;
+}
+
+export interface ResolveOptions extends FetchOptions {
+  // Share one geocode across categories; ProviderRegistry geocodes on demand otherwise
+  locate?: () => Promise<GeolocationCoordinates>;
+}
+
+export interface DataProvider<C extends DataCategory = DataCategory> {
+  // Provider type id from the registry config, e.g. 'api-proxy'
+  id: string;
+  category: C;
+  // Providers tied to one jurisdiction skip addresses they can't answer
+  supports?: (lookup: ProviderLookup) => boolean;
+  fetch: (lookup: ProviderLookup, options?: FetchOptions) => Promise<DataCategoryMap[C]>;
+}
+
+export type ProviderOptions = Record<string, unknown>;
+
+// Builds the provider for one category, or null if the type doesn't cover it
+export type ProviderFactory = (category: DataCategory, options: ProviderOptions) => DataProvider | null;
+
+// One entry per provider in a category's chain. A bare string is shorthand
+// for { provider: '<id>' }; without an explicit priority, earlier entries win.
+export type ProviderConfigEntry = string | {
+  provider: string;
+  priority?: number;
+  enabled?: boolean;
+  // Per attempt; defaults to DEFAULT_PROVIDER_TIMEOUT_MS
+  timeoutMs?: number;
+  // Extra attempts after transient failures; defaults to DEFAULT_PROVIDER_RETRIES
+  retries?: number;
+  options?: ProviderOptions;
+};
+
+// Keyed by category; '*' applies to every category without its own entry
+export type ProviderConfig = Partial<Record<DataCategory | '*', ProviderConfigEntry[]>>;
+
+// Turns addresses into coordinates and, where the source can, back again.
+// Chained in GeolocationService the same way data providers are (see VITE_GEOCODERS).
+export interface Geocoder {
+  id: string;
+  geocode: (address: string, options?: FetchOptions) => Promise<GeolocationCoordinates>;
+  reverseGeocode?: (coordinates: GeolocationCoordinates, options?: FetchOptions) => Promise<GeolocationAddress>;
+}
+
+export type GeocoderFactory = (options: ProviderOptions) => Geocoder;
+
+export interface ProviderResult<C extends DataCategory> {
+  data: DataCategoryMap[C];
+  providerId: string;
+}
@@ -0,0 +1,148 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import type { AuditActor, AuditEntry, Property } from '@/types';
+import { createIndexedDBStorage } from './persistence';
+import { usePropertyStore } from './propertyStore';
+import { useSessionStore } from './sessionStore';
+import { setPath } from '@/utils/objectDiff';
+
+// Oldest entries are dropped past this, across all properties
+const MAX_ENTRIES = 2000;
+const MAX_UNDO_STEPS = 50;
+
+type RecordInput = Pick<AuditEntry, 'propertyId' | 'action' | 'changes' | 'snapshot'>;
+
+interface HistoryState {
+  entries: AuditEntry[];
+  // Entry ids, most recent last. Session-only: undo is for recent edits
+  undoStack: string[];
+  redoStack: string[];
+
+  // Actions
+  record: (input: RecordInput) => void;
+  undo: () => void;
+  redo: () => void;
+
+  // Computed
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  getPropertyHistory: (propertyId: string) => AuditEntry[];
+}
+
+// Set while undo/redo replays an entry through the property store, so the
+// entry recorded for that replay lands on the opposite stack
+let replaying: 'undo' | 'redo' | null = null;
+
+function currentActor(): AuditActor {
+  const { user } = useSessionStore.getState();
+  return user ? { id: user.id, name: user.name } : { id: 'local', name: 'You' };
+}
+
+// Reverse an entry through the property store actions, so the reversal is
+// synced and audited like any other edit. False if it no longer applies.
+function revert(entry: AuditEntry): boolean {
+  const store = usePropertyStore.getState();
+  const property = store.getPropertyById(entry.propertyId);
+
+  switch (entry.action) {
+    case 'create':
+      if (!property) return false;
+      store.removeProperty(entry.propertyId);
+      return true;
+
+    case 'delete':
+      if (property || !entry.snapshot) return false;
+      store.addProperty(entry.snapshot);
+      return true;
+
+    case 'update': {
+      if (!property) return false;
+      const reverted = entry.changes.reduce(
+        (result, change) => setPath(result, change.path, change.oldValue),
+        property
+      );
+      // updateProperty merges shallowly, so send whole top-level fields
+      const keys = new Set(entry.changes.map(change => change.path.split(/[.[]/)[0] as keyof Property));
+      const updates = [...keys].reduce<Partial<Property>>(
+        (result, key) => ({ ...result, [key]: reverted[key] }),
+        {}
+      );
+      store.updateProperty(entry.propertyId, updates);
+      return true;
+    }
+  }
+}
+
+export const useHistoryStore = create<HistoryState>()(
+  devtools(
+    persist(
+      (set, get) => {
+        const step = (direction: 'undo' | 'redo') => {
+          const stack = direction === 'undo' ? get().undoStack : get().redoStack;
+          const entryId = stack[stack.length - 1];
+          if (!entryId) return;
+
+          set(() => (direction === 'undo'
+            ? { undoStack: stack.slice(0, -1) }
+            : { redoStack: stack.slice(0, -1) }));
+
+          const entry = get().entries.find(candidate => candidate.id === entryId);
+          if (!entry) return;
+
+          replaying = direction;
+          try {
+            revert(entry);
+          } finally {
+            replaying = null;
+          }
+        };
+
+        return {
+          entries: [],
+          undoStack: [],
+          redoStack: [],
+
+          record: (input: RecordInput) => {
+            const entry: AuditEntry = {
+              ...input,
+              id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+              actor: currentActor(),
+              timestamp: new Date(),
+              ...(replaying ? { reason: replaying } : {})
+            };
+
+            set((state) => {
+              const entries = [...state.entries, entry].slice(-MAX_ENTRIES);
+              if (replaying === 'undo') {
+                return { entries, redoStack: [...state.redoStack, entry.id] };
+              }
+              const undoStack = [...state.undoStack, entry.id].slice(-MAX_UNDO_STEPS);
+              // A fresh edit invalidates anything that was undone before it
+              return replaying === 'redo' ? { entries, undoStack } : { entries, undoStack, redoStack: [] };
+            });
+          },
+
+          undo: () => step('undo'),
+
+          redo: () => step('redo'),
+
+          canUndo: () => get().undoStack.length > 0,
+
+          canRedo: () => get().redoStack.length > 0,
+
+          // Newest first
+          getPropertyHistory: (propertyId: string) =>
+            get().entries.filter(entry => entry.propertyId === propertyId).reverse()
+        };
+      },
+      {
+        name: 'property-history',
+        storage: createIndexedDBStorage<Pick<HistoryState, 'entries'>>(),
+        partialize: (state) => ({ entries: state.entries })
+      }
+    ),
+    {
+      name: 'property-history',
+    }
+  )
+);
@@ -0,0 +1,122 @@
+import type { Property } from '@/types';
+import { isSpecialFloodHazardZone } from '@/utils/floodZone';
+import { normalizeViolationStatus } from '@/utils/violations';
+
+// Bump this whenever the persisted Property shape changes, and add a
+// migration from the previous version below.
+export const PROPERTY_SCHEMA_VERSION = 4;
+
+// Persisted records of older versions, with only the fields migrations touch
+// narrowed as they are read
+type StoredRecord = Record<string, unknown>;
+type PropertyMigration = (property: StoredRecord) => StoredRecord;
+
+function isRecord(value: unknown): value is StoredRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asRecord(value: unknown): StoredRecord {
+  return isRecord(value) ? value : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// Keyed by the version a record is migrated *from*. Each step upgrades a
+// record by exactly one version so old portfolios walk the whole chain.
+const PROPERTY_MIGRATIONS: Record<number, PropertyMigration> = {
+  // v0 -> v1: records created before persistence was versioned could be
+  // missing timestamps and alert ids (PropertyGenesis never set them)
+  0: (property) => {
+    const createdAt = property.createdAt ?? new Date();
+    const overview = asRecord(property.overview);
+    return {
+      ...property,
+      createdAt,
+      updatedAt: property.updatedAt ?? createdAt,
+      overview: {
+        ...overview,
+        alerts: asArray(overview.alerts).map(asRecord).map((alert, index) => ({
+          ...alert,
+          id: alert.id ?? `alert_${property.id}_${index}`,
+          timestamp: alert.timestamp ?? createdAt
+        })),
+        recentActivity: asArray(overview.recentActivity).map(asRecord).map((activity, index) => ({
+          ...activity,
+          id: activity.id ?? `activity_${property.id}_${index}`
+        }))
+      }
+    };
+  },
+
+  // v1 -> v2: publicData.floodZone went from a bare zone code to FloodZoneData
+  1: (property) => {
+    const publicData = asRecord(property.publicData);
+    const zone = publicData.floodZone;
+    if (typeof zone !== 'string') return property;
+    return {
+      ...property,
+      publicData: {
+        ...publicData,
+        floodZone: { zone, sfha: isSpecialFloodHazardZone(zone) }
+      }
+    };
+  },
+
+  // v2 -> v3: publicData.zoning went from a bare district code to ZoningData
+  2: (property) => {
+    const publicData = asRecord(property.publicData);
+    const code = publicData.zoning;
+    if (typeof code !== 'string') return property;
+    return { ...property, publicData: { ...publicData, zoning: { code } } };
+  },
+
+  // v3 -> v4: violation status went from the portal's wording to open/closed
+  3: (property) => {
+    const publicData = asRecord(property.publicData);
+    const violations = publicData.violations;
+    if (!Array.isArray(violations)) return property;
+    return {
+      ...property,
+      publicData: {
+        ...publicData,
+        violations: violations.map(asRecord).map(violation =>
+          violation.status === 'open' || violation.status === 'closed'
+            ? violation
+            : { ...violation, status: normalizeViolationStatus(violation.status), statusDetail: violation.status }
+        )
+      }
+    };
+  }
+};
+
+export function migrateProperty(property: unknown, fromVersion: number): Property {
+  if (fromVersion > PROPERTY_SCHEMA_VERSION) {
+    throw new Error(`Property data version ${fromVersion} is newer than supported version ${PROPERTY_SCHEMA_VERSION}`);
+  }
+
+  if (!isRecord(property)) {
+    throw new Error('Saved property is not a record');
+  }
+  let migrated = property;
+  for (let version = fromVersion; version < PROPERTY_SCHEMA_VERSION; version++) {
+    const migration = PROPERTY_MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`No migration registered from property schema version ${version}`);
+    }
+    migrated = migration(migrated);
+  }
+  return migrated as unknown as Property;
+}
+
+// Entries that aren't records at all (null, a stray string) are dropped, so
+// one corrupt entry can't keep the rest of the portfolio from loading
+export function migrateProperties(properties: unknown, fromVersion: number): Property[] {
+  if (!Array.isArray(properties)) return [];
+  const records = properties.filter(isRecord);
+  if (records.length < properties.length) {
+    console.warn(`Dropped ${properties.length - records.length} unreadable saved properties`);
+  }
+  return records.map(property => migrateProperty(property, fromVersion));
+}
@@ -0,0 +1,32 @@
+import { createJSONStorage, type StateStorage } from 'zustand/middleware';
+import { idbGet, idbSet, idbDelete, isIndexedDBAvailable } from '@/utils/indexedDB';
+import { reviveDates } from '@/utils/serialization';
+
+// Async StateStorage backed by the 'state' object store. Falls back to an
+// in-memory map where IndexedDB is unavailable (private mode, SSR, tests).
+const memoryFallback = new Map<string, string>();
+
+const indexedDBStateStorage: StateStorage = {
+  getItem: async (name) => {
+    if (!isIndexedDBAvailable()) return memoryFallback.get(name) ?? null;
+    return (await idbGet<string>('state', name)) ?? null;
+  },
+  setItem: async (name, value) => {
+    if (!isIndexedDBAvailable()) {
+      memoryFallback.set(name, value);
+      return;
+    }
+    await idbSet('state', name, value);
+  },
+  removeItem: async (name) => {
+    if (!isIndexedDBAvailable()) {
+      memoryFallback.delete(name);
+      return;
+    }
+    await idbDelete('state', name);
+  }
+};
+
+export function createIndexedDBStorage<S>() {
+  return createJSONStorage<S>(() => indexedDBStateStorage, { reviver: reviveDates });
+}
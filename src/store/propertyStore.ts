@@ -1,6 +1,12 @@
 import { create } from 'zustand';
-import { devtools } from 'zustand/middleware';
+import { devtools, persist } from 'zustand/middleware';
 import type { Property, TabType } from '@/types';
+import { createIndexedDBStorage } from './persistence';
+import { PROPERTY_SCHEMA_VERSION, migrateProperties } from './migrations';
+import { PropertyApiClient, isApiBackendEnabled } from '@/services/PropertyApiClient';
+import { SyncEngine } from '@/services/SyncEngine';
+import { useHistoryStore } from './historyStore';
+import { diffPaths, getPath } from '@/utils/objectDiff';
 
 interface PropertyState {
   properties: Property[];
@@ -9,15 +15,19 @@ interface PropertyState {
   activeTab: TabType;
   loading: boolean;
   error: string | null;
+  hasHydrated: boolean;
   
   // Actions
   addProperty: (property: Property) => void;
   removeProperty: (id: string) => void;
   updateProperty: (id: string, updates: Partial<Property>) => void;
+  applySystemUpdate: (id: string, updates: Partial<Property>) => void;
   setActiveProperty: (property: Property | null) => void;
   setActiveTab: (tab: TabType) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
+  setHasHydrated: (hasHydrated: boolean) => void;
+  loadProperties: () => Promise<void>;
   
   // Computed
   getPropertyById: (id: string) => Property | undefined;
@@ -27,70 +37,175 @@ interface PropertyState {
   getCurrentProperty: () => Property | undefined;
 }
 
+// Queue a local mutation for the Pages Functions API when that backend is
+// enabled. The local state stays the source of truth for the UI either way,
+// and the queue replays once the device is back online.
+function queueSync(enqueue: (engine: SyncEngine) => void) {
+  if (!isApiBackendEnabled()) return;
+  enqueue(SyncEngine.getInstance());
+}
+
+// Bookkeeping fields that change without anyone editing the property
+const UNAUDITED_FIELDS = new Set(['updatedAt', 'revision', 'publicDataCheckedAt']);
+
+// Only durable data is persisted - UI flags reset on every load
+type PersistedPropertyState = Pick<PropertyState, 'properties' | 'currentPropertyId' | 'activeTab'>;
+
 export const usePropertyStore = create<PropertyState>()(
   devtools(
-    (set, get) => ({
-      // Initial state
-      properties: [],
-      activeProperty: null,
-      currentPropertyId: null,
-      activeTab: 'overview',
-      loading: false,
-      error: null,
+    persist(
+      (set, get) => ({
+        // Initial state
+        properties: [],
+        activeProperty: null,
+        currentPropertyId: null,
+        activeTab: 'overview',
+        loading: false,
+        error: null,
+        hasHydrated: false,
 
-      // Actions
-      addProperty: (property: Property) =>
-        set((state) => ({
-          properties: [...state.properties, property]
-        })),
+        // Actions
+        addProperty: (property: Property) => {
+          set((state) => ({
+            properties: [...state.properties, property]
+          }));
+          queueSync(engine => engine.enqueueCreate(property));
+          useHistoryStore.getState().record({ propertyId: property.id, action: 'create', changes: [], snapshot: property });
+        },
       
-      removeProperty: (id: string) =>
-        set((state) => ({
-          properties: state.properties.filter(p => p.id !== id)
-        })),
+        removeProperty: (id: string) => {
+          const removed = get().getPropertyById(id);
+          set((state) => ({
+            properties: state.properties.filter(p => p.id !== id)
+          }));
+          queueSync(engine => engine.enqueueDelete(id));
+          if (removed) {
+            useHistoryStore.getState().record({ propertyId: id, action: 'delete', changes: [], snapshot: removed });
+          }
+        },
       
-      updateProperty: (id: string, updates: Partial<Property>) =>
-        set((state) => ({
-          properties: state.properties.map(p => 
-            p.id === id ? { ...p, ...updates } : p
-          )
-        })),
+        updateProperty: (id: string, updates: Partial<Property>) => {
+          const base = get().getPropertyById(id);
+          set((state) => ({
+            properties: state.properties.map(p => 
+              p.id === id ? { ...p, ...updates } : p
+            )
+          }));
+          if (!base) return;
+          queueSync(engine => engine.enqueueUpdate(base, updates));
+
+          const updated = { ...base, ...updates };
+          const changes = diffPaths(base, updated)
+            .filter(path => !UNAUDITED_FIELDS.has(path.split('.')[0]))
+            .map(path => ({ path, oldValue: getPath(base, path), newValue: getPath(updated, path) }));
+          if (changes.length > 0) {
+            useHistoryStore.getState().record({ propertyId: id, action: 'update', changes });
+          }
+        },
       
-      setActiveProperty: (property: Property | null) =>
-        set(() => ({ activeProperty: property })),
+        // Writes the app makes on its own (public-data refreshes, geocoding).
+        // Synced like any other change, but kept out of the audit trail and
+        // the undo stack: no one made them, and undoing one would only bring
+        // back older data.
+        applySystemUpdate: (id: string, updates: Partial<Property>) => {
+          const base = get().getPropertyById(id);
+          if (!base) return;
+          set((state) => ({
+            properties: state.properties.map(p =>
+              p.id === id ? { ...p, ...updates } : p
+            )
+          }));
+          queueSync(engine => engine.enqueueUpdate(base, updates));
+        },
+
+        setActiveProperty: (property: Property | null) =>
+          set(() => ({ activeProperty: property })),
       
-      setActiveTab: (tab: TabType) =>
-        set(() => ({ activeTab: tab })),
+        setActiveTab: (tab: TabType) =>
+          set(() => ({ activeTab: tab })),
       
-      setLoading: (loading: boolean) =>
-        set(() => ({ loading })),
+        setLoading: (loading: boolean) =>
+          set(() => ({ loading })),
       
-      setError: (error: string | null) =>
-        set(() => ({ error })),
+        setError: (error: string | null) =>
+          set(() => ({ error })),
+
+        setHasHydrated: (hasHydrated: boolean) =>
+          set(() => ({ hasHydrated })),
+
+        // Replace the local portfolio with the API's copy (no-op for the local
+        // backend or while offline). Properties with unsynced changes keep
+        // their local version until the sync queue has replayed them.
+        loadProperties: async () => {
+          if (!isApiBackendEnabled() || !navigator.onLine) return;
+
+          set(() => ({ loading: true, error: null }));
+          try {
+            const remote = await PropertyApiClient.getInstance().listProperties();
+            const sync = SyncEngine.getInstance();
+            set((state) => ({
+              properties: [
+                ...remote.filter(p => !sync.hasPendingChanges(p.id)),
+                ...state.properties.filter(p => sync.hasPendingChanges(p.id))
+              ]
+            }));
+          } catch (error) {
+            console.error('Failed to load properties:', error);
+            set(() => ({ error: error instanceof Error ? error.message : 'Failed to load properties' }));
+          } finally {
+            set(() => ({ loading: false }));
+          }
+        },
 
-      // Computed
-      getPropertyById: (id: string) => {
-        return get().properties.find(p => p.id === id);
-      },
+        // Computed
+        getPropertyById: (id: string) => {
+          return get().properties.find(p => p.id === id);
+        },
       
-      getTotalValue: () => {
-        return get().properties.reduce((total, prop) => total + (prop.overview.vitals.currentValue.amount || 0), 0);
-      },
+        getTotalValue: () => {
+          return get().properties.reduce((total, prop) => total + (prop.overview.vitals.currentValue.amount || 0), 0);
+        },
       
-      getMonthlyIncome: () => {
-        return get().properties.reduce((total, prop) => total + (prop.overview.vitals.monthlyRevenue.amount || 0), 0);
-      },
+        getMonthlyIncome: () => {
+          return get().properties.reduce((total, prop) => total + (prop.overview.vitals.monthlyRevenue.amount || 0), 0);
+        },
 
-      // Missing computed getters
-      getPropertiesList: () => {
-        return get().properties;
-      },
+        // Missing computed getters
+        getPropertiesList: () => {
+          return get().properties;
+        },
 
-      getCurrentProperty: () => {
-        const state = get();
-        return state.properties.find(p => p.id === state.currentPropertyId);
+        getCurrentProperty: () => {
+          const state = get();
+          return state.properties.find(p => p.id === state.currentPropertyId);
+        }
+      }),
+      {
+        name: 'property-store',
+        storage: createIndexedDBStorage<PersistedPropertyState>(),
+        version: PROPERTY_SCHEMA_VERSION,
+        partialize: (state): PersistedPropertyState => ({
+          properties: state.properties,
+          currentPropertyId: state.currentPropertyId,
+          activeTab: state.activeTab
+        }),
+        migrate: (persistedState, version) => {
+          const state = (persistedState ?? {}) as Partial<PersistedPropertyState>;
+          return {
+            properties: migrateProperties(state.properties, version),
+            currentPropertyId: state.currentPropertyId ?? null,
+            activeTab: state.activeTab ?? 'overview'
+          };
+        },
+        onRehydrateStorage: () => (state, error) => {
+          if (error) {
+            console.error('Failed to restore saved portfolio:', error);
+          }
+          // Also runs on failure so the UI stops waiting on storage
+          (state ?? usePropertyStore.getState()).setHasHydrated(true);
+        }
       }
-    }),
+    ),
     {
       name: 'property-store',
     }
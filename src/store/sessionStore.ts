@@ -0,0 +1,58 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { UserIdentity } from '@/types';
+import { claimsToIdentity, decodeTokenClaims, isTokenExpired } from '@/utils/authToken';
+import { hasPermission, type Permission } from '@/utils/permissions';
+
+interface SessionState {
+  token: string | null;
+  user: UserIdentity | null;
+
+  // Actions
+  signIn: (token: string) => void;
+  signOut: () => void;
+
+  // Computed
+  // Without a session (local-only mode) there's nothing to enforce
+  can: (permission: Permission) => boolean;
+}
+
+export const useSessionStore = create<SessionState>()(
+  persist(
+    (set, get) => ({
+      token: null,
+      user: null,
+
+      // The API verifies the signature - here the claims are only decoded for display
+      signIn: (token: string) => {
+        const claims = decodeTokenClaims(token);
+        if (isTokenExpired(claims)) {
+          throw new Error('Token expired or not yet valid');
+        }
+        set(() => ({ token, user: claimsToIdentity(claims) }));
+      },
+
+      signOut: () =>
+        set(() => ({ token: null, user: null })),
+
+      can: (permission: Permission) => {
+        const { user } = get();
+        return !user || hasPermission(user.role, permission);
+      }
+    }),
+    {
+      name: 'property-os-session',
+      partialize: (state) => ({ token: state.token, user: state.user }),
+      onRehydrateStorage: () => (state) => {
+        if (!state?.token) return;
+        try {
+          if (isTokenExpired(decodeTokenClaims(state.token))) {
+            state.signOut();
+          }
+        } catch {
+          state.signOut();
+        }
+      }
+    }
+  )
+);
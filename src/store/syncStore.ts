@@ -0,0 +1,28 @@
+import { create } from 'zustand';
+import type { SyncQueueEntry } from '@/types';
+
+// Snapshot of the offline sync queue for the UI. SyncEngine owns the queue
+// and publishes here; components only read (and call back into SyncEngine).
+interface SyncState {
+  online: boolean;
+  syncing: boolean;
+  queue: SyncQueueEntry[];
+  lastSyncedAt: Date | null;
+  lastError: string | null;
+
+  // Computed
+  getPendingCount: () => number;
+  getConflicts: () => SyncQueueEntry[];
+}
+
+export const useSyncStore = create<SyncState>()((_set, get) => ({
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  syncing: false,
+  queue: [],
+  lastSyncedAt: null,
+  lastError: null,
+
+  getPendingCount: () => get().queue.length,
+
+  getConflicts: () => get().queue.filter(entry => entry.conflict)
+}));
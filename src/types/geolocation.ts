@@ -0,0 +1,16 @@
+export interface GeolocationCoordinates {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  // Match quality (0-1) from geocoders that score address matches
+  score?: number;
+}
+
+export interface GeolocationAddress {
+  street: string;
+  city: string;
+  state: string;
+  zip: string;
+  formatted: string;
+  coordinates: GeolocationCoordinates;
+}
@@ -1,13 +1,35 @@
+import type { PublicPropertyData } from './publicData';
+import type { FieldSource, ReconciledField } from './reconciliation';
+import type { LatLng } from '@/utils/geo';
+
 // Core Property Types
 export interface Property {
   id: string;
   address: Address;
+  // [latitude, longitude] from GeolocationService.geocode; missing until the
+  // address has been geocoded
+  geo?: LatLng;
   overview: OverviewData;
   operations: OperationsData;
   intelligence: IntelligenceData;
   createdAt: Date;
   updatedAt: Date;
-  publicData?: any; // For storing scraped public data
+  // Incremented by the API on every save; absent until first synced
+  revision?: number;
+  // Snapshot of scraped public records (see PublicDataScraper)
+  publicData?: PublicPropertyData;
+  purchase?: PurchaseInfo;
+  // Where each reconciled fact came from (see FieldReconciler)
+  fieldSources?: Partial<Record<ReconciledField, FieldSource>>;
+  // Last time publicData was re-scraped (see PublicDataRefresher)
+  publicDataCheckedAt?: Date;
+}
+
+// What the owner paid - entered by hand or taken from the last recorded sale
+export interface PurchaseInfo {
+  price: number;
+  date?: Date;
+  source: 'manual' | 'public-records';
 }
 
 export interface Address {
@@ -45,7 +67,8 @@ export interface Alert {
 export interface Activity {
   id: string;
   timestamp: Date;
-  type: 'payment' | 'maintenance' | 'inspection' | 'document';
+  // 'public-record' for changes found in the property's public data
+  type: 'payment' | 'maintenance' | 'inspection' | 'document' | 'public-record';
   description: string;
   metadata?: Record<string, any>;
 }
@@ -86,7 +109,8 @@ export interface WorkOrder {
   id: string;
   title: string;
   description: string;
-  status: 'open' | 'in-progress' | 'completed';
+  // 'draft' orders were raised automatically and wait for someone to confirm them
+  status: 'draft' | 'open' | 'in-progress' | 'completed';
   priority: 'low' | 'medium' | 'high';
   createdAt: Date;
   completedAt?: Date;
@@ -156,7 +180,8 @@ export interface UniversalCommand {
 export interface CommandContext {
   propertyId?: string;
   activeTab: 'overview' | 'operations' | 'intelligence';
-  location?: [number, number];
+  // Where the user is, [latitude, longitude], once they've shared it
+  location?: LatLng;
   timestamp: number;
   commandType?: CommandType;
 }
@@ -183,6 +208,31 @@ export interface CommandResult {
   success: boolean;
   message: string;
   data: any;
+  changes?: PropertyChange[];
+}
+
+// A store mutation made while executing a command, so callers that didn't
+// share the command's storage (API clients, scripts) can replay it locally
+export interface PropertyChange {
+  action: 'create' | 'update' | 'delete';
+  propertyId: string;
+  property?: Property;
+}
+
+// Storage commands read and write when they have side effects - the KV
+// repository on the server, or any adapter a caller provides
+export interface PropertyRepository {
+  get(id: string): Promise<Property | null>;
+  save(property: Property): Promise<Property>;
+}
+
+export interface CommandExecutionContext {
+  propertyId?: string;
+  activeTab?: TabType;
+  repository?: PropertyRepository;
+  location?: CommandContext['location'];
+  // Portfolio for commands that search it, e.g. "properties near me"
+  properties?: Property[];
 }
 
 // Property type aliases for compatibility
@@ -195,6 +245,7 @@ export interface CommandResponse {
   message: string;
   data?: any;
   actions?: CommandAction[];
+  changes?: PropertyChange[];
 }
 
 // Missing type definitions
@@ -263,11 +314,19 @@ export interface RentOptimization {
 // Additional utility types
 export type TabType = 'overview' | 'operations' | 'intelligence';
 
+export type UserRole = 'owner' | 'manager' | 'viewer';
+
+export interface Organization {
+  id: string;
+  name: string;
+}
+
 export interface User {
   id: string;
   name: string;
   email: string;
-  portfolio: string[];
+  role: UserRole;
+  organizationId: string;
   settings: UserSettings;
 }
 
@@ -276,3 +335,80 @@ export interface UserSettings {
   notifications: boolean;
   theme: 'light' | 'dark';
 }
+
+// The part of a User carried in an API token - settings stay client-side
+export type UserIdentity = Omit<User, 'settings'>;
+
+// Claims in the HS256 JWT the API accepts as a Bearer token
+export interface AuthTokenClaims {
+  sub: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  org: string;
+  orgName?: string;
+  iat?: number;
+  nbf?: number;
+  exp?: number;
+}
+
+// Offline Sync Types
+export type SyncAction = 'create' | 'update' | 'delete';
+
+// A local mutation waiting to be replayed against the API
+export interface SyncQueueEntry {
+  id: string;
+  action: SyncAction;
+  propertyId: string;
+  queuedAt: Date;
+  // create: the full record
+  property?: Property;
+  // update: top-level fields to PATCH, plus the record they were made against
+  changes?: Partial<Property>;
+  base?: Property;
+  baseRevision?: number;
+  // Set when the server copy moved on and some fields need a decision
+  conflict?: SyncConflict;
+}
+
+export interface FieldConflict {
+  path: string;
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+}
+
+export interface SyncConflict {
+  remote: Property;
+  // Server copy with every non-conflicting local change already applied
+  merged: Property;
+  fields: FieldConflict[];
+  detectedAt: Date;
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+// Audit Types
+export interface AuditActor {
+  id: string;
+  name: string;
+}
+
+export interface AuditChange {
+  path: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  propertyId: string;
+  action: 'create' | 'update' | 'delete';
+  actor: AuditActor;
+  timestamp: Date;
+  changes: AuditChange[];
+  // The whole record for create/delete, so either can be reversed
+  snapshot?: Property;
+  // Set when the entry was made by undoing or redoing an earlier edit
+  reason?: 'undo' | 'redo';
+}
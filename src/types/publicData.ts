@@ -0,0 +1,211 @@
+// Public record data scraped for an address (see PublicDataScraper)
+import type { CacheStatus } from '@/utils/dataCachePolicy';
+
+export interface PublicPropertyData {
+  address: string;
+  taxAssessment?: TaxData;
+  marketData?: MarketData;
+  permits?: PermitData[];
+  violations?: ViolationData[];
+  sales?: SaleData[];
+  demographics?: DemographicsData;
+  schools?: SchoolData[];
+  crime?: CrimeData;
+  walkScore?: number;
+  floodZone?: FloodZoneData;
+  zoning?: ZoningData;
+  // When the oldest of the categories above was fetched from its source
+  fetchedAt?: Date;
+  // Where each field came from, or why it is missing
+  sources?: Partial<Record<PublicDataField, DataSource>>;
+}
+
+export type PublicDataField = Exclude<keyof PublicPropertyData, 'address' | 'fetchedAt' | 'sources'>;
+
+// 'unavailable' means no provider is configured for the field (or address);
+// 'failed' means every configured provider errored or timed out
+export type SourceStatus = 'ok' | 'failed' | 'unavailable';
+
+export interface DataSource {
+  status: SourceStatus;
+  // Id of the provider that answered, e.g. 'api-proxy'
+  provider?: string;
+  fetchedAt?: Date;
+  cache?: CacheStatus;
+  error?: string;
+}
+
+export interface TaxData {
+  assessedValue: number;
+  landValue: number;
+  improvementValue: number;
+  taxAmount: number;
+  millRate: number;
+  yearBuilt: number;
+  squareFootage: number;
+  lotSize: number;
+  propertyType: string;
+  bedrooms: number;
+  bathrooms: number;
+  stories: number;
+  heating: string;
+  cooling: string;
+  exterior: string;
+  roof: string;
+  lastAssessment: Date;
+  // Vendor the record came from, e.g. 'Attom'
+  source?: string;
+}
+
+export interface MarketData {
+  estimatedValue: number;
+  pricePerSqft: number;
+  rentEstimate: number;
+  rentPerSqft: number;
+  appreciation1Year: number;
+  appreciation5Year: number;
+  daysOnMarket: number;
+  inventory: number;
+  priceHistory: PricePoint[];
+  comparables: PropertyComparable[];
+}
+
+export interface PermitData {
+  permitNumber: string;
+  type: string;
+  description: string;
+  value: number;
+  // Missing when the portal left the date blank
+  issueDate?: Date;
+  status: string;
+  contractor?: string;
+}
+
+// 'unknown' when the portal has no status, or one we can't read
+export type ViolationStatus = 'open' | 'closed' | 'unknown';
+
+export interface ViolationData {
+  violationId: string;
+  type: string;
+  description: string;
+  issueDate?: Date;
+  status: ViolationStatus;
+  // The portal's own wording, e.g. 'NO ENTRY' or 'COMPLIED'
+  statusDetail?: string;
+  fine?: number;
+}
+
+export interface SaleData {
+  saleDate: Date;
+  salePrice: number;
+  pricePerSqft: number;
+  deedType: string;
+  buyer: string;
+  seller: string;
+}
+
+// FEMA National Flood Hazard Layer designation for the parcel
+export interface FloodZoneData {
+  // FEMA zone code, e.g. 'AE', 'VE', 'X'
+  zone: string;
+  // e.g. '0.2 PCT ANNUAL CHANCE FLOOD HAZARD', 'FLOODWAY'
+  zoneSubtype?: string;
+  // Special Flood Hazard Area (1% annual chance); flood insurance is required
+  // for federally backed mortgages
+  sfha: boolean;
+  // Base flood elevation in feet, where FEMA has mapped one
+  baseFloodElevation?: number;
+}
+
+// Ordinance rules for a zoning district, where the data has them
+export interface ZoningRules {
+  description?: string;
+  allowedUses?: string[];
+  maxUnits?: number;
+  aduEligible?: boolean;
+}
+
+export interface ZoningData extends ZoningRules {
+  // District code as the municipality writes it, e.g. 'RS-3', 'R1-1'
+  code: string;
+  // City whose zoning map the district came from
+  jurisdiction?: string;
+}
+
+// ACS 5-year estimates for the property's census tract
+export interface DemographicsData {
+  medianIncome: number;
+  medianAge: number;
+  // People per square mile of land
+  populationDensity: number;
+  // Most common highest attainment among adults 25 and over
+  educationLevel: string;
+  // Employed share of the civilian labor force
+  employmentRate: number;
+  population?: number;
+  // Share of adults 25 and over with a bachelor's degree or higher
+  bachelorsOrHigher?: number;
+  // Share of occupied homes that are rented
+  renterShare?: number;
+  medianRent?: number;
+  // 11-digit tract GEOID and the ACS vintage
+  tract?: string;
+  year?: number;
+}
+
+export interface SchoolData {
+  name: string;
+  type: 'elementary' | 'middle' | 'high';
+  // 1-10, where a ratings file covers the school
+  rating?: number;
+  // Straight-line miles from the property
+  distance: number;
+  enrollment: number;
+  // NCES school id
+  id?: string;
+  // True when an attendance zone assigns the property to this school,
+  // false when it is just the nearest one
+  assigned?: boolean;
+}
+
+export interface CrimeData {
+  // Incidents per 1,000 residents over the last year; 0 when the population
+  // isn't known (see incidents.population)
+  crimeRate: number;
+  violentCrimeRate: number;
+  propertyCrimeRate: number;
+  trend: 'increasing' | 'decreasing' | 'stable';
+  // Set when aggregated from incident-level data
+  incidents?: CrimeIncidentSummary;
+}
+
+// Incident counts within radiusMiles of the property for the year up to
+// periodEnd, and the year before it
+export interface CrimeIncidentSummary {
+  radiusMiles: number;
+  periodEnd: Date;
+  violent: number;
+  property: number;
+  total: number;
+  previousYearTotal: number;
+  // Residents within the radius, estimated from census population density
+  population?: number;
+}
+
+export interface PricePoint {
+  date: Date;
+  price: number;
+  event?: string;
+}
+
+export interface PropertyComparable {
+  address: string;
+  distance: number;
+  price: number;
+  pricePerSqft: number;
+  squareFootage: number;
+  bedrooms: number;
+  bathrooms: number;
+  yearBuilt: number;
+  saleDate: Date;
+}
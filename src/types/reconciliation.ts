@@ -0,0 +1,44 @@
+// Property facts that more than one source can supply
+export type ReconciledField =
+  | 'currentValue'
+  | 'purchasePrice'
+  | 'purchaseDate'
+  | 'yearBuilt'
+  | 'squareFootage'
+  | 'lotSize'
+  | 'bedrooms'
+  | 'bathrooms'
+  | 'propertyType'
+  | 'monthlyRent';
+
+export type FieldValue = number | string | Date;
+
+// Broad kinds of source, in the order precedence is usually given:
+// what the owner told us, official records, data vendors, then estimates
+export type SourceKind = 'user' | 'public-record' | 'vendor' | 'estimate';
+
+export interface FieldCandidate {
+  field: ReconciledField;
+  value: FieldValue;
+  // Specific source, e.g. 'Attom', 'County recorder', 'Owner'
+  source: string;
+  kind: SourceKind;
+  // 0-1, how much the source is trusted for this field
+  confidence: number;
+  // When the source observed the value (assessment date, sale date...)
+  observedAt: Date;
+}
+
+export interface FieldResolution {
+  field: ReconciledField;
+  chosen: FieldCandidate;
+  // Every candidate, best first
+  candidates: FieldCandidate[];
+  // Candidates disagree on the value
+  conflict: boolean;
+  // 'precedence' when picked by the rules, 'user' when picked by hand
+  resolvedBy: 'precedence' | 'user';
+}
+
+// What's stored on the Property for each field
+export type FieldSource = Omit<FieldCandidate, 'field'> & Pick<FieldResolution, 'resolvedBy'>;
@@ -143,6 +143,72 @@ function extractComponents(match: RegExpMatchArray): AddressMatch['components']
   };
 }
 
+// Canonical forms for comparing addresses typed different ways
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st', avenue: 'ave', road: 'rd', drive: 'dr', lane: 'ln',
+  boulevard: 'blvd', circle: 'cir', court: 'ct', place: 'pl', parkway: 'pkwy',
+  trail: 'tr', highway: 'hwy', terrace: 'ter',
+  north: 'n', south: 's', east: 'e', west: 'w',
+  northeast: 'ne', northwest: 'nw', southeast: 'se', southwest: 'sw',
+  apartment: 'apt', suite: 'ste', unit: 'unit'
+};
+
+// Key for duplicate detection: "123 Main Street, Boston" and
+// "123 main st boston" normalize to the same string
+export function normalizeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/[.,#]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => ADDRESS_ABBREVIATIONS[word] ?? word)
+    .join(' ');
+}
+
+const STREET_DIRECTIONS = new Set(['n', 's', 'e', 'w', 'ne', 'nw', 'se', 'sw']);
+const STREET_TYPES = new Set(['st', 'ave', 'rd', 'dr', 'ln', 'blvd', 'cir', 'ct', 'pl', 'pkwy', 'tr', 'hwy', 'ter', 'way']);
+const UNIT_DESIGNATOR = /^(apt|apartment|unit|ste|suite|#.*)$/i;
+
+export interface StreetParts {
+  number: string;
+  // Canonical upper-case abbreviations, e.g. 'N', 'AVE'
+  direction?: string;
+  name: string;
+  suffix?: string;
+  unit?: string;
+}
+
+// Split a street line like "1234 N Milwaukee Ave Apt 2" into the parts city
+// datasets keep in separate columns. Returns null without a house number.
+export function parseStreetLine(street: string): StreetParts | null {
+  const [number, ...words] = street.replace(/[.,]/g, ' ').trim().split(/\s+/);
+  if (!number || !/^\d+[A-Za-z]?$/.test(number)) return null;
+
+  const canonical = (word: string) => ADDRESS_ABBREVIATIONS[word.toLowerCase()] ?? word.toLowerCase();
+  let rest = words;
+  let unit: string | undefined;
+  const unitIndex = rest.findIndex(word => UNIT_DESIGNATOR.test(word));
+  if (unitIndex >= 0) {
+    unit = rest.slice(unitIndex).join(' ').replace(/^(apt|apartment|unit|ste|suite)\s*/i, '').replace(/^#/, '') || undefined;
+    rest = rest.slice(0, unitIndex);
+  }
+
+  let direction: string | undefined;
+  if (rest.length > 1 && STREET_DIRECTIONS.has(canonical(rest[0]))) {
+    direction = canonical(rest[0]).toUpperCase();
+    rest = rest.slice(1);
+  }
+
+  let suffix: string | undefined;
+  if (rest.length > 1 && STREET_TYPES.has(canonical(rest[rest.length - 1]))) {
+    suffix = canonical(rest[rest.length - 1]).toUpperCase();
+    rest = rest.slice(0, -1);
+  }
+
+  if (rest.length === 0) return null;
+  return { number, direction, name: rest.join(' ').toUpperCase(), suffix, unit };
+}
+
 // Test function for development
 export function testAddressDetection() {
   const testCases = [
@@ -0,0 +1,127 @@
+import { parseStreetLine, type StreetParts } from '@/utils/addressDetection';
+
+// Helpers for Census TIGER/Line address ranges (the ADDRFEAT layer). Each
+// street edge lists the house numbers on its left and right side, from its
+// first vertex to its last, so an address can be placed by interpolating
+// along the edge.
+
+export type RangeSide = 'left' | 'right';
+
+export interface AddressRange {
+  // House numbers at the first and last vertex; `from` may be the larger
+  from: number;
+  to: number;
+  zip?: string;
+  // Odd, even or both
+  parity: 'O' | 'E' | 'B';
+}
+
+export interface AddressRangeSegment {
+  fullName: string;
+  street: Omit<StreetParts, 'number' | 'unit'>;
+  left?: AddressRange;
+  right?: AddressRange;
+}
+
+// The parts of a one-line address that ranges are matched on
+export interface AddressQuery {
+  number: number;
+  street: StreetParts;
+  state?: string;
+  zip?: string;
+}
+
+// "123 Main St, Springfield, IL 62701" -> number, street parts, state and
+// ZIP. Null without a house number.
+export function parseAddressQuery(address: string): AddressQuery | null {
+  const [streetLine = '', ...rest] = address.split(',');
+  const street = parseStreetLine(streetLine);
+  const number = street ? parseInt(street.number, 10) : NaN;
+  if (!street || !Number.isFinite(number)) return null;
+
+  const tail = rest.join(' ').trim();
+  const zip = tail.match(/\b(\d{5})(?:-\d{4})?$/)?.[1];
+  const state = rest.length > 1
+    ? tail.replace(/\b\d{5}(?:-\d{4})?$/, '').trim().match(/\b([A-Za-z]{2})$/)?.[1]?.toUpperCase()
+    : undefined;
+  return { number, street, state, zip };
+}
+
+// Names are compared without spaces: TIGER has "La Salle" where people
+// write "LaSalle"
+export function streetKey(name: string): string {
+  return name.toUpperCase().replace(/\s+/g, '');
+}
+
+// Non-numeric house numbers (e.g. Queens' "12-34") are left out
+function houseNumber(value: unknown): number | null {
+  const text = String(value ?? '').trim();
+  return /^\d+$/.test(text) ? parseInt(text, 10) : null;
+}
+
+function addressRange(from: unknown, to: unknown, zip: unknown, parity: unknown): AddressRange | undefined {
+  const start = houseNumber(from);
+  const end = houseNumber(to);
+  if (start === null || end === null) return undefined;
+  const inferred = start % 2 === end % 2 ? (start % 2 ? 'O' : 'E') : 'B';
+  return {
+    from: start,
+    to: end,
+    zip: String(zip ?? '').trim() || undefined,
+    parity: parity === 'O' || parity === 'E' || parity === 'B' ? parity : inferred
+  };
+}
+
+// An ADDRFEAT record, or null when it has no street name or house numbers
+export function parseAddressRangeRecord(record: Record<string, unknown>): AddressRangeSegment | null {
+  const fullName = String(record.FULLNAME ?? '').trim();
+  const parts = fullName ? parseStreetLine(`0 ${fullName}`) : null;
+  const left = addressRange(record.LFROMHN, record.LTOHN, record.ZIPL, record.PARITYL);
+  const right = addressRange(record.RFROMHN, record.RTOHN, record.ZIPR, record.PARITYR);
+  if (!parts || (!left && !right)) return null;
+  return {
+    fullName,
+    street: { direction: parts.direction, name: parts.name, suffix: parts.suffix },
+    left,
+    right
+  };
+}
+
+// How far along the range the number is (0-1), or null outside it
+export function rangeFraction(range: AddressRange, number: number): number | null {
+  if (number < Math.min(range.from, range.to) || number > Math.max(range.from, range.to)) return null;
+  return range.from === range.to ? 0.5 : (number - range.from) / (range.to - range.from);
+}
+
+// The house number at `fraction` of the range, on the range's parity
+export function houseNumberAt(range: AddressRange, fraction: number): number {
+  const step = range.parity === 'B' ? 1 : 2;
+  const exact = range.from + (range.to - range.from) * fraction;
+  const number = range.from + Math.round((exact - range.from) / step) * step;
+  return Math.min(Math.max(number, Math.min(range.from, range.to)), Math.max(range.from, range.to));
+}
+
+// Components that differ count against a match more than ones that are
+// missing from one side
+const MISMATCH_PENALTY = { parity: 0.3, direction: 0.3, suffix: 0.3, zip: 0.2 };
+const MISSING_PENALTY = { direction: 0.1, suffix: 0.1, zip: 0.05 };
+
+function componentPenalty(kind: 'direction' | 'suffix' | 'zip', wanted?: string, found?: string): number {
+  if (wanted && found) return wanted === found ? 0 : MISMATCH_PENALTY[kind];
+  return wanted || found ? MISSING_PENALTY[kind] : 0;
+}
+
+// Match quality (0-1) of a query against one side of a segment whose street
+// name and range already fit: 1 when direction, suffix, ZIP and odd/even
+// side all agree
+export function scoreRangeMatch(query: AddressQuery, segment: AddressRangeSegment, side: RangeSide): number {
+  const range = segment[side];
+  if (!range) return 0;
+  const wrongSide = range.parity !== 'B' && (query.number % 2 ? 'O' : 'E') !== range.parity;
+  const score = 1 -
+    (wrongSide ? MISMATCH_PENALTY.parity : 0) -
+    componentPenalty('direction', query.street.direction, segment.street.direction) -
+    componentPenalty('suffix', query.street.suffix, segment.street.suffix) -
+    componentPenalty('zip', query.zip, range.zip);
+  return Math.max(0, Math.round(score * 100) / 100);
+}
@@ -0,0 +1,76 @@
+import { parseWithDates } from './serialization';
+import { useSessionStore } from '@/store/sessionStore';
+
+// Shared fetch helper for our own Pages Functions API
+
+interface ApiErrorBody {
+  success: false;
+  error: { code: string; message: string; details?: unknown };
+}
+
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// When each rate-limit rule ('lookup', 'write'...) lifts, from the API's
+// last 429 for it
+const rateLimitedUntil = new Map<string, number>();
+
+// When the API will take requests under `rule` again, or null if it isn't
+// currently refusing them
+export function rateLimitResetAt(rule: string): Date | null {
+  const until = rateLimitedUntil.get(rule);
+  return until !== undefined && until > Date.now() ? new Date(until) : null;
+}
+
+export function apiUrl(path: string): string {
+  return `${import.meta.env.VITE_API_BASE_URL || ''}${path}`;
+}
+
+export async function fetchApi<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const headers = new Headers(init.headers);
+  if (init.body !== undefined && !headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json');
+  }
+
+  const { token, signOut } = useSessionStore.getState();
+  if (token && !headers.has('Authorization')) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  const response = await fetch(apiUrl(path), { ...init, headers });
+
+  // Revive ISO strings back into Dates, same as the IndexedDB storage
+  const text = await response.text();
+  const data = text ? parseWithDates<T | ApiErrorBody>(text) : null;
+
+  if (!response.ok) {
+    // The server rejected our token - drop it so the user can sign in again
+    if (response.status === 401 && token) {
+      signOut();
+    }
+
+    const error = (data as ApiErrorBody | null)?.error;
+    if (response.status === 429) {
+      const rule = (error?.details as { rule?: string } | undefined)?.rule ?? 'unknown';
+      const retryAfterSeconds = Number(response.headers.get('Retry-After')) || 60;
+      rateLimitedUntil.set(rule, Date.now() + retryAfterSeconds * 1000);
+    }
+    throw new ApiError(
+      response.status,
+      error?.code || 'http_error',
+      `${init.method || 'GET'} ${path} failed: ${response.status} - ${error?.message || response.statusText}`,
+      error?.details
+    );
+  }
+
+  return data as T;
+}
@@ -0,0 +1,70 @@
+import type { AuthTokenClaims, UserIdentity, UserRole } from '@/types';
+import { USER_ROLES } from './permissions';
+
+// JWT decoding shared by the browser (display only) and the API middleware,
+// which verifies the signature before trusting any of these claims
+
+export function decodeBase64Url(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+// Organization ids end up in storage key prefixes, so they are restricted
+// to word characters and dashes
+export const ORGANIZATION_ID_PATTERN = /^[\w-]+$/;
+
+function decodeJsonSegment(segment: string): Record<string, unknown> {
+  const value: unknown = JSON.parse(new TextDecoder().decode(decodeBase64Url(segment)));
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Malformed token');
+  }
+  return value as Record<string, unknown>;
+}
+
+export function decodeTokenHeader(token: string): { alg?: string; typ?: string } {
+  const { alg, typ } = decodeJsonSegment(token.split('.')[0] ?? '');
+  return {
+    alg: typeof alg === 'string' ? alg : undefined,
+    typ: typeof typ === 'string' ? typ : undefined
+  };
+}
+
+export function decodeTokenClaims(token: string): AuthTokenClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Malformed token');
+  }
+
+  const claims = decodeJsonSegment(parts[1]);
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new Error('Token is missing a subject');
+  }
+  if (typeof claims.org !== 'string' || !claims.org) {
+    throw new Error('Token is missing an organization');
+  }
+  if (!ORGANIZATION_ID_PATTERN.test(claims.org)) {
+    throw new Error('Token has an invalid organization id');
+  }
+  if (!USER_ROLES.includes(claims.role as UserRole)) {
+    throw new Error(`Token has an unknown role: ${claims.role}`);
+  }
+  return claims as unknown as AuthTokenClaims;
+}
+
+export function isTokenExpired(claims: AuthTokenClaims, now = Date.now()): boolean {
+  const seconds = Math.floor(now / 1000);
+  return (claims.exp !== undefined && claims.exp <= seconds)
+    || (claims.nbf !== undefined && claims.nbf > seconds);
+}
+
+export function claimsToIdentity(claims: AuthTokenClaims): UserIdentity {
+  return {
+    id: claims.sub,
+    name: claims.name || claims.email || claims.sub,
+    email: claims.email || '',
+    role: claims.role,
+    organizationId: claims.org
+  };
+}
@@ -0,0 +1,52 @@
+import type { CrimeData } from '@/types/publicData';
+
+export type OffenseClass = 'violent' | 'property' | 'other';
+
+// FBI UCR Part I offenses plus the names city feeds commonly use for them
+const VIOLENT_OFFENSE = /homicide|murder|manslaughter|rape|sex(ual)? assault|sex offense|robbery|assault|battery|kidnap|shooting/i;
+const PROPERTY_OFFENSE = /burglary|theft|larceny|stolen|arson|vandalism|criminal damage|shoplifting|break.?in/i;
+
+// A change of less than this either way counts as stable
+const TREND_THRESHOLD = 0.1;
+
+export interface OffenseLists {
+  // Exact offense values, for feeds the keyword match gets wrong
+  violent?: string[];
+  property?: string[];
+}
+
+export function classifyOffense(offense: string, lists: OffenseLists = {}): OffenseClass {
+  const value = offense.trim().toUpperCase();
+  if (lists.violent?.some(item => item.toUpperCase() === value)) return 'violent';
+  if (lists.property?.some(item => item.toUpperCase() === value)) return 'property';
+  // Checked first so "ROBBERY - THEFT FROM PERSON" stays violent
+  if (VIOLENT_OFFENSE.test(value)) return 'violent';
+  if (PROPERTY_OFFENSE.test(value)) return 'property';
+  return 'other';
+}
+
+export function crimeTrend(current: number, previous: number): CrimeData['trend'] {
+  if (previous === 0) return current === 0 ? 'stable' : 'increasing';
+  const change = (current - previous) / previous;
+  if (change > TREND_THRESHOLD) return 'increasing';
+  if (change < -TREND_THRESHOLD) return 'decreasing';
+  return 'stable';
+}
+
+// Per 1,000 residents living within the search radius, estimated from
+// census population density (people per square mile)
+export function crimeWithRates(crime: CrimeData, populationDensity?: number): CrimeData {
+  const summary = crime.incidents;
+  if (!summary || !populationDensity || populationDensity <= 0) return crime;
+
+  const population = Math.round(populationDensity * Math.PI * summary.radiusMiles ** 2);
+  if (population === 0) return crime;
+  const per1000 = (count: number) => Math.round((count / population) * 1000 * 10) / 10;
+  return {
+    ...crime,
+    crimeRate: per1000(summary.total),
+    violentCrimeRate: per1000(summary.violent),
+    propertyCrimeRate: per1000(summary.property),
+    incidents: { ...summary, population }
+  };
+}
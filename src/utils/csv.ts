@@ -0,0 +1,88 @@
+// RFC 4180 CSV parsing: quoted fields, escaped quotes ("") and line breaks
+// inside quotes. Spreadsheet exports vary, so the delimiter is sniffed from
+// the header line unless given.
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t'];
+
+export function detectDelimiter(text: string): string {
+  const headerLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const counts = CANDIDATE_DELIMITERS.map(delimiter => ({
+    delimiter,
+    count: headerLine.split(delimiter).length - 1
+  }));
+  const best = counts.reduce((a, b) => (b.count > a.count ? b : a));
+  return best.count > 0 ? best.delimiter : ',';
+}
+
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Excel prefixes UTF-8 exports with a byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field in CSV');
+  }
+
+  // Last line without a trailing newline
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines are common at the end of exports
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+// Strings a spreadsheet would evaluate as a formula when the file is opened
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return isNaN(value.getTime()) ? '' : value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function stringifyCsv(rows: unknown[][]): string {
+  return rows.map(row => row.map(formatCell).join(',')).join('\r\n') + '\r\n';
+}
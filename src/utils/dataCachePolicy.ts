@@ -0,0 +1,46 @@
+// Cache policy shared by the client (IndexedDB) and server (KV) public-data
+// caches, so both tiers agree on keys and freshness.
+import type { DataCategory } from '@/services/providers/types';
+import { normalizeAddress } from '@/utils/addressDetection';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// MASTER_SPEC: property data is cached for 24 hours, market data for 1 hour
+export const DATA_CACHE_TTL_MS: Record<DataCategory, number> = {
+  tax: 24 * HOUR_MS,
+  market: HOUR_MS,
+  permits: 24 * HOUR_MS,
+  violations: 24 * HOUR_MS,
+  sales: 24 * HOUR_MS,
+  schools: 24 * HOUR_MS,
+  crime: 24 * HOUR_MS,
+  flood: 24 * HOUR_MS,
+  zoning: 24 * HOUR_MS,
+  demographics: 24 * HOUR_MS,
+  walkscore: 24 * HOUR_MS
+};
+
+// Past its TTL an entry is still served while a fresh copy is fetched in the
+// background (stale-while-revalidate), until it is this old
+export const DATA_CACHE_MAX_STALE_MS = 7 * 24 * HOUR_MS;
+
+// 'bypass' means the cache wasn't consulted (force refresh or no storage)
+export type CacheStatus = 'hit' | 'stale' | 'miss' | 'bypass';
+
+export type CacheFreshness = 'fresh' | 'stale' | 'expired';
+
+// Bump when a category's data shape changes so entries in the old shape are
+// never served (v2: flood became FloodZoneData, v3: zoning became ZoningData,
+// v4: violation status became open/closed, v5: demographics became tract-level)
+const DATA_CACHE_VERSION = 5;
+
+export function dataCacheKey(category: DataCategory, address: string): string {
+  return `v${DATA_CACHE_VERSION}:${category}:${normalizeAddress(address)}`;
+}
+
+export function cacheFreshness(category: DataCategory, fetchedAt: Date, now = Date.now()): CacheFreshness {
+  const age = now - fetchedAt.getTime();
+  if (age < DATA_CACHE_TTL_MS[category]) return 'fresh';
+  if (age < DATA_CACHE_MAX_STALE_MS) return 'stale';
+  return 'expired';
+}
@@ -0,0 +1,18 @@
+import type { FloodZoneData } from '@/types/publicData';
+
+// FEMA A and V zones (AE, AH, AO, A99, VE...) are Special Flood Hazard Areas
+export function isSpecialFloodHazardZone(zone: string): boolean {
+  return /^[AV]/i.test(zone.trim());
+}
+
+// V zones add wave action on top of the 1% annual flood
+export function isCoastalHighHazardZone(zone: string): boolean {
+  return /^V/i.test(zone.trim());
+}
+
+export function describeFloodZone(flood: FloodZoneData): string {
+  const parts = [`Zone ${flood.zone}`];
+  if (flood.sfha) parts.push('high risk');
+  if (flood.baseFloodElevation !== undefined) parts.push(`BFE ${flood.baseFloodElevation} ft`);
+  return parts.join(' · ');
+}
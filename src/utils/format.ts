@@ -0,0 +1,20 @@
+// Display helpers for field values and timestamps (conflict review, history, caches)
+
+export function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (value instanceof Date) return value.toLocaleString();
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Coarse "how long ago", e.g. for when cached data was fetched
+export function formatAge(date: Date, now = Date.now()): string {
+  const minutes = Math.floor((now - date.getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+}
@@ -0,0 +1,251 @@
+// Geometry helpers for the local GIS extracts (FEMA flood zones, zoning
+// districts, schools, TIGER/Line streets). Coordinates are GeoJSON order: [longitude, latitude]
+// in WGS84.
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+type Ring = number[][];
+
+export interface PolygonGeometry {
+  type: 'Polygon';
+  coordinates: Ring[];
+}
+
+export interface MultiPolygonGeometry {
+  type: 'MultiPolygon';
+  coordinates: Ring[][];
+}
+
+export interface PointGeometry {
+  type: 'Point';
+  coordinates: number[];
+}
+
+export interface LineStringGeometry {
+  type: 'LineString';
+  coordinates: number[][];
+}
+
+export interface GeoJsonFeature<P = Record<string, unknown>> {
+  type: 'Feature';
+  geometry: PolygonGeometry | MultiPolygonGeometry | PointGeometry | LineStringGeometry | { type: string } | null;
+  properties: P | null;
+}
+
+export interface GeoJsonFeatureCollection<P = Record<string, unknown>> {
+  type: 'FeatureCollection';
+  features: GeoJsonFeature<P>[];
+}
+
+// [minLng, minLat, maxLng, maxLat]
+export type BoundingBox = [number, number, number, number];
+
+export interface PolygonFeature<P> {
+  properties: P;
+  // One entry per polygon; each is an outer ring followed by its holes
+  polygons: Ring[][];
+  bbox: BoundingBox;
+}
+
+// Ray casting: count edge crossings to the right of the point
+function ringContains(ring: Ring, lng: number, lat: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function polygonContains(rings: Ring[], lng: number, lat: number): boolean {
+  const [outer, ...holes] = rings;
+  return !!outer && ringContains(outer, lng, lat) && !holes.some(hole => ringContains(hole, lng, lat));
+}
+
+function boundsOf(polygons: Ring[][]): BoundingBox {
+  const bbox: BoundingBox = [Infinity, Infinity, -Infinity, -Infinity];
+  polygons.forEach(([outer = []]) => {
+    outer.forEach(([lng, lat]) => {
+      bbox[0] = Math.min(bbox[0], lng);
+      bbox[1] = Math.min(bbox[1], lat);
+      bbox[2] = Math.max(bbox[2], lng);
+      bbox[3] = Math.max(bbox[3], lat);
+    });
+  });
+  return bbox;
+}
+
+// Keep the (Multi)Polygon features of a collection, with bounding boxes so
+// lookups can skip most of them cheaply
+export function indexPolygons<P>(collection: GeoJsonFeatureCollection<P>): PolygonFeature<P>[] {
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('Expected a GeoJSON FeatureCollection');
+  }
+
+  return collection.features.flatMap(feature => {
+    const geometry = feature.geometry;
+    let polygons: Ring[][];
+    if (geometry?.type === 'Polygon') {
+      polygons = [(geometry as PolygonGeometry).coordinates];
+    } else if (geometry?.type === 'MultiPolygon') {
+      polygons = (geometry as MultiPolygonGeometry).coordinates;
+    } else {
+      return [];
+    }
+    return [{ properties: (feature.properties ?? {}) as P, polygons, bbox: boundsOf(polygons) }];
+  });
+}
+
+export function findContaining<P>(features: PolygonFeature<P>[], point: GeoPoint): PolygonFeature<P>[] {
+  const { longitude: lng, latitude: lat } = point;
+  return features.filter(({ bbox, polygons }) =>
+    lng >= bbox[0] && lng <= bbox[2] && lat >= bbox[1] && lat <= bbox[3] &&
+    polygons.some(rings => polygonContains(rings, lng, lat))
+  );
+}
+
+export interface PointFeature<P> {
+  properties: P;
+  location: GeoPoint;
+}
+
+// Keep the Point features of a collection
+export function indexPoints<P>(collection: GeoJsonFeatureCollection<P>): PointFeature<P>[] {
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('Expected a GeoJSON FeatureCollection');
+  }
+
+  return collection.features.flatMap(feature => {
+    if (feature.geometry?.type !== 'Point') return [];
+    const [longitude, latitude] = (feature.geometry as PointGeometry).coordinates;
+    if (!Number.isFinite(longitude) || !Number.isFinite(latitude)) return [];
+    return [{ properties: (feature.properties ?? {}) as P, location: { latitude, longitude } }];
+  });
+}
+
+export interface LineFeature<P> {
+  properties: P;
+  line: number[][];
+  bbox: BoundingBox;
+}
+
+// Keep the LineString features of a collection (street centerlines)
+export function indexLines<P>(collection: GeoJsonFeatureCollection<P>): LineFeature<P>[] {
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('Expected a GeoJSON FeatureCollection');
+  }
+
+  return collection.features.flatMap(feature => {
+    if (feature.geometry?.type !== 'LineString') return [];
+    const line = (feature.geometry as LineStringGeometry).coordinates;
+    if (line.length < 2) return [];
+    return [{ properties: (feature.properties ?? {}) as P, line, bbox: boundsOf([[line]]) }];
+  });
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+// Great-circle (straight-line) distance in miles
+export function haversineMiles(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Property.geo and CommandContext.location are [latitude, longitude] pairs
+export type LatLng = [number, number];
+
+export function toLatLng(point: GeoPoint): LatLng {
+  return [point.latitude, point.longitude];
+}
+
+export function fromLatLng([latitude, longitude]: LatLng): GeoPoint {
+  return { latitude, longitude };
+}
+
+// Items sorted nearest first with their distance; items without a location are left out
+export function rankByDistance<T>(
+  items: T[],
+  origin: GeoPoint,
+  locate: (item: T) => GeoPoint | undefined
+): { item: T; distanceMiles: number }[] {
+  return items
+    .flatMap(item => {
+      const point = locate(item);
+      return point ? [{ item, distanceMiles: haversineMiles(origin, point) }] : [];
+    })
+    .sort((a, b) => a.distanceMiles - b.distanceMiles);
+}
+
+function lngLat([longitude, latitude]: number[]): GeoPoint {
+  return { latitude, longitude };
+}
+
+// Point at `fraction` (0-1) of the way along a line, by distance
+export function pointAlongLine(line: number[][], fraction: number): GeoPoint {
+  const lengths = line.slice(1).map((point, i) => haversineMiles(lngLat(line[i]), lngLat(point)));
+  let remaining = Math.min(1, Math.max(0, fraction)) * lengths.reduce((sum, length) => sum + length, 0);
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] || i === lengths.length - 1) {
+      const t = lengths[i] > 0 ? Math.min(1, remaining / lengths[i]) : 0;
+      const [lng1, lat1] = line[i];
+      const [lng2, lat2] = line[i + 1];
+      return { latitude: lat1 + (lat2 - lat1) * t, longitude: lng1 + (lng2 - lng1) * t };
+    }
+    remaining -= lengths[i];
+  }
+  return lngLat(line[0]);
+}
+
+export interface LineProjection {
+  // Closest point of the line
+  point: GeoPoint;
+  // How far along the line it is, 0-1 by distance
+  fraction: number;
+  distanceMiles: number;
+  // Side of the line the original point is on, facing along the line
+  side: 'left' | 'right';
+}
+
+// Closest point of a line to `point`. Each piece is projected on a flat
+// local grid, which is plenty at street scale.
+export function projectOntoLine(line: number[][], point: GeoPoint): LineProjection {
+  const scale = Math.cos((point.latitude * Math.PI) / 180);
+  const x = point.longitude * scale;
+  const y = point.latitude;
+  let best: { index: number; t: number; distance: number; cross: number } | null = null;
+
+  for (let i = 0; i < line.length - 1; i++) {
+    const [x1, y1] = [line[i][0] * scale, line[i][1]];
+    const [dx, dy] = [line[i + 1][0] * scale - x1, line[i + 1][1] - y1];
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0 ? Math.min(1, Math.max(0, ((x - x1) * dx + (y - y1) * dy) / lengthSquared)) : 0;
+    const distance = Math.hypot(x - (x1 + dx * t), y - (y1 + dy * t));
+    if (!best || distance < best.distance) {
+      best = { index: i, t, distance, cross: dx * (y - y1) - dy * (x - x1) };
+    }
+  }
+
+  const lengths = line.slice(1).map((vertex, i) => haversineMiles(lngLat(line[i]), lngLat(vertex)));
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  const { index = 0, t = 0, cross = 0 } = best ?? {};
+  const along = lengths.slice(0, index).reduce((sum, length) => sum + length, 0) + (lengths[index] ?? 0) * t;
+  const [lng1, lat1] = line[index];
+  const [lng2, lat2] = line[index + 1] ?? line[index];
+  const projected = { latitude: lat1 + (lat2 - lat1) * t, longitude: lng1 + (lng2 - lng1) * t };
+  return {
+    point: projected,
+    fraction: total > 0 ? along / total : 0,
+    distanceMiles: haversineMiles(point, projected),
+    side: cross > 0 ? 'left' : 'right'
+  };
+}
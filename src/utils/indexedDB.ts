@@ -0,0 +1,86 @@
+// Minimal promise wrapper around IndexedDB for client-side persistence
+
+const DB_NAME = 'property-os';
+const DB_VERSION = 3;
+
+// Every object store the app uses. Adding a store requires bumping DB_VERSION
+// so existing databases run the upgrade and create it.
+export type ObjectStoreName = 'state' | 'syncQueue' | 'publicDataCache';
+const OBJECT_STORES: ObjectStoreName[] = ['state', 'syncQueue', 'publicDataCache'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!isIndexedDBAvailable()) {
+        reject(new Error('IndexedDB is not supported in this environment'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        OBJECT_STORES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name);
+          }
+        });
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgraded the schema - close so it isn't blocked
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab'));
+    });
+
+    // Allow a later call to retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  storeName: ObjectStoreName,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = createRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function idbGet<T>(storeName: ObjectStoreName, key: IDBValidKey): Promise<T | undefined> {
+  return runRequest<T | undefined>(storeName, 'readonly', store => store.get(key));
+}
+
+export async function idbSet<T>(storeName: ObjectStoreName, key: IDBValidKey, value: T): Promise<void> {
+  await runRequest(storeName, 'readwrite', store => store.put(value, key));
+}
+
+export async function idbDelete(storeName: ObjectStoreName, key: IDBValidKey): Promise<void> {
+  await runRequest(storeName, 'readwrite', store => store.delete(key));
+}
+
+export async function idbGetAll<T>(storeName: ObjectStoreName): Promise<T[]> {
+  return runRequest<T[]>(storeName, 'readonly', store => store.getAll());
+}
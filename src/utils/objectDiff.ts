@@ -0,0 +1,92 @@
+// Path-level helpers for comparing nested records (sync merges, history).
+// Paths are dot-separated object keys. Arrays of records with unique `id`s
+// are addressed per item, e.g. `operations.tenants[t_1].rent`; any other
+// array, and Dates, are compared whole.
+
+type PlainObject = Record<string, unknown>;
+type Identified = PlainObject & { id: string };
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function isIdentifiedList(value: unknown): value is Identified[] {
+  if (!Array.isArray(value)) return false;
+  const ids = value.map(item => (isPlainObject(item) && typeof item.id === 'string' ? item.id : null));
+  return ids.every(id => id !== null) && new Set(ids).size === ids.length;
+}
+
+// `tenants[t_1]` -> { key: 'tenants', id: 't_1' }
+function parseSegment(segment: string): { key: string; id?: string } {
+  const match = segment.match(/^([^[]+)\[(.+)\]$/);
+  return match ? { key: match[1], id: match[2] } : { key: segment };
+}
+
+// Dates and their ISO strings compare equal, so API copies match local ones
+export function isEqualValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function getPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, segment) => {
+    if (!isPlainObject(value)) return undefined;
+    const { key, id } = parseSegment(segment);
+    if (id === undefined) return value[key];
+    const list = value[key];
+    return Array.isArray(list) ? list.find(item => isPlainObject(item) && item.id === id) : undefined;
+  }, source);
+}
+
+// Returns a copy with `path` set, cloning only the objects along the way.
+// Setting a list item to undefined removes it; unknown ids are appended.
+export function setPath<T>(target: T, path: string, value: unknown): T {
+  const [segment, ...rest] = path.split('.');
+  const { key, id } = parseSegment(segment);
+  const current: PlainObject = isPlainObject(target) ? target : {};
+
+  if (id === undefined) {
+    return {
+      ...current,
+      [key]: rest.length > 0 ? setPath(current[key], rest.join('.'), value) : value
+    } as T;
+  }
+
+  const list: unknown[] = Array.isArray(current[key]) ? current[key] as unknown[] : [];
+  const index = list.findIndex(item => isPlainObject(item) && item.id === id);
+  const item = rest.length > 0 ? setPath(index >= 0 ? list[index] : { id }, rest.join('.'), value) : value;
+
+  let next: unknown[];
+  if (item === undefined) {
+    next = list.filter((_, i) => i !== index);
+  } else if (index >= 0) {
+    next = list.map((existing, i) => (i === index ? item : existing));
+  } else {
+    next = [...list, item];
+  }
+  return { ...current, [key]: next } as T;
+}
+
+// Leaf paths whose values differ between `before` and `after`
+export function diffPaths(before: unknown, after: unknown, prefix = ''): string[] {
+  if (isIdentifiedList(before) && isIdentifiedList(after) && prefix) {
+    const ids = new Set([...before.map(item => item.id), ...after.map(item => item.id)]);
+    return [...ids].flatMap(id => {
+      const path = `${prefix}[${id}]`;
+      const previous = before.find(item => item.id === id);
+      const next = after.find(item => item.id === id);
+      // Added or removed items are one change, not one per field
+      return previous && next ? diffPaths(previous, next, path) : [path];
+    });
+  }
+
+  if (!isPlainObject(before) || !isPlainObject(after)) {
+    return isEqualValue(before, after) ? [] : [prefix];
+  }
+
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys].flatMap(key => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    return diffPaths(before[key], after[key], path);
+  });
+}
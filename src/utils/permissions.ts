@@ -0,0 +1,42 @@
+import type { UserRole } from '@/types';
+
+// Role-based permissions, shared by the API (enforcement) and the UI (hiding
+// actions the current user can't take)
+export type Permission =
+  | 'property:read'
+  | 'property:create'
+  | 'property:update'
+  | 'property:delete'
+  | 'workOrder:write'
+  | 'command:execute'
+  | 'data:lookup';
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  owner: [
+    'property:read',
+    'property:create',
+    'property:update',
+    'property:delete',
+    'workOrder:write',
+    'command:execute',
+    'data:lookup'
+  ],
+  manager: [
+    'property:read',
+    'property:create',
+    'property:update',
+    'workOrder:write',
+    'command:execute',
+    'data:lookup'
+  ],
+  viewer: [
+    'property:read',
+    'command:execute'
+  ]
+};
+
+export const USER_ROLES = Object.keys(ROLE_PERMISSIONS) as UserRole[];
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
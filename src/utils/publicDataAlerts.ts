@@ -0,0 +1,56 @@
+import type { Alert, WorkOrder } from '@/types';
+import type { PublicPropertyData, ViolationData } from '@/types/publicData';
+import { describeFloodZone, isCoastalHighHazardZone } from '@/utils/floodZone';
+
+function openViolations(publicData: PublicPropertyData): ViolationData[] {
+  return (publicData.violations ?? []).filter(violation => violation.status === 'open');
+}
+
+function describeViolation(violation: ViolationData): string {
+  const fine = violation.fine ? ` ($${violation.fine.toLocaleString()} fine)` : '';
+  return `${violation.description || violation.type}${fine}`;
+}
+
+// Alerts a property should carry because of what its public records say.
+// Ids are stable per property and cause, so re-running after a refresh
+// replaces alerts instead of duplicating them.
+export function publicDataAlerts(propertyId: string, publicData: PublicPropertyData): Alert[] {
+  const alerts: Alert[] = [];
+
+  const flood = publicData.floodZone;
+  if (flood?.sfha) {
+    alerts.push({
+      id: `alert_${propertyId}_flood_insurance`,
+      severity: isCoastalHighHazardZone(flood.zone) ? 'critical' : 'warning',
+      message: `High flood risk (${describeFloodZone(flood)}) - flood insurance is required for federally backed mortgages`,
+      timestamp: new Date()
+    });
+  }
+
+  openViolations(publicData).forEach(violation => {
+    alerts.push({
+      id: `alert_${propertyId}_violation_${violation.violationId}`,
+      severity: 'critical',
+      message: `Open code violation ${violation.violationId}: ${describeViolation(violation)}`,
+      timestamp: new Date()
+    });
+  });
+
+  return alerts;
+}
+
+// Draft work orders for open code violations, one per violation, with ids
+// stable the same way as publicDataAlerts
+export function publicDataWorkOrders(propertyId: string, publicData: PublicPropertyData): WorkOrder[] {
+  return openViolations(publicData).map(violation => ({
+    id: `wo_${propertyId}_violation_${violation.violationId}`,
+    title: `Resolve code violation ${violation.violationId}`,
+    description: describeViolation(violation) +
+      (violation.issueDate ? ` - cited ${new Date(violation.issueDate).toLocaleDateString()}` : '') +
+      (violation.statusDetail ? `, status ${violation.statusDetail}` : ''),
+    status: 'draft',
+    priority: 'high',
+    createdAt: new Date(),
+    estimatedCost: 0
+  }));
+}
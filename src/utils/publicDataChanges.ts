@@ -0,0 +1,162 @@
+import type { Activity, Alert } from '@/types';
+import type { PropertyComparable, PublicDataField, PublicPropertyData, TaxData } from '@/types/publicData';
+import { describeFloodZone } from '@/utils/floodZone';
+
+export type PublicDataChangeKind = 'permit' | 'violation' | 'reassessment' | 'comp-sale' | 'flood-zone';
+
+// One meaningful difference between two snapshots of a property's records.
+// `key` identifies the cause, so the same change never alerts twice.
+export interface PublicDataChange {
+  kind: PublicDataChangeKind;
+  key: string;
+  severity: Alert['severity'];
+  message: string;
+  // When the change happened, if the record says (issue date, sale date...)
+  occurredAt?: Date;
+  details?: Record<string, unknown>;
+}
+
+// Snapshots restored from storage may hold date strings
+function time(value: Date | string | undefined): number {
+  return value ? new Date(value).getTime() : NaN;
+}
+
+function dayKey(value: Date | string | undefined): string {
+  const at = time(value);
+  return Number.isFinite(at) ? new Date(at).toISOString().slice(0, 10) : 'undated';
+}
+
+function money(value: number): string {
+  return `$${Math.round(value).toLocaleString()}`;
+}
+
+function newPermits(previous: PublicPropertyData, next: PublicPropertyData): PublicDataChange[] {
+  if (!previous.permits || !next.permits) return [];
+  const known = new Set(previous.permits.map(permit => permit.permitNumber));
+  return next.permits
+    .filter(permit => !known.has(permit.permitNumber))
+    .map(permit => ({
+      kind: 'permit',
+      key: permit.permitNumber,
+      severity: 'info',
+      message: `New ${permit.type || 'building'} permit ${permit.permitNumber}: ${permit.description}` +
+        (permit.value > 0 ? ` (${money(permit.value)})` : ''),
+      occurredAt: permit.issueDate ? new Date(permit.issueDate) : undefined,
+      details: { permitNumber: permit.permitNumber, status: permit.status, value: permit.value }
+    }));
+}
+
+function newViolations(previous: PublicPropertyData, next: PublicPropertyData): PublicDataChange[] {
+  if (!previous.violations || !next.violations) return [];
+  const known = new Set(previous.violations.map(violation => violation.violationId));
+  return next.violations
+    .filter(violation => !known.has(violation.violationId))
+    .map(violation => ({
+      kind: 'violation',
+      key: violation.violationId,
+      severity: violation.status === 'open' ? 'critical' : 'info',
+      message: `New code violation ${violation.violationId}: ${violation.description || violation.type}` +
+        (violation.status === 'closed' ? ' (already closed)' : ''),
+      occurredAt: violation.issueDate ? new Date(violation.issueDate) : undefined,
+      details: { violationId: violation.violationId, status: violation.status, fine: violation.fine }
+    }));
+}
+
+function reassessment(previous?: TaxData, next?: TaxData): PublicDataChange[] {
+  if (!previous?.assessedValue || !next?.assessedValue || previous.assessedValue === next.assessedValue) return [];
+  const change = (next.assessedValue - previous.assessedValue) / previous.assessedValue;
+  const taxChange = next.taxAmount - previous.taxAmount;
+  return [{
+    kind: 'reassessment',
+    key: `${next.assessedValue}_${dayKey(next.lastAssessment)}`,
+    // Big jumps usually mean a bigger tax bill worth appealing
+    severity: Math.abs(change) >= 0.1 ? 'warning' : 'info',
+    message: `Reassessed at ${money(next.assessedValue)}, ${change > 0 ? 'up' : 'down'} ${Math.abs(change * 100).toFixed(1)}% ` +
+      `from ${money(previous.assessedValue)}` +
+      (previous.taxAmount && taxChange !== 0 ? `; annual taxes ${taxChange > 0 ? '+' : '-'}${money(Math.abs(taxChange))}` : ''),
+    occurredAt: new Date(next.lastAssessment),
+    details: { previous: previous.assessedValue, current: next.assessedValue }
+  }];
+}
+
+const compKey = (comp: PropertyComparable) => `${(comp.address ?? '').trim().toUpperCase().replace(/\s+/g, '-')}_${dayKey(comp.saleDate)}`;
+
+// A comp counts as newly sold when its sale postdates every comp sale the
+// previous snapshot knew about, so reshuffled comp lists don't alert
+function compSales(previous: PublicPropertyData, next: PublicPropertyData): PublicDataChange[] {
+  const before = previous.marketData?.comparables;
+  const after = next.marketData?.comparables;
+  if (!before || !after) return [];
+  const known = new Set(before.map(compKey));
+  const latestKnown = Math.max(...before.map(comp => time(comp.saleDate)).filter(Number.isFinite), 0);
+  // Comps without a readable sale date can't be placed, so they never alert
+  return after
+    .filter(comp => time(comp.saleDate) > latestKnown && !known.has(compKey(comp)))
+    .map(comp => ({
+      kind: 'comp-sale',
+      key: compKey(comp),
+      severity: 'info',
+      message: `Comparable sale: ${comp.address} sold for ${money(comp.price)}` +
+        (comp.pricePerSqft > 0 ? ` (${money(comp.pricePerSqft)}/sq ft)` : '') +
+        (Number.isFinite(comp.distance) ? ` ${comp.distance.toFixed(1)} mi away` : ''),
+      occurredAt: new Date(comp.saleDate),
+      details: { address: comp.address, price: comp.price, distance: comp.distance }
+    }));
+}
+
+function floodZoneChange(previous: PublicPropertyData, next: PublicPropertyData): PublicDataChange[] {
+  const before = previous.floodZone;
+  const after = next.floodZone;
+  if (!before || !after || (before.zone === after.zone && before.sfha === after.sfha)) return [];
+  const intoSfha = after.sfha && !before.sfha;
+  return [{
+    kind: 'flood-zone',
+    key: `${before.zone}_${after.zone}`,
+    severity: intoSfha ? 'critical' : 'warning',
+    message: `FEMA flood map changed from ${describeFloodZone(before)} to ${describeFloodZone(after)}` +
+      (intoSfha ? ' - flood insurance is now required for federally backed mortgages' : ''),
+    details: { previous: before.zone, current: after.zone }
+  }];
+}
+
+// Failed categories are stored empty, so only a source marked 'ok' says
+// what the records actually were
+function fetched(snapshot: PublicPropertyData, field: PublicDataField): boolean {
+  return snapshot.sources?.[field]?.status === 'ok';
+}
+
+// What changed between two snapshots of the same property. Categories not
+// fetched successfully on both sides are skipped, so a first fetch or a
+// flaky provider doesn't read as a wave of new records.
+export function diffPublicData(previous: PublicPropertyData, next: PublicPropertyData): PublicDataChange[] {
+  const compared = (field: PublicDataField) => fetched(previous, field) && fetched(next, field);
+  return [
+    ...(compared('permits') ? newPermits(previous, next) : []),
+    ...(compared('violations') ? newViolations(previous, next) : []),
+    ...(compared('taxAssessment') ? reassessment(previous.taxAssessment, next.taxAssessment) : []),
+    ...(compared('marketData') ? compSales(previous, next) : []),
+    ...(compared('floodZone') ? floodZoneChange(previous, next) : [])
+  ];
+}
+
+// New violations keep the id publicDataAlerts uses, so they don't show twice
+export function changeAlert(propertyId: string, change: PublicDataChange, detectedAt = new Date()): Alert {
+  return {
+    id: change.kind === 'violation'
+      ? `alert_${propertyId}_violation_${change.key}`
+      : `alert_${propertyId}_${change.kind}_${change.key}`,
+    severity: change.severity,
+    message: change.message,
+    timestamp: detectedAt
+  };
+}
+
+export function changeActivity(propertyId: string, change: PublicDataChange, detectedAt = new Date()): Activity {
+  return {
+    id: `activity_${propertyId}_${change.kind}_${change.key}`,
+    timestamp: detectedAt,
+    type: 'public-record',
+    description: change.message,
+    metadata: { kind: change.kind, occurredAt: change.occurredAt, ...change.details }
+  };
+}
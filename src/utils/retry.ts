@@ -0,0 +1,54 @@
+// Timeout and retry helpers for calls to flaky third-party sources
+
+export class TimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Rejects with TimeoutError after timeoutMs and aborts the signal handed to
+// run, so an in-flight fetch is cancelled rather than left running
+export function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+  const controller = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(new TimeoutError(timeoutMs));
+    }, timeoutMs);
+
+    run(controller.signal).then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+}
+
+export interface RetryOptions {
+  // Extra attempts after the first one
+  retries: number;
+  // Delay before the first retry; doubles on each one after that
+  baseDelayMs: number;
+  shouldRetry: (error: unknown) => boolean;
+}
+
+// Thrown once retries run out, wrapping the last attempt's error
+export class RetryError extends Error {
+  constructor(public readonly lastError: unknown, public readonly attempts: number) {
+    super(lastError instanceof Error ? lastError.message : String(lastError));
+    this.name = 'RetryError';
+  }
+}
+
+// Resolves with the first successful attempt; rejects with a RetryError once
+// retries run out or shouldRetry says the failure is permanent
+export async function retryWithBackoff<T>(run: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      if (attempt > options.retries || !options.shouldRetry(error)) {
+        throw new RetryError(error, attempt);
+      }
+      const delay = options.baseDelayMs * 2 ** (attempt - 1);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import type { PricePoint, SaleData } from '@/types/publicData';
+
+// Newest first, the order recorder and deed feeds rarely agree on
+export function sortSales(sales: SaleData[]): SaleData[] {
+  return [...sales].sort((a, b) => b.saleDate.getTime() - a.saleDate.getTime());
+}
+
+// The most recent sale with a price. Quitclaims and other transfers
+// between family members or LLCs are recorded at $0 and say nothing
+// about what the property cost.
+export function latestSale(sales: SaleData[]): SaleData | undefined {
+  return sortSales(sales).find(sale => sale.salePrice > 0);
+}
+
+// Add recorded sales to a market price history, skipping any the market
+// feed already lists on the same day
+export function mergeSalesIntoPriceHistory(history: PricePoint[], sales: SaleData[]): PricePoint[] {
+  const day = (date: Date) => date.toISOString().slice(0, 10);
+  const known = new Set(history.map(point => day(point.date)));
+  const recorded = sales
+    .filter(sale => sale.salePrice > 0 && !known.has(day(sale.saleDate)))
+    .map(sale => ({ date: sale.saleDate, price: sale.salePrice, event: 'Sold' }));
+  return [...history, ...recorded].sort((a, b) => a.date.getTime() - b.date.getTime());
+}
@@ -0,0 +1,19 @@
+// JSON helpers that keep Date fields intact across storage round trips
+
+// Matches the exact output of Date.prototype.toJSON, which is what
+// JSON.stringify writes for every Date in a Property.
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d{1,3})?Z$/;
+
+export function reviveDates(_key: string, value: unknown): unknown {
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) {
+      return date;
+    }
+  }
+  return value;
+}
+
+export function parseWithDates<T>(text: string): T {
+  return JSON.parse(text, reviveDates) as T;
+}
@@ -0,0 +1,25 @@
+import type { ViolationStatus } from '@/types/publicData';
+
+// Code-enforcement portals each spell "open" and "closed" their own way:
+// OPEN, ACTIVE, IN VIOLATION / CLOSED, COMPLIED, RESOLVE, DISMISSED, ABATED...
+// Words are matched whole so INACTIVE, SUSPENDED or RENEWED don't read as
+// ACTIVE, PEND or NEW, and negations are checked first: "NOT COMPLIED" and
+// "UNRESOLVED" stay open, "INACTIVE" and "NOT ACTIVE" are closed.
+const NEGATED_CLOSED = /\b(not|non)[\s-]*(in[\s-]+)?(compl\w*|resolved?|abated?|cured|paid)\b|\bun(resolved|cured|paid|abated)\b/i;
+const NEGATED_OPEN = /\binactive\b|\bnot[\s-]+(open|active|pending)\b/i;
+const OPEN_STATUS = /\b(re)?open(ed)?\b|\bactive\b|\bpend(ing)?\b|\boutstanding\b|\bin violation\b|\bdefault(ed)?\b|\bhearing\b|\bissued\b|\bnew\b/i;
+const CLOSED_STATUS = /\bclosed?\b|\bcompl(ied|iance|ete|eted)\b|\bresolved?\b|\bdismiss(ed)?\b|\babated?\b|\bcured\b|\bfinal(ed)?\b|\bpaid\b|\bcancell?ed\b/i;
+
+// A blank or unrecognized status is 'unknown', so a dataset without a status
+// column doesn't raise every row as an open violation
+export function normalizeViolationStatus(raw: unknown, closedStatuses?: string[]): ViolationStatus {
+  const status = raw === null || raw === undefined ? '' : String(raw).trim();
+  if (!status) return 'unknown';
+  if (closedStatuses) {
+    return closedStatuses.some(closed => closed.toUpperCase() === status.toUpperCase()) ? 'closed' : 'open';
+  }
+  if (NEGATED_CLOSED.test(status)) return 'open';
+  if (NEGATED_OPEN.test(status)) return 'closed';
+  if (OPEN_STATUS.test(status)) return 'open';
+  return CLOSED_STATUS.test(status) ? 'closed' : 'unknown';
+}
@@ -0,0 +1,19 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 'api' keeps properties in the Pages Functions KV store, anything else is local only
+  readonly VITE_PROPERTY_BACKEND?: 'local' | 'api';
+  readonly VITE_API_BASE_URL?: string;
+  // JSON ProviderConfig for public-data lookups, e.g. {"*":["fixture"]}
+  readonly VITE_DATA_PROVIDERS?: string;
+  // JSON ReconciliationPolicy for conflicting property facts (see FieldReconciler)
+  readonly VITE_FIELD_PRECEDENCE?: string;
+  // JSON list of geocoders to try in order, e.g. ["fixture"] (see GeolocationService)
+  readonly VITE_GEOCODERS?: string;
+  // URL of the TIGER/Line county manifest; adds 'tiger' to the default geocoders
+  readonly VITE_TIGER_MANIFEST?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
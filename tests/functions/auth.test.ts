@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { authenticateRequest } from '../../functions/_lib/auth';
+import { HttpError } from '../../functions/_lib/http';
+
+const SECRET = 'test-secret';
+
+function base64Url(input: string | Uint8Array): string {
+  return Buffer.from(input).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+async function signToken(claims: Record<string, unknown>): Promise<string> {
+  const unsigned = `${base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64Url(JSON.stringify(claims))}`;
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(SECRET), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(unsigned));
+  return `${unsigned}.${base64Url(new Uint8Array(signature))}`;
+}
+
+function requestWith(token: string): Request {
+  return new Request('https://app.test/api/property', { headers: { Authorization: `Bearer ${token}` } });
+}
+
+describe('authenticateRequest', () => {
+  it('accepts a signed token and exposes the caller', async () => {
+    const token = await signToken({ sub: 'u_1', name: 'Pat', email: 'pat@example.com', role: 'manager', org: 'org_1', orgName: 'Acme' });
+    const auth = await authenticateRequest(requestWith(token), { JWT_SECRET: SECRET });
+
+    expect(auth.user).toMatchObject({ id: 'u_1', role: 'manager', organizationId: 'org_1' });
+    expect(auth.organization).toEqual({ id: 'org_1', name: 'Acme' });
+  });
+
+  it.each(['org:other', 'org/1', '../org_1', 'org 1'])('answers 401 for organization id %j', async org => {
+    const token = await signToken({ sub: 'u_1', name: 'Pat', email: '', role: 'owner', org });
+    const error = await authenticateRequest(requestWith(token), { JWT_SECRET: SECRET }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({ status: 401, code: 'unauthorized' });
+  });
+
+  it('answers 401 for a bad signature', async () => {
+    const token = await signToken({ sub: 'u_1', name: 'Pat', email: '', role: 'owner', org: 'org_1' });
+    const tampered = `${token.slice(0, -4)}AAAA`;
+
+    await expect(authenticateRequest(requestWith(tampered), { JWT_SECRET: SECRET })).rejects.toMatchObject({ status: 401 });
+  });
+});
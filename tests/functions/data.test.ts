@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { onRequestGet } from '../../functions/api/data/[category]';
+import type { Env } from '../../functions/_lib/types';
+import { startFakeUpstream, type FakeUpstream } from '../helpers/fakeUpstream';
+import { callHandler } from './pagesContext';
+
+const ADDRESS = '123 Main St, Springfield, IL 62701';
+
+describe('GET /api/data/:category', () => {
+  let upstream: FakeUpstream;
+  let env: Env;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    upstream = await startFakeUpstream({
+      '/api/v1/properties': url => ({
+        body: {
+          properties: url.searchParams.get('address') === ADDRESS
+            ? [{ assessedValue: 250000, taxAmount: 5100, yearBuilt: 1925, bedrooms: 3, lastAssessment: '2024-01-01' }]
+            : []
+        }
+      }),
+      '/propertyapi/v1.0.0/property/detail': {
+        body: { property: [{ assessment: { assessed: { total: 240000 }, tax: { taxAmt: 4900 } }, building: { rooms: { beds: 4 } } }] }
+      },
+      '/propertyapi/v1.0.0/saleshistory/expandedhistory': {
+        body: {
+          property: [{
+            building: { size: { livingSize: 1500 } },
+            saleHistory: [
+              { saleTransDate: '2019-06-14', amount: { saleAmt: 210000, saleDocType: 'WARRANTY DEED' } },
+              { amount: { saleAmt: 5000, saleDocType: 'QUIT CLAIM' } }
+            ]
+          }]
+        }
+      },
+      '/score': { body: { status: 1, walkscore: 87 } }
+    });
+    env = {
+      PROPERTIES: {} as KVNamespace,
+      REALTYMOLE_API_KEY: 'rm-key',
+      REALTYMOLE_BASE_URL: upstream.url,
+      WALKSCORE_API_KEY: 'ws-key',
+      WALKSCORE_BASE_URL: upstream.url,
+      ATTOM_BASE_URL: upstream.url
+    };
+  });
+
+  afterEach(async () => {
+    await upstream.close();
+    vi.restoreAllMocks();
+  });
+
+  it('normalizes the vendor record and passes the key upstream', async () => {
+    const { status, headers, body } = await callHandler(onRequestGet, `/api/data/tax?address=${encodeURIComponent(ADDRESS)}`, {
+      env,
+      params: { category: 'tax' }
+    });
+
+    expect(status).toBe(200);
+    expect(headers.get('X-Cache')).toBe('BYPASS');
+    expect(body).toMatchObject({
+      success: true,
+      category: 'tax',
+      data: { assessedValue: 250000, taxAmount: 5100, yearBuilt: 1925, bedrooms: 3, source: 'RealtyMole' }
+    });
+    expect(upstream.requests).toEqual([`/api/v1/properties?address=${encodeURIComponent(ADDRESS)}`]);
+    expect(upstream.lastHeaders['x-rapidapi-key']).toBe('rm-key');
+  });
+
+  it('falls back to the next vendor when the first one fails', async () => {
+    env.ATTOM_API_KEY = 'attom-key';
+    env.REALTYMOLE_BASE_URL = `${upstream.url}/missing`;
+    const { status, body } = await callHandler(onRequestGet, `/api/data/tax?address=${encodeURIComponent(ADDRESS)}`, {
+      env,
+      params: { category: 'tax' }
+    });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ data: { assessedValue: 240000, bedrooms: 4, source: 'Attom' } });
+  });
+
+  it('only asks the next vendor when the first one has no record', async () => {
+    env.ATTOM_API_KEY = 'attom-key';
+    const found = await callHandler(onRequestGet, `/api/data/tax?address=${encodeURIComponent(ADDRESS)}`, {
+      env,
+      params: { category: 'tax' }
+    });
+
+    expect(found.body).toMatchObject({ data: { assessedValue: 250000, source: 'RealtyMole' } });
+    expect(upstream.requests).toHaveLength(1);
+
+    const other = '9 Elm St, Springfield, IL 62701';
+    const missing = await callHandler(onRequestGet, `/api/data/tax?address=${encodeURIComponent(other)}`, {
+      env,
+      params: { category: 'tax' }
+    });
+
+    expect(missing.body).toMatchObject({ data: { assessedValue: 240000, source: 'Attom' } });
+    expect(upstream.requests.slice(1)).toEqual([
+      `/api/v1/properties?address=${encodeURIComponent(other)}`,
+      `/propertyapi/v1.0.0/property/detail?address1=${encodeURIComponent(other)}`
+    ]);
+  });
+
+  it('answers 502 when every vendor fails', async () => {
+    env.ATTOM_API_KEY = 'attom-key';
+    env.REALTYMOLE_BASE_URL = `${upstream.url}/missing`;
+    env.ATTOM_BASE_URL = `${upstream.url}/missing`;
+    const { status, body } = await callHandler(onRequestGet, `/api/data/tax?address=${encodeURIComponent(ADDRESS)}`, {
+      env,
+      params: { category: 'tax' }
+    });
+
+    expect(status).toBe(502);
+    expect(body).toMatchObject({ success: false, error: { code: 'upstream_error' } });
+    expect(upstream.requests).toHaveLength(2);
+  });
+
+  it('returns the walk score', async () => {
+    env.WALKSCORE_API_KEY = 'ws&key=1';
+    const { status, body } = await callHandler(onRequestGet, `/api/data/walkscore?address=${encodeURIComponent(ADDRESS)}`, {
+      env,
+      params: { category: 'walkscore' }
+    });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ data: 87 });
+    const query = new URL(upstream.requests[0], upstream.url).searchParams;
+    expect(query.get('address')).toBe(ADDRESS);
+    expect(query.get('wsapikey')).toBe('ws&key=1');
+  });
+
+  it('leaves out sales without a date', async () => {
+    env.ATTOM_API_KEY = 'attom-key';
+    const { status, body } = await callHandler(onRequestGet, `/api/data/sales?address=${encodeURIComponent(ADDRESS)}`, {
+      env,
+      params: { category: 'sales' }
+    });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      data: [{ saleDate: '2019-06-14T00:00:00.000Z', salePrice: 210000, pricePerSqft: 140, deedType: 'WARRANTY DEED' }]
+    });
+    expect((body as { data: unknown[] }).data).toHaveLength(1);
+  });
+
+  it('answers 503 when no vendor is configured', async () => {
+    const { status, body } = await callHandler(onRequestGet, `/api/data/market?address=${encodeURIComponent(ADDRESS)}`, {
+      env,
+      params: { category: 'market' }
+    });
+
+    expect(status).toBe(503);
+    expect(body).toMatchObject({ error: { code: 'not_configured' } });
+    expect(upstream.requests).toEqual([]);
+  });
+
+  it('rejects unknown categories and missing addresses', async () => {
+    const unknown = await callHandler(onRequestGet, '/api/data/nope?address=x', { env, params: { category: 'nope' } });
+    const missing = await callHandler(onRequestGet, '/api/data/tax', { env, params: { category: 'tax' } });
+
+    expect(unknown.status).toBe(404);
+    expect(missing.status).toBe(422);
+  });
+
+  it('requires the data:lookup permission', async () => {
+    const { status } = await callHandler(onRequestGet, `/api/data/tax?address=${encodeURIComponent(ADDRESS)}`, {
+      env,
+      params: { category: 'tax' },
+      data: {
+        user: { id: 'u_view', name: 'Viewer', email: '', role: 'viewer', organizationId: 'org_test' },
+        organization: { id: 'org_test', name: 'Test Org' }
+      }
+    });
+
+    expect(status).toBe(403);
+    expect(upstream.requests).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { onRequestGet as forward } from '../../functions/api/geocode/forward';
+import { onRequestGet as reverse } from '../../functions/api/geocode/reverse';
+import type { Env } from '../../functions/_lib/types';
+import { startFakeUpstream, type FakeUpstream } from '../helpers/fakeUpstream';
+import { callHandler } from './pagesContext';
+
+const GOOGLE_FORWARD = {
+  status: 'OK',
+  results: [{ geometry: { location: { lat: 41.88357, lng: -87.63226 }, location_type: 'ROOFTOP' } }]
+};
+
+const GOOGLE_REVERSE = {
+  status: 'OK',
+  results: [{
+    formatted_address: '121 N LaSalle St, Chicago, IL 60602, USA',
+    address_components: [
+      { long_name: '121', short_name: '121', types: ['street_number'] },
+      { long_name: 'North LaSalle Street', short_name: 'N LaSalle St', types: ['route'] },
+      { long_name: 'Chicago', short_name: 'Chicago', types: ['locality'] },
+      { long_name: 'Illinois', short_name: 'IL', types: ['administrative_area_level_1'] },
+      { long_name: '60602', short_name: '60602', types: ['postal_code'] }
+    ]
+  }]
+};
+
+const MAPBOX_FORWARD = {
+  features: [{ center: [-87.6323, 41.8836], place_type: ['address'] }]
+};
+
+describe('GET /api/geocode/{forward,reverse}', () => {
+  let upstream: FakeUpstream;
+  let env: Env;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    upstream = await startFakeUpstream({
+      '/maps/api/geocode/json': url => ({ body: url.searchParams.has('latlng') ? GOOGLE_REVERSE : GOOGLE_FORWARD }),
+      [`/geocoding/v5/mapbox.places/${encodeURIComponent('121 N LaSalle St, Chicago, IL')}.json`]: { body: MAPBOX_FORWARD }
+    });
+    env = {
+      PROPERTIES: {} as KVNamespace,
+      GOOGLE_MAPS_API_KEY: 'g-key',
+      GOOGLE_MAPS_BASE_URL: upstream.url,
+      MAPBOX_BASE_URL: upstream.url
+    };
+  });
+
+  afterEach(async () => {
+    await upstream.close();
+    vi.restoreAllMocks();
+  });
+
+  it('forward-geocodes through Google Maps', async () => {
+    const { status, body } = await callHandler(forward, `/api/geocode/forward?address=${encodeURIComponent('121 N LaSalle St, Chicago, IL')}`, { env });
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ success: true, coordinates: { latitude: 41.88357, longitude: -87.63226, accuracy: 10 } });
+    expect(upstream.requests[0]).toContain('key=g-key');
+  });
+
+  it('falls back to MapBox when Google Maps fails', async () => {
+    env.GOOGLE_MAPS_BASE_URL = `${upstream.url}/missing`;
+    env.MAPBOX_API_KEY = 'mb-key';
+    const { status, body } = await callHandler(forward, `/api/geocode/forward?address=${encodeURIComponent('121 N LaSalle St, Chicago, IL')}`, { env });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ coordinates: { latitude: 41.8836, longitude: -87.6323, accuracy: 50 } });
+    expect(upstream.requests).toHaveLength(2);
+  });
+
+  it('reverse-geocodes into address parts', async () => {
+    const { status, body } = await callHandler(reverse, '/api/geocode/reverse?lat=41.88357&lng=-87.63226&accuracy=10', { env });
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      success: true,
+      address: { city: 'Chicago', state: 'IL', zip: '60602', coordinates: { latitude: 41.88357, longitude: -87.63226 } }
+    });
+    expect(upstream.requests[0]).toContain('latlng=41.88357,-87.63226');
+  });
+
+  it('validates coordinates before calling upstream', async () => {
+    const { status, body } = await callHandler(reverse, '/api/geocode/reverse?lat=123&lng=-87.6', { env });
+
+    expect(status).toBe(422);
+    expect(body).toMatchObject({ error: { code: 'validation_error' } });
+    expect(upstream.requests).toEqual([]);
+  });
+
+  it('answers 502 when every geocoder fails', async () => {
+    env.GOOGLE_MAPS_BASE_URL = `${upstream.url}/missing`;
+    const { status, body } = await callHandler(forward, '/api/geocode/forward?address=nowhere', { env });
+
+    expect(status).toBe(502);
+    expect(body).toMatchObject({ error: { code: 'upstream_error' } });
+  });
+
+  it('answers 404 when no geocoder finds the address', async () => {
+    env.MAPBOX_API_KEY = 'mb-key';
+    const none = await startFakeUpstream({
+      '/maps/api/geocode/json': { body: { status: 'ZERO_RESULTS', results: [] } },
+      '/geocoding/v5/mapbox.places/nowhere.json': { body: { features: [] } }
+    });
+    env.GOOGLE_MAPS_BASE_URL = none.url;
+    env.MAPBOX_BASE_URL = none.url;
+    const { status, body } = await callHandler(forward, '/api/geocode/forward?address=nowhere', { env });
+    await none.close();
+
+    expect(status).toBe(404);
+    expect(body).toMatchObject({ error: { code: 'not_found' } });
+    expect(none.requests).toHaveLength(2);
+  });
+
+  it('answers 503 without any geocoding key', async () => {
+    delete env.GOOGLE_MAPS_API_KEY;
+    const { status } = await callHandler(forward, '/api/geocode/forward?address=nowhere', { env });
+
+    expect(status).toBe(503);
+  });
+});
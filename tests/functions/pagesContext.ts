@@ -0,0 +1,36 @@
+import type { AuthData } from '../../functions/_lib/auth';
+
+export const OWNER: AuthData = {
+  user: { id: 'u_owner', name: 'Owner', email: 'owner@example.com', role: 'owner', organizationId: 'org_test' },
+  organization: { id: 'org_test', name: 'Test Org' }
+};
+
+interface CallOptions<E> {
+  env: E;
+  params?: Record<string, string>;
+  data?: AuthData;
+  init?: RequestInit;
+}
+
+// Invoke a Pages Function the way the runtime would, minus the middleware
+export async function callHandler<E>(
+  handler: PagesFunction<E, string, AuthData>,
+  url: string,
+  { env, params = {}, data = OWNER, init }: CallOptions<E>
+): Promise<{ status: number; headers: Headers; body: unknown }> {
+  const pending: Promise<unknown>[] = [];
+  const context = {
+    request: new Request(new URL(url, 'https://app.test'), init),
+    env,
+    params,
+    data,
+    waitUntil: (promise: Promise<unknown>) => { pending.push(promise); },
+    passThroughOnException: () => undefined,
+    next: async () => new Response(null, { status: 404 }),
+    functionPath: new URL(url, 'https://app.test').pathname
+  } as unknown as EventContext<E, string, AuthData>;
+
+  const response = await handler(context);
+  await Promise.all(pending);
+  return { status: response.status, headers: response.headers, body: await response.json() };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { HttpError } from '../../functions/_lib/http';
+import { enforceRateLimit, matchRoute, resolveRateLimit } from '../../functions/_lib/rateLimit';
+
+const CONFIG = JSON.stringify({
+  rules: { lookup: { limit: 20 } },
+  routes: {
+    '/api/geocode/*': { lookup: { limit: 2 } },
+    '/api/data/[category]': { lookup: { limit: 5, windowSeconds: 60 } }
+  },
+  users: { u_1: { lookup: { limit: 50 } } }
+});
+
+// Just enough of a KV namespace for the counters
+function memoryKV(): KVNamespace {
+  const values = new Map<string, string>();
+  return {
+    get: async (key: string) => values.get(key) ?? null,
+    put: async (key: string, value: string) => {
+      values.set(key, value);
+    }
+  } as unknown as KVNamespace;
+}
+
+describe('matchRoute', () => {
+  it.each([
+    ['/api/geocode/*', '/api/geocode/forward', true],
+    ['/api/geocode/*', '/api/geocode', false],
+    ['/api/data/[category]', '/api/data/tax', true],
+    ['/api/data/[category]', '/api/data/tax/extra', false],
+    ['/api/data/[category]', '/api/geocode/tax', false],
+    ['/api/property', '/api/property', true]
+  ])('%s against %s is %s', (pattern, pathname, expected) => {
+    expect(matchRoute(pattern, pathname)).toBe(expected);
+  });
+});
+
+describe('resolveRateLimit', () => {
+  const env = { RATE_LIMIT_CONFIG: CONFIG };
+
+  it('gives each configured route its own budget', () => {
+    expect(resolveRateLimit(env, 'lookup', undefined, '/api/geocode/forward')).toEqual({
+      limit: 2,
+      windowSeconds: 600,
+      route: '/api/geocode/*'
+    });
+    expect(resolveRateLimit(env, 'lookup', undefined, '/api/data/tax')).toEqual({
+      limit: 5,
+      windowSeconds: 60,
+      route: '/api/data/[category]'
+    });
+  });
+
+  it('falls back to the rule limits for other routes and rules', () => {
+    expect(resolveRateLimit(env, 'lookup', undefined, '/api/property')).toEqual({ limit: 20, windowSeconds: 600 });
+    expect(resolveRateLimit(env, 'read', undefined, '/api/data/tax')).toEqual({ limit: 300, windowSeconds: 60 });
+  });
+
+  it('lets a user override win over the route', () => {
+    expect(resolveRateLimit(env, 'lookup', 'u_1', '/api/geocode/forward')).toMatchObject({ limit: 50, route: '/api/geocode/*' });
+  });
+});
+
+describe('enforceRateLimit', () => {
+  it('counts routes with their own budget separately', async () => {
+    const env = { RATE_LIMITS: memoryKV(), RATE_LIMIT_CONFIG: CONFIG };
+    const geocode = new Request('https://app.test/api/geocode/forward');
+    const data = new Request('https://app.test/api/data/tax');
+
+    await enforceRateLimit(geocode, env, {}, 'lookup');
+    await enforceRateLimit(geocode, env, {}, 'lookup');
+    const error = await enforceRateLimit(geocode, env, {}, 'lookup').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({ status: 429, code: 'rate_limited' });
+    await expect(enforceRateLimit(data, env, {}, 'lookup')).resolves.toMatchObject({ allowed: true, limit: 5, remaining: 4 });
+  });
+});
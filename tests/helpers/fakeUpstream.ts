@@ -0,0 +1,36 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface FakeRoute {
+  status?: number;
+  body: unknown;
+}
+
+export interface FakeUpstream {
+  url: string;
+  // Path and query of every request received, in order
+  requests: string[];
+  // Headers of the last request
+  lastHeaders: IncomingMessage['headers'];
+  close: () => Promise<void>;
+}
+
+// A local HTTP server standing in for a vendor API. Routes are matched on
+// the path; unknown paths get a 404.
+export async function startFakeUpstream(routes: Record<string, FakeRoute | ((url: URL) => FakeRoute)>): Promise<FakeUpstream> {
+  const upstream: FakeUpstream = { url: '', requests: [], lastHeaders: {}, close: async () => undefined };
+  const server: Server = createServer((request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    upstream.requests.push(`${url.pathname}${url.search}`);
+    upstream.lastHeaders = request.headers;
+    const route = routes[url.pathname];
+    const { status = 200, body } = typeof route === 'function' ? route(url) : route ?? { status: 404, body: { error: 'not found' } };
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  upstream.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  upstream.close = () => new Promise(resolve => server.close(() => resolve()));
+  return upstream;
+}
@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createCensusDemographicsProvider, parseAcsResponse, parseTractResponse, toDemographics
+} from '@/services/providers/CensusDemographicsProvider';
+import acsTract from '@/services/providers/fixtures/census/acs5-2022-tract.json';
+import tractGeographies from '@/services/providers/fixtures/census/geographies-coordinates.json';
+
+function lookupAt(latitude: number, longitude: number) {
+  return {
+    address: '233 S Wacker Dr, Chicago, IL 60606',
+    street: '233 S Wacker Dr',
+    city: 'Chicago',
+    state: 'IL',
+    zip: '60606',
+    locate: async () => ({ latitude, longitude, accuracy: 10 })
+  };
+}
+
+// Answers from the recordings, and fails like fetch does for an aborted signal
+function replayCensus() {
+  return vi.fn(async (url: string, init?: RequestInit) => {
+    if (init?.signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+    const body = url.includes('/geocoder/') ? tractGeographies : acsTract;
+    return new Response(JSON.stringify(body));
+  });
+}
+
+describe('parseTractResponse', () => {
+  it('reads the tract from a geographies response', () => {
+    expect(parseTractResponse(tractGeographies)).toEqual({
+      geoid: '17031839100',
+      state: '17',
+      county: '031',
+      tract: '839100',
+      landArea: 1269562
+    });
+  });
+
+  it('returns null outside a tract or for an unexpected shape', () => {
+    expect(parseTractResponse({ result: { geographies: { 'Census Tracts': [] } } })).toBeNull();
+    expect(parseTractResponse({ result: { geographies: { 'Census Tracts': 'none' } } })).toBeNull();
+    expect(parseTractResponse([])).toBeNull();
+    expect(parseTractResponse(null)).toBeNull();
+  });
+});
+
+describe('parseAcsResponse', () => {
+  it('maps the header row onto the data row', () => {
+    expect(parseAcsResponse(acsTract)).toMatchObject({
+      medianIncome: 98750,
+      medianAge: 33.4,
+      population: 7421,
+      medianRent: 1874,
+      bachelors: 2684,
+      doctorate: 187
+    });
+  });
+
+  it('reads suppressed estimates as zero', () => {
+    const [header, row] = acsTract;
+    const suppressed = row.map((value, index) => (header[index] === 'B25064_001E' ? '-666666666' : value));
+
+    expect(parseAcsResponse([header, suppressed])?.medianRent).toBe(0);
+  });
+
+  it('returns null without a data row', () => {
+    expect(parseAcsResponse([acsTract[0]])).toBeNull();
+    expect(parseAcsResponse({})).toBeNull();
+  });
+});
+
+describe('toDemographics', () => {
+  it('summarizes the tract', () => {
+    const demographics = toDemographics(parseAcsResponse(acsTract)!, parseTractResponse(tractGeographies)!, 2022);
+
+    expect(demographics).toEqual({
+      medianIncome: 98750,
+      medianAge: 33.4,
+      populationDensity: 15139,
+      educationLevel: "Bachelor's Degree",
+      employmentRate: 0.958,
+      population: 7421,
+      bachelorsOrHigher: 0.822,
+      renterShare: 0.653,
+      medianRent: 1874,
+      tract: '17031839100',
+      year: 2022
+    });
+  });
+
+  it('leaves shares out when their totals are missing', () => {
+    const values = { ...parseAcsResponse(acsTract)!, adults25: 0, occupiedHomes: 0, medianRent: 0 };
+    const demographics = toDemographics(values, { ...parseTractResponse(tractGeographies)!, landArea: 0 }, 2022);
+
+    expect(demographics).toMatchObject({ educationLevel: 'Unknown', populationDensity: 0 });
+    expect(demographics.bachelorsOrHigher).toBeUndefined();
+    expect(demographics.renterShare).toBeUndefined();
+    expect(demographics.medianRent).toBeUndefined();
+  });
+});
+
+describe('createCensusDemographicsProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('looks up the tract, then its estimates, once per session', async () => {
+    const fetch = replayCensus();
+    vi.stubGlobal('fetch', fetch);
+    const provider = createCensusDemographicsProvider('demographics', { year: 2021, apiKey: 'key' })!;
+
+    const first = await provider.fetch(lookupAt(41.8781, -87.6298));
+    const second = await provider.fetch(lookupAt(41.8781, -87.6298));
+
+    expect(first).toEqual(second);
+    expect(first).toMatchObject({ tract: '17031839100', year: 2021 });
+    expect(fetch).toHaveBeenCalledTimes(2);
+    const acsUrl = new URL(fetch.mock.calls[1][0]);
+    expect(acsUrl.pathname).toBe('/data/2021/acs/acs5');
+    expect(acsUrl.searchParams.get('for')).toBe('tract:839100');
+    expect(acsUrl.searchParams.get('in')).toBe('state:17 county:031');
+    expect(acsUrl.searchParams.get('key')).toBe('key');
+  });
+
+  it('does not fail a lookup because another caller aborted the same request', async () => {
+    vi.stubGlobal('fetch', replayCensus());
+    const provider = createCensusDemographicsProvider('demographics', { year: 2020 })!;
+    const controller = new AbortController();
+    controller.abort();
+
+    const [aborted, completed] = await Promise.allSettled([
+      provider.fetch(lookupAt(41.88, -87.63), { signal: controller.signal }),
+      provider.fetch(lookupAt(41.88, -87.63))
+    ]);
+
+    expect(aborted.status).toBe('rejected');
+    expect(completed).toMatchObject({ status: 'fulfilled', value: { tract: '17031839100', year: 2020 } });
+  });
+
+  it('marks rate limits as retryable', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 429, statusText: 'Too Many Requests' })));
+    const provider = createCensusDemographicsProvider('demographics', { year: 2019 })!;
+
+    await expect(provider.fetch(lookupAt(40.7, -74))).rejects.toMatchObject({ retryable: true });
+  });
+
+  it('only serves demographics', () => {
+    expect(createCensusDemographicsProvider('schools', {})).toBeNull();
+  });
+});
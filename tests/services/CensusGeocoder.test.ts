@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { parseCensusAddressMatch } from '@/services/providers/CensusGeocoder';
+import addressMatches from '@/services/providers/fixtures/census/locations-onelineaddress.json';
+
+describe('parseCensusAddressMatch', () => {
+  it('reads the first match\'s coordinates', () => {
+    expect(parseCensusAddressMatch(addressMatches)).toEqual({ latitude: 41.88357, longitude: -87.63226, accuracy: 50 });
+  });
+
+  it('returns null without a usable match', () => {
+    expect(parseCensusAddressMatch({ result: { addressMatches: [] } })).toBeNull();
+    expect(parseCensusAddressMatch({ result: { addressMatches: [{ coordinates: { x: 'n/a', y: 41.9 } }] } })).toBeNull();
+    expect(parseCensusAddressMatch({ result: { addressMatches: [{}] } })).toBeNull();
+    expect(parseCensusAddressMatch('Not Found')).toBeNull();
+    expect(parseCensusAddressMatch(null)).toBeNull();
+  });
+});
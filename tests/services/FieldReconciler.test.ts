@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { FieldReconciler } from '@/services/FieldReconciler';
+import type { PublicPropertyData, TaxData } from '@/types/publicData';
+
+const tax = {
+  assessedValue: 180000,
+  yearBuilt: 1925,
+  squareFootage: 1500,
+  bedrooms: 3,
+  bathrooms: 2,
+  lastAssessment: new Date('2024-01-01'),
+  source: 'RealtyMole'
+} as TaxData;
+
+function publicData(extra: Partial<PublicPropertyData> = {}): PublicPropertyData {
+  return { address: '123 Main St, Springfield, IL 62701', fetchedAt: new Date('2024-06-01'), taxAssessment: tax, ...extra };
+}
+
+describe('FieldReconciler', () => {
+  const reconciler = FieldReconciler.getInstance();
+
+  beforeEach(() => {
+    reconciler.configure({});
+  });
+
+  it('prefers a market valuation to the assessed value without flagging a conflict', () => {
+    const market = { estimatedValue: 265000, rentEstimate: 1900 } as PublicPropertyData['marketData'];
+    const { currentValue } = reconciler.reconcile(reconciler.collectCandidates(publicData({ marketData: market })));
+
+    expect(currentValue?.chosen).toMatchObject({ value: 265000, kind: 'vendor' });
+    expect(currentValue?.candidates).toHaveLength(2);
+    expect(currentValue?.conflict).toBe(false);
+  });
+
+  it('ranks the owner\'s values first and flags sources that disagree with them', () => {
+    const resolutions = reconciler.reconcile(reconciler.collectCandidates(publicData(), { bedrooms: 4, yearBuilt: 1925 }));
+
+    expect(resolutions.bedrooms?.chosen).toMatchObject({ value: 4, source: 'Owner', kind: 'user' });
+    expect(resolutions.bedrooms?.conflict).toBe(true);
+    expect(resolutions.yearBuilt?.conflict).toBe(false);
+  });
+
+  it('flags an estimate that outranks the rest when they disagree', () => {
+    reconciler.configure({ precedence: ['estimate', 'vendor'] });
+    const market = { estimatedValue: 265000, rentEstimate: 0 } as PublicPropertyData['marketData'];
+    const { currentValue } = reconciler.reconcile(reconciler.collectCandidates(publicData({ marketData: market })));
+
+    expect(currentValue?.chosen).toMatchObject({ value: 180000, kind: 'estimate' });
+    expect(currentValue?.conflict).toBe(true);
+  });
+
+  it('keeps a candidate the user picked', () => {
+    const candidates = reconciler.collectCandidates(publicData(), { bedrooms: 4 });
+    const vendor = candidates.find(candidate => candidate.field === 'bedrooms' && candidate.kind === 'vendor')!;
+    const { bedrooms } = reconciler.reconcile(candidates, { bedrooms: vendor });
+
+    expect(bedrooms).toMatchObject({ chosen: { value: 3 }, resolvedBy: 'user' });
+    expect(reconciler.toFieldSources({ bedrooms })).toEqual({
+      bedrooms: { value: 3, source: 'RealtyMole', kind: 'vendor', confidence: 0.8, observedAt: tax.lastAssessment, resolvedBy: 'user' }
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProviderRegistry } from '@/services/providers/ProviderRegistry';
+import { NoProviderError, ProviderError } from '@/services/providers/errors';
+import { ApiError } from '@/utils/api';
+import type { DataProvider, FetchOptions } from '@/services/providers/types';
+
+const ADDRESS = '123 Main St, Springfield, IL 62701';
+
+// A tax provider whose answers the test scripts, one per call
+function scripted(id: string, ...attempts: ((options?: FetchOptions) => Promise<unknown>)[]) {
+  const calls: (FetchOptions | undefined)[] = [];
+  ProviderRegistry.getInstance().registerFactory(id, category => ({
+    id,
+    category,
+    fetch: async (_lookup, options) => {
+      calls.push(options);
+      const attempt = attempts[Math.min(calls.length, attempts.length) - 1];
+      return attempt(options) as ReturnType<DataProvider['fetch']>;
+    }
+  }));
+  return calls;
+}
+
+const answer = (assessedValue: number) => async () => ({ assessedValue, source: 'test' });
+const fail = (retryable = false) => async () => { throw new ProviderError('upstream broke', retryable); };
+const uncovered = () => async () => { throw new NoProviderError('not covered'); };
+// Never settles on its own - only the registry's timeout ends it
+const hang = () => (options?: FetchOptions) => new Promise((_resolve, reject) => {
+  options?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+});
+
+describe('ProviderRegistry', () => {
+  const registry = ProviderRegistry.getInstance();
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    registry.configure({});
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('answers every category from fixtures offline', async () => {
+    registry.configure({ '*': ['fixture'] });
+
+    const tax = await registry.resolve('tax', ADDRESS);
+    const flood = await registry.resolve('flood', ADDRESS);
+
+    expect(tax.providerId).toBe('fixture');
+    expect(tax.data.assessedValue).toBe(245000);
+    expect(flood.providerId).toBe('fixture');
+  });
+
+  it('asks providers in priority order', async () => {
+    scripted('preferred', answer(1));
+    registry.configure({ tax: [{ provider: 'fixture', priority: 0 }, { provider: 'preferred', priority: 10 }] });
+
+    const result = await registry.resolve('tax', ADDRESS);
+
+    expect(result).toMatchObject({ providerId: 'preferred', data: { assessedValue: 1 } });
+  });
+
+  it('falls through a failing provider without retrying permanent errors', async () => {
+    const calls = scripted('failing', fail());
+    registry.configure({ tax: ['failing', 'fixture'] });
+
+    const result = await registry.resolve('tax', ADDRESS);
+
+    expect(result.providerId).toBe('fixture');
+    expect(calls).toHaveLength(1);
+  });
+
+  it('retries transient failures with backoff', async () => {
+    vi.useFakeTimers();
+    const calls = scripted('flaky', fail(true), fail(true), answer(2));
+    registry.configure({ tax: [{ provider: 'flaky', retries: 2 }, 'fixture'] });
+
+    const pending = registry.resolve('tax', ADDRESS);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(calls).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(pending).resolves.toMatchObject({ providerId: 'flaky', data: { assessedValue: 2 } });
+    expect(calls).toHaveLength(3);
+  });
+
+  it('does not retry our API\'s rate limit', async () => {
+    const calls = scripted('limited', async () => {
+      throw new ApiError(429, 'rate_limited', 'Too many lookup requests, retry in 300s');
+    });
+    registry.configure({ tax: [{ provider: 'limited', retries: 2 }, 'fixture'] });
+
+    await expect(registry.resolve('tax', ADDRESS)).resolves.toMatchObject({ providerId: 'fixture' });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('times out a hanging provider, aborts it and moves on', async () => {
+    vi.useFakeTimers();
+    const calls = scripted('hanging', hang());
+    registry.configure({ tax: [{ provider: 'hanging', timeoutMs: 100, retries: 0 }, 'fixture'] });
+
+    const pending = registry.resolve('tax', ADDRESS);
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(pending).resolves.toMatchObject({ providerId: 'fixture' });
+    expect(calls[0]?.signal?.aborted).toBe(true);
+  });
+
+  it('fails with every provider\'s reason when all of them fail', async () => {
+    scripted('broken', fail());
+    registry.configure({ tax: ['broken', { provider: 'fixture', options: { fallbackToDefault: false } }] });
+
+    await expect(registry.resolve('tax', '1 Nowhere Rd, Elsewhere, ZZ')).rejects.toThrow(
+      /All tax providers failed - broken: .*upstream broke; fixture: .*No tax fixture/
+    );
+  });
+
+  it('reports uncovered addresses as NoProviderError', async () => {
+    scripted('elsewhere', uncovered());
+    registry.configure({ tax: ['elsewhere'] });
+
+    await expect(registry.resolve('tax', ADDRESS)).rejects.toBeInstanceOf(NoProviderError);
+  });
+
+  it('reports categories without providers as NoProviderError', async () => {
+    registry.configure({ tax: [{ provider: 'fixture', enabled: false }] });
+
+    await expect(registry.resolve('tax', ADDRESS)).rejects.toBeInstanceOf(NoProviderError);
+  });
+});
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import { PublicDataRefresher } from '@/services/PublicDataRefresher';
+import { PublicDataScraper } from '@/services/PublicDataScraper';
+import { usePropertyStore } from '@/store/propertyStore';
+import { useHistoryStore } from '@/store/historyStore';
+import { fetchApi } from '@/utils/api';
+import type { Property } from '@/types';
+import type { PropertyComparable, PublicPropertyData } from '@/types/publicData';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function property(id: string, checkedDaysAgo?: number): Property {
+  return {
+    id,
+    address: { formatted: `${id} Main St, Springfield, IL 62701` },
+    geo: [39.8, -89.64],
+    overview: { alerts: [], recentActivity: [] },
+    operations: { workOrders: [] },
+    publicDataCheckedAt: checkedDaysAgo === undefined ? undefined : new Date(Date.now() - checkedDaysAgo * DAY_MS)
+  } as unknown as Property;
+}
+
+function snapshot(address: string): PublicPropertyData {
+  return {
+    address,
+    fetchedAt: new Date(),
+    permits: [{ permitNumber: `P-${address}`, type: 'Electrical', description: 'Rewire', value: 1200, status: 'issued' }],
+    violations: [],
+    sources: { permits: { status: 'ok', provider: 'fixture', fetchedAt: new Date() } }
+  } as PublicPropertyData;
+}
+
+function comp(address: string, saleDate: unknown, distance?: number): PropertyComparable {
+  return { address, saleDate, distance, price: 300000, pricePerSqft: 200 } as unknown as PropertyComparable;
+}
+
+describe('PublicDataRefresher', () => {
+  const refresher = PublicDataRefresher.getInstance();
+  let scrape: MockInstance<PublicDataScraper['scrapePropertyData']>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    scrape = vi.spyOn(PublicDataScraper.getInstance(), 'scrapePropertyData')
+      .mockImplementation(async address => snapshot(address));
+    useHistoryStore.setState({ entries: [], undoStack: [], redoStack: [] });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('writes each property once, outside the history and undo stack', async () => {
+    usePropertyStore.setState({ properties: [property('1')] });
+    const updateProperty = vi.spyOn(usePropertyStore.getState(), 'updateProperty');
+    const applySystemUpdate = vi.spyOn(usePropertyStore.getState(), 'applySystemUpdate');
+
+    const summary = await refresher.refreshAll();
+
+    expect(summary).toMatchObject({ checked: 1, failed: 0, deferred: 0 });
+    expect(scrape).toHaveBeenCalledWith('1 Main St, Springfield, IL 62701', { waitForRevalidation: true });
+    expect(applySystemUpdate).toHaveBeenCalledTimes(1);
+    expect(updateProperty).not.toHaveBeenCalled();
+    const [stored] = usePropertyStore.getState().properties;
+    expect(stored.publicData?.permits).toHaveLength(1);
+    expect(stored.publicDataCheckedAt).toBeInstanceOf(Date);
+    expect(useHistoryStore.getState().entries).toEqual([]);
+    expect(useHistoryStore.getState().canUndo()).toBe(false);
+  });
+
+  it('refreshes a few properties per check, least recently checked first', async () => {
+    usePropertyStore.setState({
+      properties: [property('a', 2), property('b', 5), property('c'), property('d', 3), property('e', 4), property('fresh', 0)]
+    });
+
+    const summary = await refresher.refreshAll();
+
+    expect(summary).toMatchObject({ checked: 4, deferred: 1 });
+    expect(scrape.mock.calls.map(([address]) => address.split(' ')[0])).toEqual(['c', 'b', 'e', 'd']);
+  });
+
+  it('treats the first successful fetch after a failed one as a baseline', async () => {
+    const failed: PublicPropertyData = {
+      ...snapshot('1'),
+      permits: [],
+      violations: [],
+      sources: {
+        permits: { status: 'failed', provider: 'fixture', fetchedAt: new Date() },
+        violations: { status: 'failed', provider: 'fixture', fetchedAt: new Date() }
+      }
+    } as PublicPropertyData;
+    usePropertyStore.setState({ properties: [{ ...property('1'), publicData: failed }] });
+    scrape.mockImplementation(async address => ({
+      ...snapshot(address),
+      violations: [{ violationId: 'V-1', type: 'CN104015', description: 'REPAIR PORCH', status: 'open' }],
+      sources: {
+        permits: { status: 'ok', provider: 'fixture', fetchedAt: new Date() },
+        violations: { status: 'ok', provider: 'fixture', fetchedAt: new Date() }
+      }
+    } as PublicPropertyData));
+
+    const summary = await refresher.refreshAll();
+
+    expect(summary).toMatchObject({ checked: 1, failed: 0, changes: [] });
+    const [stored] = usePropertyStore.getState().properties;
+    expect(stored.publicData?.permits).toHaveLength(1);
+    expect(stored.overview.alerts.filter(alert => alert.severity === 'critical')).toHaveLength(1);
+  });
+
+  it('skips comps without a sale date or distance instead of failing the refresh', async () => {
+    const market = (comparables: PropertyComparable[]) => ({
+      ...snapshot('1'),
+      marketData: { comparables },
+      sources: { marketData: { status: 'ok', provider: 'fixture', fetchedAt: new Date() } }
+    } as unknown as PublicPropertyData);
+    usePropertyStore.setState({
+      properties: [{ ...property('1'), publicData: market([comp('5 Oak St', '2024-03-01', 0.4), comp('7 Oak St', 'not a date')]) }]
+    });
+    scrape.mockImplementation(async () => market([
+      comp('5 Oak St', '2024-03-01', 0.4),
+      comp('7 Oak St', 'not a date'),
+      comp('9 Oak St', '2024-05-01')
+    ]));
+
+    const summary = await refresher.refreshAll();
+
+    expect(summary).toMatchObject({ checked: 1, failed: 0 });
+    expect(summary.changes).toEqual([expect.objectContaining({
+      kind: 'comp-sale',
+      message: 'Comparable sale: 9 Oak St sold for $300,000 ($200/sq ft)'
+    })]);
+  });
+
+  // Leaves the lookup budget marked as spent for the rest of the file, so it runs last
+  it('stops once the API answers with a lookup rate limit', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(
+      JSON.stringify({ success: false, error: { code: 'rate_limited', message: 'Too many lookup requests', details: { rule: 'lookup' } } }),
+      { status: 429, headers: { 'Retry-After': '300' } }
+    )));
+    scrape.mockImplementation(async address => {
+      await fetchApi(`/api/data/tax?address=${encodeURIComponent(address)}`).catch(() => undefined);
+      return snapshot(address);
+    });
+    usePropertyStore.setState({ properties: [property('1'), property('2'), property('3')] });
+
+    const summary = await refresher.refreshAll();
+
+    expect(summary).toMatchObject({ checked: 1, deferred: 2 });
+    expect(scrape).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildSocrataWhere, createSocrataProvider, parseSocrataRows, type SocrataDatasetConfig } from '@/services/providers/SocrataProvider';
+import { parseStreetLine, type StreetParts } from '@/utils/addressDetection';
+import datasetsJson from '@/services/providers/socrata-datasets.json';
+import chicagoPermits from '@/services/providers/fixtures/socrata/chicago-building-permits.json';
+import chicagoViolations from '@/services/providers/fixtures/socrata/chicago-building-violations.json';
+import laPermits from '@/services/providers/fixtures/socrata/la-building-permits.json';
+import nycPermits from '@/services/providers/fixtures/socrata/nyc-dob-permits.json';
+import nycViolations from '@/services/providers/fixtures/socrata/nyc-dob-ecb-violations.json';
+
+const datasets = datasetsJson.datasets as unknown as SocrataDatasetConfig[];
+
+function dataset<C extends SocrataDatasetConfig['category']>(id: string, category?: C): SocrataDatasetConfig & { category: C } {
+  const config = datasets.find(candidate => candidate.id === id && (!category || candidate.category === category));
+  if (!config) throw new Error(`No dataset ${id}`);
+  return config as SocrataDatasetConfig & { category: C };
+}
+
+function street(line: string): StreetParts {
+  const parts = parseStreetLine(line);
+  if (!parts) throw new Error(`Can't parse ${line}`);
+  return parts;
+}
+
+describe('buildSocrataWhere', () => {
+  it('matches number, direction and name on text columns', () => {
+    expect(buildSocrataWhere(dataset('chicago-building-permits'), street('1234 N Milwaukee Ave'))).toBe(
+      "upper(street_number)='1234' AND upper(street_name)='MILWAUKEE' AND upper(street_direction)='N'"
+    );
+  });
+
+  it('compares numeric house number columns as numbers and narrows on the suffix', () => {
+    expect(buildSocrataWhere(dataset('la-building-permits'), street('6000 W Sunset Blvd'))).toBe(
+      "address_start=6000 AND upper(street_name)='SUNSET' AND upper(street_direction)='W' AND upper(street_suffix)='BLVD'"
+    );
+  });
+
+  it('searches within whole-street columns', () => {
+    expect(buildSocrataWhere(dataset('nyc-dob-permits'), street('350 West 42nd Street'))).toBe(
+      "upper(house__)='350' AND upper(street_name) like '%42ND%'"
+    );
+  });
+
+  it('only narrows on the parts the address has', () => {
+    expect(buildSocrataWhere(dataset('chicago-building-violations'), street('1234 Milwaukee'))).toBe(
+      "upper(street_number)='1234' AND upper(street_name)='MILWAUKEE'"
+    );
+  });
+
+  it('escapes quotes', () => {
+    expect(buildSocrataWhere(dataset('chicago-building-permits'), street("12 O'Brien St"))).toContain("'O''BRIEN'");
+  });
+});
+
+describe('parseSocrataRows', () => {
+  it('maps Chicago permits', () => {
+    const [latest, older] = parseSocrataRows(dataset('chicago-building-permits', 'permits'), chicagoPermits);
+
+    expect(latest).toEqual({
+      permitNumber: '101005392',
+      type: 'PERMIT - RENOVATION/ALTERATION',
+      description: 'INTERIOR ALTERATIONS TO 2ND FLOOR DWELLING UNIT, NEW KITCHEN AND BATH',
+      value: 38000,
+      issueDate: new Date('2023-04-18T00:00:00.000'),
+      status: 'COMPLETE',
+      contractor: 'NORTHSIDE BUILDERS LLC'
+    });
+    expect(older.contractor).toBeUndefined();
+  });
+
+  it('maps Los Angeles and New York permits', () => {
+    const [la] = parseSocrataRows(dataset('la-building-permits', 'permits'), laPermits);
+    const [nyc] = parseSocrataRows(dataset('nyc-dob-permits', 'permits'), nycPermits);
+
+    expect(la).toMatchObject({ permitNumber: '23016-10000-04512', value: 14500, status: 'Permit Finaled' });
+    expect(la.issueDate).toEqual(new Date('2023-06-21T00:00:00.000'));
+    // The DOB permit feed has no cost column
+    expect(nyc).toMatchObject({ permitNumber: '3781245', type: 'AL', description: 'PL', value: 0 });
+    expect(nyc.issueDate).toEqual(new Date('08/14/2024'));
+  });
+
+  it('reduces violation statuses to open or closed and keeps the wording', () => {
+    const chicago = parseSocrataRows(dataset('chicago-building-violations', 'violations'), chicagoViolations);
+    const [nyc] = parseSocrataRows(dataset('nyc-dob-ecb-violations', 'violations'), nycViolations);
+
+    expect(chicago.map(violation => [violation.violationId, violation.status, violation.statusDetail])).toEqual([
+      ['6438021', 'open', 'OPEN'],
+      ['5901177', 'closed', 'COMPLIED']
+    ]);
+    expect(chicago[0].fine).toBeUndefined();
+    expect(nyc).toMatchObject({ violationId: '39215487K', status: 'closed', fine: 2500 });
+    // YYYYMMDD dates
+    expect(nyc.issueDate).toEqual(new Date('2023-03-08'));
+  });
+
+  it('leaves blank dates unset and reads a missing status as unknown', () => {
+    const config = { ...dataset('chicago-building-violations', 'violations'), fields: { violationId: 'id', issueDate: 'violation_date' } };
+    const [violation] = parseSocrataRows(config, [{ id: '1', violation_date: '' }]);
+
+    expect(violation.issueDate).toBeUndefined();
+    expect(violation.status).toBe('unknown');
+  });
+
+  it('returns nothing for a non-array response', () => {
+    expect(parseSocrataRows(dataset('chicago-building-permits', 'permits'), { error: true })).toEqual([]);
+  });
+});
+
+describe('socrata provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('queries the city\'s datasets and parses the recorded response', async () => {
+    const fetch = vi.fn(async (_url: string) => new Response(JSON.stringify(chicagoViolations)));
+    vi.stubGlobal('fetch', fetch);
+    const provider = createSocrataProvider('violations', { baseUrl: 'http://replay.test/', appToken: 'token' })!;
+    const lookup = {
+      address: '1234 N Milwaukee Ave, Chicago, IL',
+      street: '1234 N Milwaukee Ave',
+      city: 'Chicago',
+      state: 'IL',
+      zip: '',
+      locate: async () => ({ latitude: 0, longitude: 0, accuracy: 0 })
+    };
+
+    expect(provider.supports?.(lookup)).toBe(true);
+    expect(provider.supports?.({ ...lookup, city: 'Boston', state: 'MA' })).toBe(false);
+    const violations = await provider.fetch(lookup);
+
+    expect(violations).toHaveLength(2);
+    const url = new URL(fetch.mock.calls[0][0]);
+    expect(url.origin + url.pathname).toBe('http://replay.test/resource/22u3-xenr.json');
+    expect(url.searchParams.get('$where')).toBe(
+      "upper(street_number)='1234' AND upper(street_name)='MILWAUKEE' AND upper(street_direction)='N' AND upper(street_type)='AVE'"
+    );
+    expect(url.searchParams.get('$order')).toBe('violation_date DESC');
+  });
+});
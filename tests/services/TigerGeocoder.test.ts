@@ -0,0 +1,137 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTigerGeocoder, type TigerCountyConfig } from '@/services/providers/TigerGeocoder';
+import { NoProviderError } from '@/services/providers/errors';
+
+const FIXTURES = resolve(__dirname, '../../src/services/providers/fixtures/tiger');
+
+const COUNTIES: TigerCountyConfig[] = [
+  { fips: '17031', name: 'Cook', state: 'IL', files: ['/data/tiger/tl_2024_17031_addrfeat.geojson'] },
+  { fips: '17167', name: 'Sangamon', state: 'IL', files: ['/data/tiger/tl_2024_17167_addrfeat.geojson'] }
+];
+
+// Serves /data/tiger from the fixture extracts, plus a manifest listing them
+function serveTigerFiles() {
+  return vi.fn(async (url: string) => {
+    if (url === '/data/tiger/index.json') {
+      return new Response(JSON.stringify({ counties: COUNTIES }), { headers: { 'Content-Type': 'application/json' } });
+    }
+    const file = url.replace('/data/tiger/', '');
+    try {
+      return new Response(readFileSync(resolve(FIXTURES, file), 'utf8'), { headers: { 'Content-Type': 'application/geo+json' } });
+    } catch {
+      return new Response('Not found', { status: 404 });
+    }
+  });
+}
+
+describe('createTigerGeocoder', () => {
+  let fetch: ReturnType<typeof serveTigerFiles>;
+
+  beforeEach(() => {
+    fetch = serveTigerFiles();
+    vi.stubGlobal('fetch', fetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('geocode', () => {
+    it('interpolates a full match along the street edge', async () => {
+      const result = await createTigerGeocoder({ counties: COUNTIES }).geocode('121 N LaSalle St, Chicago, IL 60602');
+
+      expect(result.score).toBe(1);
+      expect(result.accuracy).toBe(50);
+      expect(result.latitude).toBeCloseTo(41.8837, 3);
+      expect(result.longitude).toBeCloseTo(-87.6323, 3);
+    });
+
+    it('scores missing direction, street type and ZIP lower', async () => {
+      const result = await createTigerGeocoder({ counties: COUNTIES }).geocode('121 LaSalle, Chicago');
+
+      expect(result.score).toBe(0.75);
+    });
+
+    it('treats matches below minScore as not found', async () => {
+      const geocoder = createTigerGeocoder({ counties: COUNTIES, minScore: 0.8 });
+
+      await expect(geocoder.geocode('121 LaSalle, Chicago')).rejects.toBeInstanceOf(NoProviderError);
+      await expect(createTigerGeocoder({ counties: COUNTIES }).geocode('121 S LaSalle Ave, Chicago, IL'))
+        .rejects.toBeInstanceOf(NoProviderError);
+    });
+
+    it('only searches counties in the address\'s state', async () => {
+      const geocoder = createTigerGeocoder({ counties: COUNTIES });
+
+      await expect(geocoder.geocode('121 Main St, Springfield, IL 62701')).resolves.toMatchObject({ score: 1 });
+      await expect(geocoder.geocode('121 Main St, Springfield, MO 65801')).rejects.toBeInstanceOf(NoProviderError);
+    });
+
+    it('reads the counties from the manifest', async () => {
+      const result = await createTigerGeocoder({ manifest: '/data/tiger/index.json' }).geocode('121 Main St, Springfield, IL 62701');
+
+      expect(result.score).toBe(1);
+      expect(fetch.mock.calls.map(([url]) => url)).toContain('/data/tiger/index.json');
+    });
+
+    it('counts missing files as not covered', async () => {
+      const geocoder = createTigerGeocoder({ manifest: '/data/tiger/missing.json' });
+
+      await expect(geocoder.geocode('121 Main St, Springfield, IL 62701')).rejects.toBeInstanceOf(NoProviderError);
+    });
+  });
+
+  describe('reverseGeocode', () => {
+    const reverse = (latitude: number, longitude: number) =>
+      createTigerGeocoder({ counties: COUNTIES }).reverseGeocode!({ latitude, longitude, accuracy: 10 });
+
+    it('snaps to the nearest edge and interpolates the house number', async () => {
+      await expect(reverse(41.88357, -87.63226)).resolves.toMatchObject({
+        street: '117 N La Salle St',
+        city: '',
+        state: 'IL',
+        zip: '60602',
+        formatted: '117 N La Salle St, IL 60602'
+      });
+      await expect(reverse(41.8831, -87.6315)).resolves.toMatchObject({ street: '115 W Washington St' });
+      await expect(reverse(39.8019, -89.6435)).resolves.toMatchObject({ formatted: '159 Main St, IL 62701' });
+    });
+
+    it('finds nothing beyond the search radius', async () => {
+      await expect(reverse(41.95, -87.7)).rejects.toBeInstanceOf(NoProviderError);
+    });
+  });
+});
+
+describe('default geocoder chain', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.stubGlobal('fetch', serveTigerFiles());
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const geocode = async (address: string) => {
+    const { GeolocationService } = await import('@/services/GeolocationService');
+    return GeolocationService.getInstance().geocode(address);
+  };
+
+  it('falls back to TIGER/Line once a manifest is configured', async () => {
+    vi.stubEnv('VITE_TIGER_MANIFEST', '/data/tiger/index.json');
+
+    await expect(geocode('121 Main St, Springfield, IL 62701')).resolves.toMatchObject({ score: 1 });
+  });
+
+  it('leaves TIGER/Line out without one', async () => {
+    await expect(geocode('121 Main St, Springfield, IL 62701')).rejects.toThrow(/api-proxy: .*census: /);
+    expect(vi.mocked(fetch).mock.calls.map(([url]) => String(url))).not.toContain('/data/tiger/index.json');
+  });
+});
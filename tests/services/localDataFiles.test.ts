@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ProviderRegistry } from '@/services/providers/ProviderRegistry';
+import { NoProviderError } from '@/services/providers/errors';
+import type { DataCategory } from '@/services/providers/types';
+
+const ADDRESS = '123 Main St, Springfield, IL 62701';
+const LOCATION = { latitude: 39.80172, longitude: -89.64371, accuracy: 10 };
+const INDEX_HTML = '<!doctype html><html><body><div id="root"></div></body></html>';
+
+// Providers reading local extracts under /data, with their default files
+const LOCAL_PROVIDERS: [DataCategory, string][] = [
+  ['flood', 'fema-nfhl'],
+  ['zoning', 'municipal-zoning'],
+  ['schools', 'nces-schools'],
+  ['crime', 'crime-incidents']
+];
+
+function resolve(category: DataCategory) {
+  return ProviderRegistry.getInstance().resolve(category, ADDRESS, { locate: async () => LOCATION });
+}
+
+describe('local data files', () => {
+  afterEach(() => {
+    ProviderRegistry.getInstance().configure({});
+    vi.unstubAllGlobals();
+  });
+
+  it.each(LOCAL_PROVIDERS)('%s reads a missing file as not covered', async (category, provider) => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Not found', { status: 404 })));
+    ProviderRegistry.getInstance().configure({ [category]: [provider] });
+
+    await expect(resolve(category)).rejects.toBeInstanceOf(NoProviderError);
+  });
+
+  it.each(LOCAL_PROVIDERS)('%s reads the SPA fallback page as not covered', async (category, provider) => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(INDEX_HTML, { headers: { 'Content-Type': 'text/html' } })));
+    ProviderRegistry.getInstance().configure({ [category]: [provider] });
+
+    await expect(resolve(category)).rejects.toBeInstanceOf(NoProviderError);
+  });
+
+  it('still fails when the file server errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 403, statusText: 'Forbidden' })));
+    ProviderRegistry.getInstance().configure({ flood: [{ provider: 'fema-nfhl', retries: 0 }] });
+
+    const error = await resolve('flood').catch(caught => caught);
+    expect(error).not.toBeInstanceOf(NoProviderError);
+    expect(error.message).toMatch(/403 - Forbidden/);
+  });
+});
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PROPERTY_SCHEMA_VERSION, migrateProperties, migrateProperty } from '@/store/migrations';
+import { createIndexedDBStorage } from '@/store/persistence';
+import { reviveDates } from '@/utils/serialization';
+
+const CREATED = new Date('2023-03-01T12:00:00.000Z');
+const FETCHED = new Date('2024-05-02T08:30:00.000Z');
+
+// Shapes as they were saved before versioning: no updatedAt, alerts without
+// ids or timestamps, bare flood zone and zoning codes, portal statuses
+const V0_PROPERTY = {
+  id: 'p_v0',
+  address: { formatted: '123 Main St, Springfield, IL 62701' },
+  createdAt: CREATED,
+  overview: {
+    alerts: [{ type: 'warning', title: 'Lease ending', message: 'Unit 2' }],
+    recentActivity: [{ type: 'payment', description: 'Rent received', timestamp: FETCHED }]
+  },
+  operations: { workOrders: [{ id: 'wo_1', title: 'Fix porch', createdAt: FETCHED }] },
+  publicData: {
+    address: '123 Main St, Springfield, IL 62701',
+    fetchedAt: FETCHED,
+    floodZone: 'AE',
+    zoning: 'R-2',
+    violations: [{ violationId: 'v_1', status: 'NOT COMPLIED', issueDate: FETCHED }],
+    sales: [{ saleDate: new Date('2019-06-14T00:00:00.000Z'), salePrice: 210000 }]
+  }
+};
+
+const V2_PROPERTY = {
+  id: 'p_v2',
+  address: { formatted: '9 Elm St, Springfield, IL 62701' },
+  createdAt: CREATED,
+  updatedAt: FETCHED,
+  publicDataCheckedAt: FETCHED,
+  overview: { alerts: [{ id: 'a_1', type: 'info', message: 'x', timestamp: CREATED }], recentActivity: [] },
+  operations: { workOrders: [] },
+  publicData: {
+    address: '9 Elm St, Springfield, IL 62701',
+    fetchedAt: FETCHED,
+    floodZone: { zone: 'X', sfha: false },
+    zoning: 'C-1',
+    violations: [{ violationId: 'v_2', status: 'COMPLIED', issueDate: CREATED }]
+  }
+};
+
+// Paths of strings that still look like serialized dates
+function unrevivedDates(value: unknown, path = ''): string[] {
+  if (typeof value === 'string') return reviveDates('', value) instanceof Date ? [path] : [];
+  if (value === null || typeof value !== 'object' || value instanceof Date) return [];
+  return Object.entries(value).flatMap(([key, child]) => unrevivedDates(child, `${path}.${key}`));
+}
+
+// Saves a portfolio as the given version and reads it back through the
+// same storage the property store uses
+async function loadPortfolio(name: string, properties: unknown[], version: number) {
+  const storage = createIndexedDBStorage<{ properties: unknown[] }>()!;
+  await storage.setItem(name, { state: { properties }, version });
+  const stored = await storage.getItem(name);
+  return migrateProperties(stored?.state.properties, stored?.version ?? 0);
+}
+
+describe('property migrations', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('upgrades a v0 portfolio and revives every date', async () => {
+    const [property] = await loadPortfolio('portfolio-v0', [V0_PROPERTY], 0);
+
+    expect(unrevivedDates(property)).toEqual([]);
+    expect(property.createdAt).toEqual(CREATED);
+    expect(property.updatedAt).toEqual(CREATED);
+    expect(property.overview.alerts[0]).toMatchObject({ id: 'alert_p_v0_0', timestamp: CREATED });
+    expect(property.overview.recentActivity[0]).toMatchObject({ id: 'activity_p_v0_0', timestamp: FETCHED });
+    expect(property.operations.workOrders[0].createdAt).toEqual(FETCHED);
+    expect(property.publicData).toMatchObject({
+      fetchedAt: FETCHED,
+      floodZone: { zone: 'AE', sfha: true },
+      zoning: { code: 'R-2' },
+      violations: [{ status: 'open', statusDetail: 'NOT COMPLIED', issueDate: FETCHED }],
+      sales: [{ saleDate: new Date('2019-06-14T00:00:00.000Z') }]
+    });
+  });
+
+  it('upgrades a v2 portfolio from where it left off', async () => {
+    const [property] = await loadPortfolio('portfolio-v2', [V2_PROPERTY], 2);
+
+    expect(unrevivedDates(property)).toEqual([]);
+    expect(property.publicDataCheckedAt).toEqual(FETCHED);
+    expect(property.overview.alerts[0].timestamp).toEqual(CREATED);
+    expect(property.publicData).toMatchObject({
+      floodZone: { zone: 'X', sfha: false },
+      zoning: { code: 'C-1' },
+      violations: [{ status: 'closed', statusDetail: 'COMPLIED', issueDate: CREATED }]
+    });
+  });
+
+  it('leaves current records as they are', () => {
+    const current = { ...V2_PROPERTY, publicData: { ...V2_PROPERTY.publicData, zoning: { code: 'C-1' } } };
+
+    expect(migrateProperty(current, PROPERTY_SCHEMA_VERSION)).toBe(current);
+  });
+
+  it('drops corrupt entries instead of failing to load', async () => {
+    const properties = await loadPortfolio('portfolio-corrupt', [null, 'garbage', [], V0_PROPERTY], 0);
+
+    expect(properties.map(property => property.id)).toEqual(['p_v0']);
+    expect(migrateProperties(null, 0)).toEqual([]);
+    expect(() => migrateProperty(null, 0)).toThrow('not a record');
+  });
+
+  it('refuses data from a newer version', () => {
+    expect(() => migrateProperty(V2_PROPERTY, PROPERTY_SCHEMA_VERSION + 1)).toThrow(/newer than supported/);
+  });
+});
+
+describe('reviveDates', () => {
+  it('only revives exact Date.toJSON output', () => {
+    expect(reviveDates('', '2024-05-02T08:30:00.000Z')).toEqual(FETCHED);
+    expect(reviveDates('', '2024-05-02T08:30:00Z')).toEqual(FETCHED);
+    expect(reviveDates('', '2024-05-02')).toBe('2024-05-02');
+    expect(reviveDates('', '2024-13-45T99:99:99.000Z')).toBe('2024-13-45T99:99:99.000Z');
+    expect(reviveDates('', 1714638600000)).toBe(1714638600000);
+  });
+});
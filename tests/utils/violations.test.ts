@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeViolationStatus } from '@/utils/violations';
+import { publicDataAlerts, publicDataWorkOrders } from '@/utils/publicDataAlerts';
+import type { ViolationData } from '@/types/publicData';
+
+describe('normalizeViolationStatus', () => {
+  it.each([
+    ['OPEN', 'open'],
+    ['ACTIVE', 'open'],
+    ['NOT COMPLIED', 'open'],
+    ['UNRESOLVED', 'open'],
+    ['REOPENED', 'open'],
+    ['PENDING HEARING', 'open'],
+    ['COMPLIED', 'closed'],
+    ['RESOLVE', 'closed'],
+    ['Dismissed', 'closed'],
+    ['INACTIVE', 'closed'],
+    ['NOT ACTIVE', 'closed'],
+    ['SUSPENDED', 'unknown'],
+    ['RENEWED', 'unknown'],
+    ['COMPLAINT RECEIVED', 'unknown'],
+    ['', 'unknown'],
+    [null, 'unknown'],
+    ['NO ENTRY', 'unknown']
+  ])('%j is %s', (raw, expected) => {
+    expect(normalizeViolationStatus(raw)).toBe(expected);
+  });
+
+  it('uses the dataset\'s own closed statuses when it lists them', () => {
+    expect(normalizeViolationStatus('CERTIFIED', ['CERTIFIED'])).toBe('closed');
+    expect(normalizeViolationStatus('NO ENTRY', ['CERTIFIED'])).toBe('open');
+    expect(normalizeViolationStatus('', ['CERTIFIED'])).toBe('unknown');
+  });
+});
+
+describe('violation alerts', () => {
+  const violation = (status: ViolationData['status'], issueDate?: Date): ViolationData => ({
+    violationId: `v_${status}`,
+    type: 'CN104015',
+    description: 'REPAIR PORCH SYSTEM',
+    issueDate,
+    status
+  });
+
+  it('only raises alerts and work orders for open violations', () => {
+    const publicData = {
+      address: '1 Test St',
+      fetchedAt: new Date(),
+      violations: [violation('open'), violation('closed'), violation('unknown')]
+    };
+
+    expect(publicDataAlerts('p1', publicData).map(alert => alert.id)).toEqual(['alert_p1_violation_v_open']);
+    expect(publicDataWorkOrders('p1', publicData)).toHaveLength(1);
+  });
+
+  it('describes violations without a date', () => {
+    const [order] = publicDataWorkOrders('p1', { address: '1 Test St', fetchedAt: new Date(), violations: [violation('open')] });
+
+    expect(order.description).toBe('REPAIR PORCH SYSTEM');
+  });
+});